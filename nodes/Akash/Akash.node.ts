@@ -6,6 +6,7 @@
  */
 
 import {
+	IDataObject,
 	IExecuteFunctions,
 	INodeExecutionData,
 	INodeType,
@@ -17,6 +18,18 @@ import {
 	description as createDeploymentDescription,
 	execute as createDeployment,
 } from './actions/deployment/create.operation';
+import {
+	description as deployDescription,
+	execute as deploy,
+} from './actions/deployment/deploy.operation';
+import {
+	description as redeployDescription,
+	execute as redeploy,
+} from './actions/deployment/redeploy.operation';
+import {
+	description as runwayDescription,
+	execute as checkRunway,
+} from './actions/deployment/runway.operation';
 import {
 	getDescription as getDeploymentDescription,
 	listDescription as getDeploymentsDescription,
@@ -34,6 +47,8 @@ import {
 	executeStatus as deploymentStatus,
 	executeLogs as deploymentLogs,
 	executeDeposit as depositDeployment,
+	closeMessages as closeDeploymentMessages,
+	depositMessages as depositDeploymentMessages,
 } from './actions/deployment/operations';
 
 // Lease operations
@@ -43,11 +58,14 @@ import {
 	closeDescription as closeLeaseDescription,
 	statusDescription as leaseStatusDescription,
 	sendManifestDescription,
+	logsDescription as leaseLogsDescription,
 	executeGet as getLease,
 	executeGetMany as getLeases,
 	executeClose as closeLease,
 	executeStatus as leaseStatus,
 	executeSendManifest as sendManifest,
+	executeLogs as leaseLogs,
+	closeMessages as closeLeaseMessages,
 } from './actions/lease/operations';
 
 // Order operations
@@ -66,6 +84,7 @@ import {
 	getBid,
 	getBids,
 	acceptBid,
+	acceptMessages as acceptBidMessages,
 } from './actions/bid/operations';
 
 // Provider operations
@@ -101,13 +120,61 @@ import {
 	getDelegationsDescription,
 	getRewardsDescription,
 	getEscrowBalancesDescription,
+	historyDescription,
+	deriveAddressesDescription,
+	exportKeystoreDescription,
+	grantDescription,
+	listGrantsDescription,
+	grantAllowanceDescription,
+	getAllowancesDescription,
+	stakingDescription,
 	getBalance,
 	send,
 	getDelegations,
 	getRewards,
 	getEscrowBalances,
+	getHistory,
+	deriveAddresses,
+	exportKeystore,
+	grant,
+	revoke,
+	listGrants,
+	grantAllowance,
+	revokeAllowance,
+	getAllowances,
+	delegate,
+	undelegate,
+	redelegate,
+	withdrawRewards,
+	setWithdrawAddress,
+	getValidatorOptions,
 } from './actions/wallet/operations';
 
+// Governance operations
+import {
+	getDescription as getProposalDescription,
+	getManyDescription as getProposalsDescription,
+	voteDescription,
+	depositDescription as proposalDepositDescription,
+	executeGet as getProposal,
+	executeGetMany as getProposals,
+	executeVote as vote,
+	executeDeposit as depositToProposal,
+} from './actions/governance/operations';
+
+// Transaction operations
+import {
+	broadcastDescription,
+	executeBroadcast as broadcast,
+} from './actions/transaction/operations';
+import {
+	description as batchDescription,
+	batchMessages,
+	BatchMessageBuilder,
+	executeBatch,
+} from './actions/transaction/batch.operation';
+import { closeClientPool, openClientPool, UnsignedTransaction } from './transport';
+
 // Marketplace operations
 import {
 	getCapacityDescription,
@@ -135,6 +202,32 @@ For licensing information, visit https://velobpa.com/licensing or contact licens
 
 let licenseNoticeLogged = false;
 
+/**
+ * Message builder of an operation whose items are sent in shared transactions
+ * Transaction > Batch always batches; other operations when Batch Items is on.
+ */
+function getBatchMessageBuilder(
+	this: IExecuteFunctions,
+	resource: string,
+	operation: string,
+): BatchMessageBuilder | undefined {
+	if (resource === 'transaction' && operation === 'batch') {
+		return batchMessages;
+	}
+
+	const builders: Record<string, BatchMessageBuilder> = {
+		'deployment.close': closeDeploymentMessages,
+		'deployment.deposit': depositDeploymentMessages,
+		'lease.close': closeLeaseMessages,
+		'bid.accept': acceptBidMessages,
+	};
+	const builder = builders[`${resource}.${operation}`];
+	if (!builder || !this.getNodeParameter('batch', 0, false)) {
+		return undefined;
+	}
+	return builder;
+}
+
 export class Akash implements INodeType {
 	description: INodeTypeDescription = {
 		displayName: 'Akash',
@@ -178,6 +271,11 @@ export class Akash implements INodeType {
 						value: 'deployment',
 						description: 'Manage deployments on Akash Network',
 					},
+					{
+						name: 'Governance',
+						value: 'governance',
+						description: 'Vote on chain governance proposals',
+					},
 					{
 						name: 'Lease',
 						value: 'lease',
@@ -198,6 +296,11 @@ export class Akash implements INodeType {
 						value: 'provider',
 						description: 'Query provider information',
 					},
+					{
+						name: 'Transaction',
+						value: 'transaction',
+						description: 'Broadcast transactions signed outside n8n',
+					},
 					{
 						name: 'Wallet',
 						value: 'wallet',
@@ -219,6 +322,13 @@ export class Akash implements INodeType {
 					},
 				},
 				options: [
+					{
+						name: 'Check Escrow Runway',
+						value: 'runway',
+						description:
+							'Estimate how long escrow funds last, alert below a threshold and optionally top up',
+						action: 'Check escrow runway',
+					},
 					{
 						name: 'Close',
 						value: 'close',
@@ -231,6 +341,13 @@ export class Akash implements INodeType {
 						description: 'Create a new deployment from SDL',
 						action: 'Create a deployment',
 					},
+					{
+						name: 'Deploy',
+						value: 'deploy',
+						description:
+							'Create a deployment, lease every group, send the manifest and wait until services are ready',
+						action: 'Deploy an SDL end to end',
+					},
 					{
 						name: 'Deposit',
 						value: 'deposit',
@@ -255,6 +372,13 @@ export class Akash implements INodeType {
 						description: 'Get deployment logs',
 						action: 'Get deployment logs',
 					},
+					{
+						name: 'Redeploy',
+						value: 'redeploy',
+						description:
+							'Deploy a new SDL alongside a running deployment, wait until it is healthy and close the old one',
+						action: 'Redeploy a deployment blue green',
+					},
 					{
 						name: 'Status',
 						value: 'status',
@@ -307,6 +431,12 @@ export class Akash implements INodeType {
 						description: 'Get all leases',
 						action: 'Get many leases',
 					},
+					{
+						name: 'Logs',
+						value: 'logs',
+						description: 'Get lease logs from provider',
+						action: 'Get lease logs',
+					},
 					{
 						name: 'Send Manifest',
 						value: 'sendManifest',
@@ -495,18 +625,78 @@ export class Akash implements INodeType {
 						description: 'Get AKT balance',
 						action: 'Get balance',
 					},
+					{
+						name: 'Delegate',
+						value: 'delegate',
+						description: 'Delegate AKT to a validator',
+						action: 'Delegate AKT',
+					},
 					{
 						name: 'Delegations',
 						value: 'delegations',
 						description: 'Get staking delegations',
 						action: 'Get delegations',
 					},
+					{
+						name: 'Derive Addresses',
+						value: 'deriveAddresses',
+						description: 'List the addresses of the credential mnemonic with their balances',
+						action: 'Derive addresses',
+					},
 					{
 						name: 'Escrow Balances',
 						value: 'escrowBalances',
 						description: 'Get escrow balances for deployments',
 						action: 'Get escrow balances',
 					},
+					{
+						name: 'Export Keystore',
+						value: 'exportKeystore',
+						description: 'Encrypt the credential mnemonic into a keystore for the Encrypted Keystore credential',
+						action: 'Export keystore',
+					},
+					{
+						name: 'Fee Allowances',
+						value: 'allowances',
+						description: 'List fee allowances received by a wallet',
+						action: 'Get fee allowances',
+					},
+					{
+						name: 'Grant',
+						value: 'grant',
+						description: 'Allow another wallet to send messages for this wallet (AuthZ)',
+						action: 'Grant authorization',
+					},
+					{
+						name: 'Grant Fee Allowance',
+						value: 'grantAllowance',
+						description: 'Pay the transaction fees of another wallet (feegrant)',
+						action: 'Grant fee allowance',
+					},
+					{
+						name: 'List Grants',
+						value: 'listGrants',
+						description: 'List AuthZ grants given or received by a wallet',
+						action: 'List grants',
+					},
+					{
+						name: 'Redelegate',
+						value: 'redelegate',
+						description: 'Move delegated AKT to another validator',
+						action: 'Redelegate AKT',
+					},
+					{
+						name: 'Revoke',
+						value: 'revoke',
+						description: 'Revoke AuthZ grants given to another wallet',
+						action: 'Revoke authorization',
+					},
+					{
+						name: 'Revoke Fee Allowance',
+						value: 'revokeAllowance',
+						description: 'Stop paying the transaction fees of another wallet',
+						action: 'Revoke fee allowance',
+					},
 					{
 						name: 'Rewards',
 						value: 'rewards',
@@ -519,6 +709,30 @@ export class Akash implements INodeType {
 						description: 'Send AKT to another address',
 						action: 'Send AKT',
 					},
+					{
+						name: 'Set Withdraw Address',
+						value: 'setWithdrawAddress',
+						description: 'Set the address staking rewards are paid to',
+						action: 'Set withdraw address',
+					},
+					{
+						name: 'Transaction History',
+						value: 'history',
+						description: 'List transactions sent or received by an address',
+						action: 'Get transaction history',
+					},
+					{
+						name: 'Undelegate',
+						value: 'undelegate',
+						description: 'Undelegate AKT from a validator',
+						action: 'Undelegate AKT',
+					},
+					{
+						name: 'Withdraw Rewards',
+						value: 'withdrawRewards',
+						description: 'Withdraw staking rewards from all validators',
+						action: 'Withdraw rewards',
+					},
 				],
 				default: 'balance',
 			},
@@ -575,8 +789,79 @@ export class Akash implements INodeType {
 				default: 'capacity',
 			},
 
+			// Governance operations
+			{
+				displayName: 'Operation',
+				name: 'operation',
+				type: 'options',
+				noDataExpression: true,
+				displayOptions: {
+					show: {
+						resource: ['governance'],
+					},
+				},
+				options: [
+					{
+						name: 'Deposit',
+						value: 'deposit',
+						description: 'Add to the deposit of a proposal',
+						action: 'Deposit to a proposal',
+					},
+					{
+						name: 'Get',
+						value: 'get',
+						description: 'Get a proposal with its tally',
+						action: 'Get a proposal',
+					},
+					{
+						name: 'Get Many',
+						value: 'getMany',
+						description: 'List proposals',
+						action: 'Get many proposals',
+					},
+					{
+						name: 'Vote',
+						value: 'vote',
+						description: 'Vote on a proposal',
+						action: 'Vote on a proposal',
+					},
+				],
+				default: 'getMany',
+			},
+
+			// Transaction operations
+			{
+				displayName: 'Operation',
+				name: 'operation',
+				type: 'options',
+				noDataExpression: true,
+				displayOptions: {
+					show: {
+						resource: ['transaction'],
+					},
+				},
+				options: [
+					{
+						name: 'Batch',
+						value: 'batch',
+						description: 'Send the messages of all items in as few transactions as possible',
+						action: 'Batch messages into transactions',
+					},
+					{
+						name: 'Broadcast',
+						value: 'broadcast',
+						description: 'Broadcast a signed transaction',
+						action: 'Broadcast a transaction',
+					},
+				],
+				default: 'broadcast',
+			},
+
 			// All operation-specific properties
 			...createDeploymentDescription,
+			...deployDescription,
+			...redeployDescription,
+			...runwayDescription,
 			...getDeploymentDescription,
 			...getDeploymentsDescription,
 			...updateDescription,
@@ -590,6 +875,7 @@ export class Akash implements INodeType {
 			...closeLeaseDescription,
 			...leaseStatusDescription,
 			...sendManifestDescription,
+			...leaseLogsDescription,
 
 			...getOrderDescription,
 			...getOrdersDescription,
@@ -614,6 +900,14 @@ export class Akash implements INodeType {
 			...getDelegationsDescription,
 			...getRewardsDescription,
 			...getEscrowBalancesDescription,
+			...historyDescription,
+			...deriveAddressesDescription,
+			...exportKeystoreDescription,
+			...grantDescription,
+			...listGrantsDescription,
+			...grantAllowanceDescription,
+			...getAllowancesDescription,
+			...stakingDescription,
 
 			...getCapacityDescription,
 			...getPricingDescription,
@@ -621,9 +915,23 @@ export class Akash implements INodeType {
 			...getActiveDeploymentsDescription,
 			...getProviderCountDescription,
 			...getUtilizationDescription,
+
+			...getProposalDescription,
+			...getProposalsDescription,
+			...voteDescription,
+			...proposalDepositDescription,
+
+			...broadcastDescription,
+			...batchDescription,
 		],
 	};
 
+	methods = {
+		loadOptions: {
+			getValidators: getValidatorOptions,
+		},
+	};
+
 	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
 		// Log licensing notice once
 		if (!licenseNoticeLogged) {
@@ -636,6 +944,18 @@ export class Akash implements INodeType {
 		const resource = this.getNodeParameter('resource', 0) as string;
 		const operation = this.getNodeParameter('operation', 0) as string;
 
+		// Items share one connected client per credential
+		openClientPool(this);
+
+		const buildBatchMessages = getBatchMessageBuilder.call(this, resource, operation);
+		if (buildBatchMessages) {
+			try {
+				return [await executeBatch.call(this, buildBatchMessages)];
+			} finally {
+				await closeClientPool(this);
+			}
+		}
+
 		for (let i = 0; i < items.length; i++) {
 			try {
 				let result: INodeExecutionData[] = [];
@@ -646,6 +966,15 @@ export class Akash implements INodeType {
 						case 'create':
 							result = await createDeployment.call(this, i);
 							break;
+						case 'deploy':
+							result = await deploy.call(this, i);
+							break;
+						case 'redeploy':
+							result = await redeploy.call(this, i);
+							break;
+						case 'runway':
+							result = await checkRunway.call(this, i);
+							break;
 						case 'get':
 							result = await getDeployment.call(this, i);
 							break;
@@ -685,6 +1014,9 @@ export class Akash implements INodeType {
 						case 'sendManifest':
 							result = await sendManifest.call(this, i);
 							break;
+						case 'logs':
+							result = await leaseLogs.call(this, i);
+							break;
 					}
 				} else if (resource === 'order') {
 					switch (operation) {
@@ -757,6 +1089,48 @@ export class Akash implements INodeType {
 						case 'escrowBalances':
 							result = await getEscrowBalances.call(this, i);
 							break;
+						case 'history':
+							result = await getHistory.call(this, i);
+							break;
+						case 'deriveAddresses':
+							result = await deriveAddresses.call(this, i);
+							break;
+						case 'exportKeystore':
+							result = await exportKeystore.call(this, i);
+							break;
+						case 'grant':
+							result = await grant.call(this, i);
+							break;
+						case 'revoke':
+							result = await revoke.call(this, i);
+							break;
+						case 'listGrants':
+							result = await listGrants.call(this, i);
+							break;
+						case 'grantAllowance':
+							result = await grantAllowance.call(this, i);
+							break;
+						case 'revokeAllowance':
+							result = await revokeAllowance.call(this, i);
+							break;
+						case 'allowances':
+							result = await getAllowances.call(this, i);
+							break;
+						case 'delegate':
+							result = await delegate.call(this, i);
+							break;
+						case 'undelegate':
+							result = await undelegate.call(this, i);
+							break;
+						case 'redelegate':
+							result = await redelegate.call(this, i);
+							break;
+						case 'withdrawRewards':
+							result = await withdrawRewards.call(this, i);
+							break;
+						case 'setWithdrawAddress':
+							result = await setWithdrawAddress.call(this, i);
+							break;
 					}
 				} else if (resource === 'marketplace') {
 					switch (operation) {
@@ -779,10 +1153,39 @@ export class Akash implements INodeType {
 							result = await getUtilization.call(this, i);
 							break;
 					}
+				} else if (resource === 'governance') {
+					switch (operation) {
+						case 'get':
+							result = await getProposal.call(this, i);
+							break;
+						case 'getMany':
+							result = await getProposals.call(this, i);
+							break;
+						case 'vote':
+							result = await vote.call(this, i);
+							break;
+						case 'deposit':
+							result = await depositToProposal.call(this, i);
+							break;
+					}
+				} else if (resource === 'transaction') {
+					switch (operation) {
+						case 'broadcast':
+							result = await broadcast.call(this, i);
+							break;
+					}
 				}
 
 				returnData.push(...result);
 			} catch (error) {
+				// With an external signer the item's output is the transaction to sign
+				if (error instanceof UnsignedTransaction) {
+					returnData.push({
+						json: error.transaction as unknown as IDataObject,
+						pairedItem: { item: i },
+					});
+					continue;
+				}
 				if (this.continueOnFail()) {
 					returnData.push({
 						json: {
@@ -792,10 +1195,12 @@ export class Akash implements INodeType {
 					});
 					continue;
 				}
+				await closeClientPool(this);
 				throw error;
 			}
 		}
 
+		await closeClientPool(this);
 		return [returnData];
 	}
 }
@@ -6,6 +6,7 @@
  */
 
 import {
+	IDataObject,
 	ITriggerFunctions,
 	INodeType,
 	INodeTypeDescription,
@@ -13,7 +14,18 @@ import {
 } from 'n8n-workflow';
 
 import { AkashWebSocketClient } from './transport/websocket';
-import { IAkashEvent } from './types';
+import { ConsoleApiClient } from './transport/consoleApi';
+import { CosmosClient } from './transport/cosmosClient';
+import { createRpcClient } from './transport/rpcClient';
+import { calculateEscrowRunway } from './helpers/escrow';
+import { parseAkashEvent } from './helpers/events';
+import { AVERAGE_BLOCK_TIME_SECONDS } from './constants';
+import {
+	IAkashApiCredentials,
+	IAkashEvent,
+	IAkashRpcCredentials,
+	IProposal,
+} from './types';
 
 // Log licensing notice once on load
 const LICENSING_NOTICE = `[Velocity BPA Licensing Notice]
@@ -26,15 +38,12 @@ For licensing information, visit https://velobpa.com/licensing or contact licens
 
 let licenseNoticeLogged = false;
 
-// Extended event type with additional parsed fields
-interface IParsedAkashEvent extends IAkashEvent {
-	owner?: string;
-	provider?: string;
-	dseq?: number;
-	gseq?: number;
-	oseq?: number;
-	data?: Record<string, unknown>;
-}
+// Tendermint event queries per Akash module, used when polling with tx_search
+const MODULE_QUERIES = {
+	deployment: "message.module='deployment'",
+	market: "message.module='market'",
+	provider: "message.module='provider'",
+};
 
 export class AkashTrigger implements INodeType {
 	description: INodeTypeDescription = {
@@ -54,6 +63,20 @@ export class AkashTrigger implements INodeType {
 			{
 				name: 'akashRpc',
 				required: true,
+				displayOptions: {
+					hide: {
+						eventType: ['escrow.lowRunway'],
+					},
+				},
+			},
+			{
+				name: 'akashApi',
+				required: true,
+				displayOptions: {
+					show: {
+						eventType: ['escrow.lowRunway'],
+					},
+				},
 			},
 		],
 		properties: [
@@ -117,16 +140,144 @@ export class AkashTrigger implements INodeType {
 						value: 'block',
 						description: 'Triggered on each new block',
 					},
+					{
+						name: 'Escrow Runway Low',
+						value: 'escrow.lowRunway',
+						description:
+							'Triggered when a deployment escrow will run out within the threshold (polls the Console API)',
+					},
+					{
+						name: 'Proposal Voting Started',
+						value: 'governance.votingPeriod',
+						description: 'Triggered when a governance proposal enters its voting period (polls RPC)',
+					},
 				],
 				default: 'all',
 				description: 'Type of event to listen for',
 			},
+			{
+				displayName: 'Mode',
+				name: 'mode',
+				type: 'options',
+				options: [
+					{
+						name: 'WebSocket',
+						value: 'websocket',
+						description: 'Receive events in real time over a WebSocket subscription',
+					},
+					{
+						name: 'Polling',
+						value: 'polling',
+						description:
+							'Scan new blocks over RPC from the last processed height, so no events are missed across restarts',
+					},
+				],
+				default: 'websocket',
+				displayOptions: {
+					hide: {
+						eventType: ['escrow.lowRunway', 'governance.votingPeriod'],
+					},
+				},
+				description: 'How to receive events from the chain',
+			},
+			{
+				displayName: 'Poll Interval (Seconds)',
+				name: 'pollInterval',
+				type: 'number',
+				default: 30,
+				displayOptions: {
+					show: {
+						mode: ['polling'],
+					},
+					hide: {
+						eventType: ['escrow.lowRunway', 'governance.votingPeriod'],
+					},
+				},
+				description: 'How often to scan for new blocks',
+				typeOptions: {
+					minValue: 5,
+				},
+			},
+			{
+				displayName: 'Polling Options',
+				name: 'pollingOptions',
+				type: 'collection',
+				placeholder: 'Add Option',
+				default: {},
+				displayOptions: {
+					show: {
+						mode: ['polling'],
+					},
+					hide: {
+						eventType: ['escrow.lowRunway', 'governance.votingPeriod'],
+					},
+				},
+				options: [
+					{
+						displayName: 'Start Height',
+						name: 'startHeight',
+						type: 'number',
+						default: 0,
+						description:
+							'Block height to start scanning from on the first run. 0 starts at the latest block. Ignored once a height has been processed.',
+						typeOptions: {
+							minValue: 0,
+						},
+					},
+					{
+						displayName: 'Max Blocks Per Scan',
+						name: 'maxBlocks',
+						type: 'number',
+						default: 500,
+						description:
+							'Largest height range searched in one request; longer gaps are caught up in several scans',
+						typeOptions: {
+							minValue: 1,
+						},
+					},
+				],
+			},
+			{
+				displayName: 'Runway Threshold (Hours)',
+				name: 'runwayThreshold',
+				type: 'number',
+				default: 24,
+				displayOptions: {
+					show: {
+						eventType: ['escrow.lowRunway'],
+					},
+				},
+				description: 'Trigger when escrow funds last fewer than this many hours',
+				typeOptions: {
+					minValue: 0,
+				},
+			},
+			{
+				displayName: 'Check Interval (Minutes)',
+				name: 'checkInterval',
+				type: 'number',
+				default: 15,
+				displayOptions: {
+					show: {
+						eventType: ['escrow.lowRunway', 'governance.votingPeriod'],
+					},
+				},
+				description: 'How often to recalculate escrow runways or check for new proposals',
+				typeOptions: {
+					minValue: 1,
+				},
+			},
 			{
 				displayName: 'Filter Options',
 				name: 'filters',
 				type: 'collection',
 				placeholder: 'Add Filter',
 				default: {},
+				displayOptions: {
+					hide: {
+						eventType: ['governance.votingPeriod'],
+					},
+				},
 				options: [
 					{
 						displayName: 'Owner Address',
@@ -170,40 +321,21 @@ export class AkashTrigger implements INodeType {
 			dseq?: number;
 		};
 
-		// Get RPC credentials
-		const credentials = await this.getCredentials('akashRpc');
-		const wsEndpoint = credentials.wsEndpoint as string || 'wss://rpc.akashnet.net:443/websocket';
+		if (eventType === 'escrow.lowRunway') {
+			return startRunwayMonitor.call(this, filters);
+		}
+		if (eventType === 'governance.votingPeriod') {
+			return startProposalMonitor.call(this);
+		}
 
-		// Create WebSocket client
-		const wsClient = new AkashWebSocketClient(wsEndpoint);
+		const mode = this.getNodeParameter('mode', 'websocket') as string;
 
-		// Parse attributes to extract common fields
-		const parseEvent = (event: IAkashEvent): IParsedAkashEvent => {
-			const parsed: IParsedAkashEvent = { ...event };
-			const attrMap = new Map(event.attributes.map(a => [a.key, a.value]));
-			
-			parsed.owner = attrMap.get('owner');
-			parsed.provider = attrMap.get('provider');
-			const dseqStr = attrMap.get('dseq');
-			if (dseqStr) parsed.dseq = parseInt(dseqStr, 10);
-			const gseqStr = attrMap.get('gseq');
-			if (gseqStr) parsed.gseq = parseInt(gseqStr, 10);
-			const oseqStr = attrMap.get('oseq');
-			if (oseqStr) parsed.oseq = parseInt(oseqStr, 10);
-			
-			// Convert attributes to data object
-			const data: Record<string, unknown> = {};
-			for (const attr of event.attributes) {
-				data[attr.key] = attr.value;
-			}
-			parsed.data = data;
-			
-			return parsed;
-		};
+		// Get RPC credentials
+		const credentials = await this.getCredentials('akashRpc');
 
-		// Event handler
-		const handleEvent = (event: IAkashEvent) => {
-			const parsed = parseEvent(event);
+		// Output item of an event, or undefined when the filters drop it
+		const toItem = (event: IAkashEvent): IDataObject | undefined => {
+			const parsed = parseAkashEvent(event);
 			
 			// Apply filters
 			if (filters.owner && parsed.owner !== filters.owner) {
@@ -221,23 +353,51 @@ export class AkashTrigger implements INodeType {
 				return;
 			}
 
-			// Emit event
-			this.emit([
-				this.helpers.returnJsonArray([
-					{
-						eventType: event.type,
-						timestamp: event.timestamp,
-						blockHeight: event.height,
-						transactionHash: event.txHash,
-						owner: parsed.owner,
-						provider: parsed.provider,
-						dseq: parsed.dseq,
-						gseq: parsed.gseq,
-						oseq: parsed.oseq,
-						data: parsed.data,
-					},
-				]),
-			]);
+			return {
+				eventType: event.type,
+				timestamp: event.timestamp,
+				blockHeight: event.height,
+				transactionHash: event.txHash,
+				owner: parsed.owner,
+				provider: parsed.provider,
+				dseq: parsed.dseq,
+				gseq: parsed.gseq,
+				oseq: parsed.oseq,
+				id: parsed.id,
+				state: parsed.state,
+				price: parsed.price,
+				reason: parsed.reason,
+				data: parsed.data,
+			};
+		};
+
+		if (mode === 'polling') {
+			return startPolling.call(
+				this,
+				credentials as unknown as IAkashRpcCredentials,
+				eventType,
+				toItem,
+			);
+		}
+
+		const wsEndpoint =
+			(credentials.websocketEndpoint as string) || 'wss://rpc.akashnet.net:443/websocket';
+
+		// Create WebSocket client, backfilling over RPC after reconnects
+		const wsClient = new AkashWebSocketClient(
+			wsEndpoint,
+			createRpcClient(credentials as unknown as IAkashRpcCredentials),
+		);
+		wsClient.on('error', (error: Error) => {
+			this.logger.error(`Akash WebSocket error: ${error.message}`);
+		});
+
+		// Event handler
+		const handleEvent = (event: IAkashEvent) => {
+			const item = toItem(event);
+			if (item) {
+				this.emit([this.helpers.returnJsonArray([item])]);
+			}
 		};
 
 		// Subscribe to events
@@ -271,3 +431,264 @@ export class AkashTrigger implements INodeType {
 		};
 	}
 }
+
+/**
+ * Poll escrow runways and emit deployments that fall below the threshold
+ * A deployment is emitted once per low period and again only after it recovers.
+ */
+async function startRunwayMonitor(
+	this: ITriggerFunctions,
+	filters: { owner?: string; dseq?: number },
+): Promise<ITriggerResponse> {
+	const thresholdHours = this.getNodeParameter('runwayThreshold', 24) as number;
+	const checkInterval = this.getNodeParameter('checkInterval', 15) as number;
+
+	const credentials = (await this.getCredentials('akashApi')) as IAkashApiCredentials;
+	const consoleClient = new ConsoleApiClient(credentials);
+	const cosmosClient = new CosmosClient(credentials, credentials.network || 'mainnet');
+	const owner = filters.owner || credentials.walletAddress;
+	const alerted = new Set<string>();
+
+	const checkRunways = async (emitAll: boolean) => {
+		const deployments = await consoleClient.getDeployments(owner, { state: 'active' });
+		const leases = await consoleClient.getLeases(owner);
+
+		let currentHeight: number | undefined;
+		try {
+			const queryClient = await cosmosClient.getQueryClient();
+			currentHeight = await queryClient.getHeight();
+			queryClient.disconnect();
+		} catch {
+			// Fall back to the last settled balance
+		}
+
+		const items: IDataObject[] = [];
+		for (const deployment of deployments) {
+			const runway = calculateEscrowRunway(
+				deployment,
+				leases,
+				AVERAGE_BLOCK_TIME_SECONDS,
+				currentHeight,
+			);
+			if (filters.dseq && runway.dseq !== String(filters.dseq)) {
+				continue;
+			}
+
+			const low = runway.hoursRemaining !== null && runway.hoursRemaining < thresholdHours;
+			if (!low) {
+				alerted.delete(runway.dseq);
+				continue;
+			}
+			if (alerted.has(runway.dseq) && !emitAll) {
+				continue;
+			}
+			alerted.add(runway.dseq);
+			items.push({
+				eventType: 'escrow.lowRunway',
+				timestamp: new Date().toISOString(),
+				blockHeight: currentHeight,
+				owner,
+				thresholdHours,
+				...runway,
+			});
+		}
+
+		if (items.length > 0) {
+			this.emit([this.helpers.returnJsonArray(items)]);
+		}
+	};
+
+	const interval = setInterval(() => {
+		checkRunways(false).catch((error: Error) => {
+			this.logger.error(`Akash escrow runway check failed: ${error.message}`);
+		});
+	}, checkInterval * 60 * 1000);
+
+	// Check immediately so a low runway is reported without waiting a full interval
+	if (this.getMode() !== 'manual') {
+		checkRunways(false).catch((error: Error) => {
+			this.logger.error(`Akash escrow runway check failed: ${error.message}`);
+		});
+	}
+
+	const closeFunction = async () => {
+		clearInterval(interval);
+	};
+
+	const manualTriggerFunction = async () => {
+		await checkRunways(true);
+	};
+
+	return {
+		closeFunction,
+		manualTriggerFunction,
+	};
+}
+
+/**
+ * Poll governance proposals and emit those that entered their voting period
+ * Proposal IDs already seen are kept in the workflow's static data. The first check
+ * only records the proposals already in voting, so activation does not replay them.
+ */
+async function startProposalMonitor(this: ITriggerFunctions): Promise<ITriggerResponse> {
+	const checkInterval = this.getNodeParameter('checkInterval', 15) as number;
+
+	const credentials = (await this.getCredentials('akashRpc')) as unknown as IAkashRpcCredentials;
+	const staticData = this.getWorkflowStaticData('node') as { seenProposals?: string[] };
+
+	const checkProposals = async (emitAll: boolean) => {
+		const cosmosClient = new CosmosClient(credentials);
+		let proposals: IProposal[];
+		try {
+			await cosmosClient.connect();
+			proposals = await cosmosClient.getProposals('voting');
+		} finally {
+			await cosmosClient.disconnect();
+		}
+
+		const firstRun = staticData.seenProposals === undefined;
+		const seen = new Set(staticData.seenProposals || []);
+		const items: IDataObject[] = proposals
+			.filter((proposal) => emitAll || (!firstRun && !seen.has(proposal.id)))
+			.sort((a, b) => Number(a.id) - Number(b.id))
+			.map((proposal) => ({
+				eventType: 'governance.votingPeriod',
+				timestamp: new Date().toISOString(),
+				...proposal,
+			}));
+
+		// Proposals never return to voting, so only the current ones need remembering
+		if (!emitAll) {
+			staticData.seenProposals = proposals.map((proposal) => proposal.id);
+		}
+
+		if (items.length > 0) {
+			this.emit([this.helpers.returnJsonArray(items)]);
+		}
+	};
+
+	const interval = setInterval(() => {
+		checkProposals(false).catch((error: Error) => {
+			this.logger.error(`Akash proposal check failed: ${error.message}`);
+		});
+	}, checkInterval * 60 * 1000);
+
+	if (this.getMode() !== 'manual') {
+		checkProposals(false).catch((error: Error) => {
+			this.logger.error(`Akash proposal check failed: ${error.message}`);
+		});
+	}
+
+	const closeFunction = async () => {
+		clearInterval(interval);
+	};
+
+	// Manual runs show the proposals currently in voting without marking them as seen
+	const manualTriggerFunction = async () => {
+		await checkProposals(true);
+	};
+
+	return {
+		closeFunction,
+		manualTriggerFunction,
+	};
+}
+
+/**
+ * Scan new blocks over RPC and emit the items of their events
+ * The last processed height is kept in the workflow's static data, so scanning
+ * resumes where it stopped after n8n restarts or the workflow is reactivated.
+ */
+async function startPolling(
+	this: ITriggerFunctions,
+	credentials: IAkashRpcCredentials,
+	eventType: string,
+	toItem: (event: IAkashEvent) => IDataObject | undefined,
+): Promise<ITriggerResponse> {
+	const pollInterval = this.getNodeParameter('pollInterval', 30) as number;
+	const options = this.getNodeParameter('pollingOptions', {}) as {
+		startHeight?: number;
+		maxBlocks?: number;
+	};
+	const maxBlocks = options.maxBlocks || 500;
+
+	const rpcClient = createRpcClient(credentials);
+	const staticData = this.getWorkflowStaticData('node') as { lastHeight?: number };
+
+	let queries: string[];
+	if (eventType === 'all') {
+		queries = Object.values(MODULE_QUERIES);
+	} else if (eventType.startsWith('deployment.')) {
+		queries = [MODULE_QUERIES.deployment];
+	} else if (eventType.startsWith('provider.')) {
+		queries = [MODULE_QUERIES.provider];
+	} else {
+		queries = [MODULE_QUERIES.market];
+	}
+
+	const scan = async (minHeight: number, maxHeight: number): Promise<IDataObject[]> => {
+		const events =
+			eventType === 'block'
+				? await rpcClient.getBlockEvents(minHeight, maxHeight)
+				: await rpcClient.getEvents(queries, minHeight, maxHeight);
+		return events.map(toItem).filter((item): item is IDataObject => item !== undefined);
+	};
+
+	const emitItems = (items: IDataObject[]) => {
+		if (items.length > 0) {
+			this.emit([this.helpers.returnJsonArray(items)]);
+		}
+	};
+
+	let running = false;
+	const poll = async () => {
+		// Skip if the previous poll is still catching up
+		if (running) {
+			return;
+		}
+		running = true;
+		try {
+			const latest = await rpcClient.getLatestHeight();
+			if (staticData.lastHeight === undefined) {
+				staticData.lastHeight = options.startHeight ? options.startHeight - 1 : latest;
+			}
+			while (staticData.lastHeight < latest) {
+				const minHeight = staticData.lastHeight + 1;
+				const maxHeight = Math.min(minHeight + maxBlocks - 1, latest);
+				const items = await scan(minHeight, maxHeight);
+				// Static data is saved with the emit, so the height must already include these blocks
+				staticData.lastHeight = maxHeight;
+				emitItems(items);
+			}
+		} finally {
+			running = false;
+		}
+	};
+
+	const interval = setInterval(() => {
+		poll().catch((error: Error) => {
+			this.logger.error(`Akash event polling failed: ${error.message}`);
+		});
+	}, pollInterval * 1000);
+
+	if (this.getMode() !== 'manual') {
+		poll().catch((error: Error) => {
+			this.logger.error(`Akash event polling failed: ${error.message}`);
+		});
+	}
+
+	const closeFunction = async () => {
+		clearInterval(interval);
+	};
+
+	// Manual runs show recent events without moving the persisted height
+	const manualTriggerFunction = async () => {
+		const latest = await rpcClient.getLatestHeight();
+		emitItems(await scan(Math.max(latest - maxBlocks + 1, 1), latest));
+	};
+
+	return {
+		closeFunction,
+		manualTriggerFunction,
+	};
+}
@@ -6,17 +6,30 @@
  */
 
 import { IExecuteFunctions, INodeExecutionData, INodeProperties, IDataObject } from 'n8n-workflow';
-import { createCosmosClient, createConsoleApiClient } from '../../transport';
+import { createCosmosClient, createConsoleApiClient, CosmosClient } from '../../transport';
+import { rankBids } from '../../helpers';
+import { IBid } from '../../types';
+import { bidSelectionOptions, getBidSelectionOptions, IBidSelectionParameters } from './selection';
+import { batchOptions, getTransactionOptions, transactionOptions } from '../wallet/transaction';
+import { IBatchItem } from '../transaction/batch.operation';
 
 /**
  * Bid Operations for Akash Network
  *
  * Bids are offers from providers to fulfill deployment orders.
  * - Get Bid: Retrieve a specific bid
- * - Get Bids: List all bids for an order
- * - Accept Bid: Accept a bid and create a lease
+ * - Get Bids: List bids for one order or every order of a deployment
+ * - Accept Bid: Accept a bid (given or chosen by strategy) and create a lease
  */
 
+interface IAcceptedBid {
+	dseq: number;
+	gseq: number;
+	oseq: number;
+	provider: string;
+	selection?: IDataObject;
+}
+
 export const getBidDescription: INodeProperties[] = [
 	{
 		displayName: 'Owner Address',
@@ -140,7 +153,7 @@ export const getBidsDescription: INodeProperties[] = [
 				name: 'gseq',
 				type: 'number',
 				default: 1,
-				description: 'Filter by group sequence',
+				description: 'Filter by group sequence. Without it, bids for every order are returned.',
 			},
 			{
 				displayName: 'Order Sequence (oseq)',
@@ -225,6 +238,31 @@ export const acceptBidDescription: INodeProperties[] = [
 		},
 		description: 'The order sequence number',
 	},
+	{
+		displayName: 'Bid Selection',
+		name: 'selectionMode',
+		type: 'options',
+		options: [
+			{
+				name: 'Specific Provider',
+				value: 'provider',
+				description: 'Accept the bid of a given provider',
+			},
+			{
+				name: 'Best Bid',
+				value: 'strategy',
+				description: 'Rank the open bids with a selection strategy and accept the best one',
+			},
+		],
+		default: 'provider',
+		displayOptions: {
+			show: {
+				resource: ['bid'],
+				operation: ['accept'],
+			},
+		},
+		description: 'How to choose the bid to accept',
+	},
 	{
 		displayName: 'Provider Address',
 		name: 'provider',
@@ -235,11 +273,29 @@ export const acceptBidDescription: INodeProperties[] = [
 			show: {
 				resource: ['bid'],
 				operation: ['accept'],
+				selectionMode: ['provider'],
 			},
 		},
 		description: 'Provider address whose bid to accept',
 		placeholder: 'akash1provider...',
 	},
+	{
+		displayName: 'Selection Options',
+		name: 'selectionOptions',
+		type: 'collection',
+		placeholder: 'Add Option',
+		default: {},
+		displayOptions: {
+			show: {
+				resource: ['bid'],
+				operation: ['accept'],
+				selectionMode: ['strategy'],
+			},
+		},
+		options: bidSelectionOptions,
+	},
+	...batchOptions('bid', ['accept']),
+	transactionOptions('bid', ['accept']),
 ];
 
 export async function getBid(
@@ -271,12 +327,25 @@ export async function getBids(
 	};
 
 	const consoleClient = await createConsoleApiClient(this);
-	const bids = await consoleClient.getBids(
-		owner,
-		dseq.toString(),
-		options.gseq || 1,
-		options.oseq || 1,
-	);
+
+	// Without a gseq filter, collect bids for every order of the deployment
+	let orderIds: Array<{ gseq: number; oseq: number }>;
+	if (options.gseq) {
+		orderIds = [{ gseq: options.gseq, oseq: options.oseq || 1 }];
+	} else {
+		const orders = await consoleClient.getDeploymentOrders(owner, dseq.toString());
+		orderIds = orders
+			.map((order) => order.orderId)
+			.filter((orderId) => !options.oseq || orderId.oseq === options.oseq);
+		if (orderIds.length === 0) {
+			orderIds = [{ gseq: 1, oseq: options.oseq || 1 }];
+		}
+	}
+
+	const bids: IBid[] = [];
+	for (const { gseq, oseq } of orderIds) {
+		bids.push(...(await consoleClient.getBids(owner, dseq.toString(), gseq, oseq)));
+	}
 
 	// Filter by state if specified
 	let filteredBids = bids;
@@ -289,19 +358,77 @@ export async function getBids(
 	return filteredBids.map((bid) => ({ json: bid as unknown as IDataObject }));
 }
 
+/**
+ * Bid an item accepts: the given provider, or the best bid by strategy
+ */
+async function chooseBid(this: IExecuteFunctions, index: number): Promise<IAcceptedBid> {
+	const owner = this.getNodeParameter('owner', index) as string;
+	const dseq = this.getNodeParameter('dseq', index) as number;
+	const gseq = this.getNodeParameter('gseq', index) as number;
+	const oseq = this.getNodeParameter('oseq', index) as number;
+	const selectionMode = this.getNodeParameter('selectionMode', index, 'provider') as string;
+
+	let provider: string;
+	let selection: IDataObject | undefined;
+
+	if (selectionMode === 'strategy') {
+		const parameters = this.getNodeParameter(
+			'selectionOptions',
+			index,
+			{},
+		) as IBidSelectionParameters;
+		const selectionOptions = getBidSelectionOptions(parameters);
+
+		const consoleClient = await createConsoleApiClient(this);
+		const bids = await consoleClient.getBids(owner, dseq.toString(), gseq, oseq);
+		const providers = await consoleClient.getProviders();
+		const ranking = rankBids(bids, providers, selectionOptions);
+		const best = ranking.find((r) => r.eligible);
+
+		if (!best) {
+			throw new Error(
+				`No eligible bid for ${dseq}/${gseq}/${oseq} using the ${selectionOptions.strategy} strategy (${bids.length} bids received)`,
+			);
+		}
+
+		provider = best.provider;
+		selection = {
+			strategy: selectionOptions.strategy,
+			price: best.bid.price as unknown as IDataObject,
+			score: best.score,
+			reasons: best.reasons,
+			ranking: ranking.map((r) => ({
+				rank: r.rank,
+				provider: r.provider,
+				price: r.bid.price as unknown as IDataObject,
+				eligible: r.eligible,
+				score: r.score,
+				reasons: r.reasons,
+			})),
+		};
+	} else {
+		provider = this.getNodeParameter('provider', index) as string;
+	}
+
+	return { dseq, gseq, oseq, provider, selection };
+}
+
 export async function acceptBid(
 	this: IExecuteFunctions,
 	index: number,
 ): Promise<INodeExecutionData[]> {
-	const dseq = this.getNodeParameter('dseq', index) as number;
-	const gseq = this.getNodeParameter('gseq', index) as number;
-	const oseq = this.getNodeParameter('oseq', index) as number;
-	const provider = this.getNodeParameter('provider', index) as string;
+	const { dseq, gseq, oseq, provider, selection } = await chooseBid.call(this, index);
 
 	const cosmosClient = await createCosmosClient(this);
 
 	// Create lease (which effectively accepts the bid)
-	const result = await cosmosClient.createLease(dseq.toString(), gseq, oseq, provider);
+	const result = await cosmosClient.createLease(
+		dseq.toString(),
+		gseq,
+		oseq,
+		provider,
+		getTransactionOptions.call(this, index),
+	);
 
 	await cosmosClient.disconnect();
 
@@ -317,7 +444,34 @@ export async function acceptBid(
 				height: result.height,
 				gasUsed: result.gasUsed,
 				message: result.code === 0 ? 'Bid accepted, lease created' : 'Failed to accept bid',
+				...(selection ? { selection } : {}),
 			},
 		},
 	];
 }
+
+/**
+ * Lease message of an item, for Batch Items
+ */
+export async function acceptMessages(
+	this: IExecuteFunctions,
+	index: number,
+	cosmosClient: CosmosClient,
+): Promise<IBatchItem[]> {
+	const { dseq, gseq, oseq, provider, selection } = await chooseBid.call(this, index);
+	// The batch is sent with the transaction options of the first item
+	const message = cosmosClient.createLeaseMessage(
+		dseq.toString(),
+		gseq,
+		oseq,
+		provider,
+		getTransactionOptions.call(this, 0),
+	);
+
+	return [
+		{
+			message,
+			json: { dseq, gseq, oseq, provider, ...(selection ? { selection } : {}) },
+		},
+	];
+}
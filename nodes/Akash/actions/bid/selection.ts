@@ -0,0 +1,175 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { INodeProperties } from 'n8n-workflow';
+import { BidSelectionStrategy, IBidSelectionOptions } from '../../types';
+
+/**
+ * Bid Selection Options
+ *
+ * Option fields shared by every operation that picks a bid automatically
+ * (Bid > Accept, Deployment > Create, Deployment > Deploy).
+ */
+
+export interface IBidSelectionParameters {
+	strategy?: BidSelectionStrategy;
+	maxPrice?: number;
+	preferredProvider?: string;
+	region?: string;
+	gpuModels?: string;
+	priceWeight?: number;
+	uptimeWeight?: number;
+	auditWeight?: number;
+	gpuWeight?: number;
+}
+
+export const bidSelectionOptions: INodeProperties[] = [
+	{
+		displayName: 'Selection Strategy',
+		name: 'strategy',
+		type: 'options',
+		options: [
+			{
+				name: 'Audited Only',
+				value: 'audited',
+				description: 'Cheapest bid from a provider audited by a trusted auditor',
+			},
+			{
+				name: 'Cheapest',
+				value: 'cheapest',
+				description: 'Lowest price per block',
+			},
+			{
+				name: 'Highest Uptime',
+				value: 'uptime',
+				description: 'Provider with the best recent uptime',
+			},
+			{
+				name: 'Region Preferred',
+				value: 'region',
+				description: 'Providers in the preferred region first, then by price',
+			},
+			{
+				name: 'Weighted Score',
+				value: 'weighted',
+				description: 'Combine price, uptime, audit status and GPU model match',
+			},
+		],
+		default: 'cheapest',
+		description: 'How to rank bids when choosing one',
+	},
+	{
+		displayName: 'Max Price (uAKT/block)',
+		name: 'maxPrice',
+		type: 'number',
+		default: 0,
+		description: 'Maximum price willing to pay per block in uAKT. 0 means no limit.',
+		typeOptions: {
+			numberPrecision: 6,
+		},
+	},
+	{
+		displayName: 'Preferred Provider',
+		name: 'preferredProvider',
+		type: 'string',
+		default: '',
+		description: 'Provider to pick whenever it placed an eligible bid',
+		placeholder: 'akash1provider...',
+	},
+	{
+		displayName: 'Preferred Region',
+		name: 'region',
+		type: 'string',
+		default: '',
+		description: 'Region attribute to favour with the Region Preferred strategy',
+		placeholder: 'us-west',
+	},
+	{
+		displayName: 'GPU Models',
+		name: 'gpuModels',
+		type: 'string',
+		default: '',
+		description:
+			'Comma-separated GPU models to match in the weighted score. Defaults to the models requested in the SDL.',
+		placeholder: 'a100,h100',
+	},
+	{
+		displayName: 'Price Weight',
+		name: 'priceWeight',
+		type: 'number',
+		default: 0.4,
+		description: 'Weight of the price in the weighted score',
+		typeOptions: {
+			minValue: 0,
+			numberPrecision: 2,
+		},
+	},
+	{
+		displayName: 'Uptime Weight',
+		name: 'uptimeWeight',
+		type: 'number',
+		default: 0.3,
+		description: 'Weight of provider uptime in the weighted score',
+		typeOptions: {
+			minValue: 0,
+			numberPrecision: 2,
+		},
+	},
+	{
+		displayName: 'Audit Weight',
+		name: 'auditWeight',
+		type: 'number',
+		default: 0.2,
+		description: 'Weight of provider audit status in the weighted score',
+		typeOptions: {
+			minValue: 0,
+			numberPrecision: 2,
+		},
+	},
+	{
+		displayName: 'GPU Weight',
+		name: 'gpuWeight',
+		type: 'number',
+		default: 0.1,
+		description: 'Weight of a GPU model match in the weighted score',
+		typeOptions: {
+			minValue: 0,
+			numberPrecision: 2,
+		},
+	},
+];
+
+/**
+ * Convert the option fields into selector options
+ * @param parameters - Values of the bid selection option fields
+ * @param gpuModels - GPU models requested by the SDL, used when none are given
+ */
+export function getBidSelectionOptions(
+	parameters: IBidSelectionParameters,
+	gpuModels: string[] = [],
+): IBidSelectionOptions {
+	const models = parameters.gpuModels
+		? parameters.gpuModels
+				.split(',')
+				.map((m) => m.trim())
+				.filter((m) => m)
+		: gpuModels;
+
+	return {
+		strategy: parameters.strategy || 'cheapest',
+		maxPrice: parameters.maxPrice || undefined,
+		preferredProvider: parameters.preferredProvider || undefined,
+		region: parameters.region || undefined,
+		gpuModels: models,
+		weights: {
+			price: parameters.priceWeight,
+			uptime: parameters.uptimeWeight,
+			audit: parameters.auditWeight,
+			gpu: parameters.gpuWeight,
+		},
+	};
+}
@@ -7,6 +7,7 @@
 
 import { IExecuteFunctions, INodeExecutionData, INodeProperties } from 'n8n-workflow';
 import { createCosmosClient, createConsoleApiClient } from '../../transport';
+import { getTransactionOptions, transactionOptions } from '../wallet/transaction';
 
 /**
  * Certificate Operations for Akash Network
@@ -46,6 +47,7 @@ export const createCertificateDescription: INodeProperties[] = [
 			},
 		],
 	},
+	transactionOptions('certificate', ['create']),
 ];
 
 export const revokeCertificateDescription: INodeProperties[] = [
@@ -63,6 +65,7 @@ export const revokeCertificateDescription: INodeProperties[] = [
 		},
 		description: 'The serial number of the certificate to revoke',
 	},
+	transactionOptions('certificate', ['revoke']),
 ];
 
 export const getCertificateDescription: INodeProperties[] = [
@@ -150,24 +153,30 @@ export async function createCertificate(
 
 	const cosmosClient = await createCosmosClient(this);
 
-	const certResult = await cosmosClient.createCertificate();
+	const { result, certificate } = await cosmosClient.createCertificate(
+		options.validityDays || 365,
+		getTransactionOptions.call(this, index),
+	);
 
 	await cosmosClient.disconnect();
 
 	return [
 		{
 			json: {
-				success: certResult.result.code === 0,
-				transactionHash: certResult.result.transactionHash,
+				success: result.code === 0,
+				transactionHash: result.transactionHash,
 				owner: cosmosClient.getWalletAddress(),
-				cert: certResult.cert,
-				pubkey: certResult.pubkey,
-				serial: certResult.serial,
+				cert: certificate.cert,
+				pubkey: certificate.publicKey,
+				privateKey: certificate.privateKey,
+				serial: certificate.serial,
 				validityDays: options.validityDays || 365,
-				height: certResult.result.height,
-				gasUsed: certResult.result.gasUsed,
+				notBefore: certificate.notBefore,
+				notAfter: certificate.notAfter,
+				height: result.height,
+				gasUsed: result.gasUsed,
 				message:
-					certResult.result.code === 0
+					result.code === 0
 						? 'Certificate created successfully'
 						: 'Failed to create certificate',
 			},
@@ -183,7 +192,10 @@ export async function revokeCertificate(
 
 	const cosmosClient = await createCosmosClient(this);
 
-	const result = await cosmosClient.revokeCertificate(serial);
+	const result = await cosmosClient.revokeCertificate(
+		serial,
+		getTransactionOptions.call(this, index),
+	);
 
 	await cosmosClient.disconnect();
 
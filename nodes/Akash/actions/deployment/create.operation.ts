@@ -5,9 +5,24 @@
  * See LICENSE file for details.
  */
 
-import { IExecuteFunctions, INodeExecutionData, INodeProperties } from 'n8n-workflow';
-import { createCosmosClient, createConsoleApiClient } from '../../transport';
-import { parseSDL, validateSDL, sdlToManifest, calculateSDLPrice } from '../../helpers';
+import { IDataObject, IExecuteFunctions, INodeExecutionData, INodeProperties } from 'n8n-workflow';
+import { createCosmosClient, createConsoleApiClient, createProviderClient } from '../../transport';
+import {
+  parseSDL,
+  validateSDL,
+  sdlToManifest,
+  calculateSDLPrice,
+  sdlToGroups,
+  getSdlGpuModels,
+  rankBids,
+} from '../../helpers';
+import { IBid, IOrderId, IRankedBid } from '../../types';
+import {
+  bidSelectionOptions,
+  getBidSelectionOptions,
+  IBidSelectionParameters,
+} from '../bid/selection';
+import { getTransactionOptions, transactionOptions } from '../wallet/transaction';
 import { TIMEOUTS, POLLING_INTERVALS } from '../../constants';
 
 /**
@@ -17,8 +32,9 @@ import { TIMEOUTS, POLLING_INTERVALS } from '../../constants';
  * This operation:
  * 1. Validates the SDL
  * 2. Creates the deployment on-chain
- * 3. Waits for bids from providers
- * 4. Optionally accepts the best bid and sends manifest
+ * 3. Waits for bids from providers on every order (one per placement group)
+ * 4. Optionally accepts the best bid per order (ranked by the selection strategy) and sends
+ *    the manifest to each leased provider
  */
 
 export const description: INodeProperties[] = [
@@ -109,7 +125,7 @@ deployment:
         type: 'boolean',
         default: true,
         description:
-          'Whether to automatically accept the lowest bid and create a lease',
+          'Whether to automatically accept the best bid according to the selection strategy and create a lease',
       },
       {
         displayName: 'Wait for Bids (Seconds)',
@@ -122,22 +138,7 @@ deployment:
           maxValue: 600,
         },
       },
-      {
-        displayName: 'Preferred Provider',
-        name: 'preferredProvider',
-        type: 'string',
-        default: '',
-        description: 'Preferred provider address to accept bid from (if available)',
-        placeholder: 'akash1provider...',
-      },
-      {
-        displayName: 'Max Price (uAKT/block)',
-        name: 'maxPrice',
-        type: 'number',
-        default: 0,
-        description:
-          'Maximum price willing to pay per block in uAKT. 0 means no limit.',
-      },
+      ...bidSelectionOptions,
       {
         displayName: 'Send Manifest',
         name: 'sendManifest',
@@ -156,19 +157,25 @@ deployment:
       },
     ],
   },
+  transactionOptions('deployment', ['create']),
 ];
 
+interface IOrderSelection {
+  orderId: IOrderId;
+  bids: IBid[];
+  ranking: IRankedBid[];
+  best?: IRankedBid;
+}
+
 export async function execute(
   this: IExecuteFunctions,
   index: number,
 ): Promise<INodeExecutionData[]> {
   const sdl = this.getNodeParameter('sdl', index) as string;
   const deposit = this.getNodeParameter('deposit', index) as number;
-  const options = this.getNodeParameter('options', index, {}) as {
+  const options = this.getNodeParameter('options', index, {}) as IBidSelectionParameters & {
     autoAcceptBid?: boolean;
     bidWaitTime?: number;
-    preferredProvider?: string;
-    maxPrice?: number;
     sendManifest?: boolean;
     validateOnly?: boolean;
   };
@@ -199,118 +206,178 @@ export async function execute(
   // Create deployment
   const cosmosClient = await createCosmosClient(this);
   const consoleClient = await createConsoleApiClient(this);
+  const txOptions = getTransactionOptions.call(this, index);
 
-  const { result, dseq } = await cosmosClient.createDeployment(sdl, deposit.toString());
+  const { result, dseq } = await cosmosClient.createDeployment(sdl, deposit.toString(), txOptions);
 
   const response: Record<string, unknown> = {
     success: result.code === 0,
     transactionHash: result.transactionHash,
     dseq,
-    owner: cosmosClient.getWalletAddress(),
+    owner: cosmosClient.getOwnerAddress(txOptions),
     deposit: `${deposit} AKT`,
     height: result.height,
     gasUsed: result.gasUsed,
   };
 
-  // Wait for bids if auto-accept is enabled
+  // Wait for bids on every order if auto-accept is enabled
   if (options.autoAcceptBid !== false) {
     const bidWaitTime = (options.bidWaitTime || 120) * 1000;
     const pollInterval = POLLING_INTERVALS.bidPolling;
     const startTime = Date.now();
+    const owner = cosmosClient.getOwnerAddress(txOptions);
+    const groups = sdlToGroups(parsedSdl);
 
-    let bestBid = null;
-    let bids = [];
+    const selectionOptions = getBidSelectionOptions(options, getSdlGpuModels(parsedSdl));
+    const providers = await consoleClient.getProviders().catch(() => []);
+
+    // Each placement group opens one order; use oseq 1 until the API lists them
+    let orderIds: IOrderId[] = groups.map((_, i) => ({ owner, dseq, gseq: i + 1, oseq: 1 }));
+    const orders = new Map<string, IOrderSelection>();
 
     // Poll for bids
     while (Date.now() - startTime < bidWaitTime) {
       await new Promise((resolve) => setTimeout(resolve, pollInterval));
 
       try {
-        bids = await consoleClient.getBids(
-          cosmosClient.getWalletAddress(),
-          dseq,
-          1, // gseq
-          1, // oseq
-        );
-
-        if (bids.length > 0) {
-          // Filter by max price if set
-          let eligibleBids = bids;
-          if (options.maxPrice && options.maxPrice > 0) {
-            eligibleBids = bids.filter(
-              (b) => parseInt(b.price.amount, 10) <= options.maxPrice!,
-            );
-          }
+        const listed = await consoleClient.getDeploymentOrders(owner, dseq);
+        if (listed.length > 0) {
+          orderIds = listed.map((order) => order.orderId);
+        }
+      } catch (error) {
+        // Keep the orders derived from the SDL
+      }
 
-          // Check for preferred provider
-          if (options.preferredProvider) {
-            const preferredBid = eligibleBids.find(
-              (b) => b.bidId.provider === options.preferredProvider,
-            );
-            if (preferredBid) {
-              bestBid = preferredBid;
-              break;
-            }
+      for (const orderId of orderIds) {
+        try {
+          const bids = await consoleClient.getBids(owner, dseq, orderId.gseq, orderId.oseq);
+          if (bids.length > 0) {
+            const ranking = rankBids(bids, providers, selectionOptions);
+            orders.set(`${orderId.gseq}/${orderId.oseq}`, {
+              orderId,
+              bids,
+              ranking,
+              best: ranking.find((r) => r.eligible),
+            });
           }
+        } catch (error) {
+          // Continue polling
+        }
+      }
 
-          // Select lowest price bid
-          if (eligibleBids.length > 0) {
-            bestBid = eligibleBids.reduce((prev, curr) =>
-              parseInt(curr.price.amount, 10) < parseInt(prev.price.amount, 10)
-                ? curr
-                : prev,
-            );
+      const selections = orderIds.map((id) => orders.get(`${id.gseq}/${id.oseq}`));
+      if (selections.every((selection) => selection?.best)) {
+        // Stop as soon as the preferred provider has bid on every order
+        if (
+          selections.every(
+            (selection) => selection?.best?.provider === selectionOptions.preferredProvider,
+          )
+        ) {
+          break;
+        }
 
-            // Wait a bit more for potentially better bids
-            if (Date.now() - startTime > 30000) {
-              break;
-            }
-          }
+        // Wait a bit more for potentially better bids
+        if (Date.now() - startTime > 30000) {
+          break;
         }
-      } catch (error) {
-        // Continue polling
       }
     }
 
-    response.bidsReceived = bids.length;
+    const results: IDataObject[] = [];
+    const leasedProviders = new Set<string>();
+    let bidsReceived = 0;
 
-    if (bestBid) {
-      // Accept the bid (create lease)
-      const leaseResult = await cosmosClient.createLease(
-        dseq,
-        bestBid.bidId.gseq,
-        bestBid.bidId.oseq,
-        bestBid.bidId.provider,
-      );
-
-      response.lease = {
-        created: leaseResult.code === 0,
-        transactionHash: leaseResult.transactionHash,
-        provider: bestBid.bidId.provider,
-        price: bestBid.price,
-        gseq: bestBid.bidId.gseq,
-        oseq: bestBid.bidId.oseq,
+    for (const orderId of orderIds) {
+      const selection = orders.get(`${orderId.gseq}/${orderId.oseq}`);
+      const result: IDataObject = {
+        gseq: orderId.gseq,
+        oseq: orderId.oseq,
+        group: groups[orderId.gseq - 1]?.name,
+        bidsReceived: selection?.bids.length || 0,
+        lease: null,
       };
+      bidsReceived += selection?.bids.length || 0;
+
+      if (selection?.best) {
+        const { bidId, price } = selection.best.bid;
 
-      // Send manifest if enabled
-      if (options.sendManifest !== false && leaseResult.code === 0) {
+        // Accept the bid (create lease)
+        const leaseResult = await cosmosClient.createLease(
+          dseq,
+          bidId.gseq,
+          bidId.oseq,
+          bidId.provider,
+          txOptions,
+        );
+
+        result.lease = {
+          created: leaseResult.code === 0,
+          transactionHash: leaseResult.transactionHash,
+          provider: bidId.provider,
+          price,
+          gseq: bidId.gseq,
+          oseq: bidId.oseq,
+        };
+        result.selection = {
+          strategy: selectionOptions.strategy,
+          score: selection.best.score,
+          reasons: selection.best.reasons,
+          ranking: selection.ranking.map((r) => ({
+            rank: r.rank,
+            provider: r.provider,
+            price: r.bid.price,
+            eligible: r.eligible,
+            score: r.score,
+            reasons: r.reasons,
+          })),
+        };
+
+        if (leaseResult.code === 0) {
+          leasedProviders.add(bidId.provider);
+        }
+      }
+
+      results.push(result);
+    }
+
+    response.bidsReceived = bidsReceived;
+    response.orders = results;
+    // Single-group deployments keep the flat lease/selection fields
+    response.lease = results[0]?.lease ?? null;
+    response.selection = results[0]?.selection;
+
+    // Send manifest to every leased provider if enabled
+    if (options.sendManifest !== false && leasedProviders.size > 0) {
+      const manifest = sdlToManifest(parsedSdl);
+      const manifests: IDataObject[] = [];
+      for (const provider of leasedProviders) {
         try {
-          const manifest = sdlToManifest(parsedSdl);
-          await consoleClient.sendManifest(
-            cosmosClient.getWalletAddress(),
-            dseq,
-            bestBid.bidId.provider,
-            manifest,
-          );
-          response.manifestSent = true;
+          const providerClient = await createProviderClient(this, provider);
+          try {
+            await providerClient.sendManifest(dseq, manifest);
+          } finally {
+            providerClient.disconnect();
+          }
+          manifests.push({ provider, sent: true });
         } catch (error) {
-          response.manifestSent = false;
-          response.manifestError = (error as Error).message;
+          manifests.push({ provider, sent: false, error: (error as Error).message });
         }
       }
-    } else {
-      response.lease = null;
+      response.manifests = manifests;
+      response.manifestSent = manifests.every((m) => m.sent);
+      const failed = manifests.find((m) => !m.sent);
+      if (failed) {
+        response.manifestError = failed.error;
+      }
+    }
+
+    const unleased = results.filter((r) => !r.lease);
+    if (unleased.length === results.length) {
       response.message = 'No suitable bids received within the wait time';
+    } else if (unleased.length > 0) {
+      response.message = `No suitable bids for ${unleased
+        .map((r) => `gseq ${r.gseq}/oseq ${r.oseq}`)
+        .join(', ')} within the wait time`;
     }
   }
 
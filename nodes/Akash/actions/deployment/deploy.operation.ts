@@ -0,0 +1,441 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { IExecuteFunctions, INodeExecutionData, INodeProperties, IDataObject } from 'n8n-workflow';
+import {
+  createCosmosClient,
+  createConsoleApiClient,
+  ProviderClient,
+  createProviderClient,
+  UnsignedTransaction,
+} from '../../transport';
+import {
+  parseSDL,
+  validateSDL,
+  sdlToGroups,
+  sdlToManifest,
+  getSdlGpuModels,
+  selectBid,
+} from '../../helpers';
+import {
+  IAkashApiCredentials,
+  IBid,
+  ILeaseStatus,
+  IProviderCertificate,
+  ITxOptions,
+} from '../../types';
+import { POLLING_INTERVALS, TIMEOUTS } from '../../constants';
+import {
+  bidSelectionOptions,
+  getBidSelectionOptions,
+  IBidSelectionParameters,
+} from '../bid/selection';
+import { getTransactionOptions, transactionOptions } from '../wallet/transaction';
+
+/**
+ * Deploy Operation
+ *
+ * Runs the full Akash deployment workflow in one step:
+ * 1. Validates the SDL
+ * 2. Makes sure a client certificate is available for provider mTLS
+ * 3. Creates the deployment on-chain
+ * 4. Collects bids for every group and picks one per group
+ * 5. Creates a lease per group
+ * 6. Sends the manifest to every leased provider
+ * 7. Waits until every service reports all replicas ready
+ *
+ * If any step fails after the deployment exists, the deployment is closed
+ * so escrow is not left draining on a half-deployed workload.
+ */
+
+/**
+ * Options shared by every operation that deploys an SDL end to end
+ */
+export const deployOptions: INodeProperties[] = [
+  {
+    displayName: 'Ready Timeout (Seconds)',
+    name: 'readyTimeout',
+    type: 'number',
+    default: 300,
+    description: 'How long to wait for all services to report ready replicas',
+    typeOptions: {
+      minValue: 30,
+      maxValue: 3600,
+    },
+  },
+  {
+    displayName: 'Wait for Bids (Seconds)',
+    name: 'bidWaitTime',
+    type: 'number',
+    default: 60,
+    description: 'How long to collect bids for each group before selecting one',
+    typeOptions: {
+      minValue: 15,
+      maxValue: 600,
+    },
+  },
+  ...bidSelectionOptions,
+];
+
+export const description: INodeProperties[] = [
+  {
+    displayName: 'SDL Manifest',
+    name: 'sdl',
+    type: 'string',
+    typeOptions: {
+      rows: 15,
+      alwaysOpenEditWindow: true,
+    },
+    default: '',
+    required: true,
+    displayOptions: {
+      show: {
+        resource: ['deployment'],
+        operation: ['deploy'],
+      },
+    },
+    description: 'SDL (Stack Definition Language) YAML manifest defining the deployment',
+  },
+  {
+    displayName: 'Initial Deposit (AKT)',
+    name: 'deposit',
+    type: 'number',
+    default: 5,
+    required: true,
+    displayOptions: {
+      show: {
+        resource: ['deployment'],
+        operation: ['deploy'],
+      },
+    },
+    description: 'Initial deposit in AKT to fund the deployment escrow',
+    typeOptions: {
+      minValue: 0.5,
+      numberPrecision: 6,
+    },
+  },
+  {
+    displayName: 'Options',
+    name: 'options',
+    type: 'collection',
+    placeholder: 'Add Option',
+    default: {},
+    displayOptions: {
+      show: {
+        resource: ['deployment'],
+        operation: ['deploy'],
+      },
+    },
+    options: [
+      {
+        displayName: 'Close on Failure',
+        name: 'closeOnFailure',
+        type: 'boolean',
+        default: true,
+        description: 'Whether to close the deployment if a later step fails',
+      },
+      ...deployOptions,
+    ],
+  },
+  transactionOptions('deployment', ['deploy']),
+];
+
+type DeployStep =
+  | 'certificate'
+  | 'createDeployment'
+  | 'selectBids'
+  | 'createLeases'
+  | 'sendManifest'
+  | 'waitForReady';
+
+export interface IDeployOptions extends IBidSelectionParameters {
+  closeOnFailure?: boolean;
+  readyTimeout?: number;
+  bidWaitTime?: number;
+  txOptions?: ITxOptions;
+}
+
+interface IGroupLease {
+  group: string;
+  gseq: number;
+  oseq: number;
+  provider: string;
+  price: IBid['price'];
+  score: number;
+  reasons: string[];
+  transactionHash?: string;
+}
+
+export async function execute(
+  this: IExecuteFunctions,
+  index: number,
+): Promise<INodeExecutionData[]> {
+  const sdl = this.getNodeParameter('sdl', index) as string;
+  const deposit = this.getNodeParameter('deposit', index) as number;
+  const options = this.getNodeParameter('options', index, {}) as IDeployOptions;
+  const txOptions = getTransactionOptions.call(this, index);
+
+  return [{ json: await deploySdl.call(this, sdl, deposit, { ...options, txOptions }) }];
+}
+
+/**
+ * Deploy an SDL and wait until its services are ready
+ * @returns Deployment summary with leases, services and URIs
+ */
+export async function deploySdl(
+  this: IExecuteFunctions,
+  sdl: string,
+  deposit: number,
+  options: IDeployOptions,
+): Promise<IDataObject> {
+  const parsedSdl = parseSDL(sdl);
+  const validation = validateSDL(parsedSdl);
+  if (!validation.valid) {
+    throw new Error(`SDL validation failed:\n${validation.errors.join('\n')}`);
+  }
+
+  const groups = sdlToGroups(parsedSdl);
+  const credentials = (await this.getCredentials('akashApi')) as IAkashApiCredentials;
+  const cosmosClient = await createCosmosClient(this);
+  const consoleClient = await createConsoleApiClient(this);
+  const owner = cosmosClient.getOwnerAddress(options.txOptions);
+
+  const response: IDataObject = { owner };
+  const providerClients = new Map<string, ProviderClient>();
+  let step: DeployStep = 'certificate';
+  let dseq: string | undefined;
+
+  try {
+    // Reuse the stored certificate, otherwise publish a new one
+    let certificate: IProviderCertificate;
+    if (credentials.clientCertificate && credentials.clientCertificateKey) {
+      certificate = {
+        cert: credentials.clientCertificate,
+        privateKey: credentials.clientCertificateKey,
+      };
+      response.certificateCreated = false;
+    } else {
+      const created = await cosmosClient.createCertificate(365, options.txOptions);
+      if (created.result.code !== 0) {
+        throw new Error(`Certificate transaction failed: ${created.result.rawLog}`);
+      }
+      certificate = { cert: created.certificate.cert, privateKey: created.certificate.privateKey };
+      response.certificateCreated = true;
+      response.certificate = {
+        cert: created.certificate.cert,
+        privateKey: created.certificate.privateKey,
+        serial: created.certificate.serial,
+      };
+    }
+
+    step = 'createDeployment';
+    const created = await cosmosClient.createDeployment(sdl, deposit.toString(), options.txOptions);
+    if (created.result.code !== 0) {
+      throw new Error(`Deployment transaction failed: ${created.result.rawLog}`);
+    }
+    const deploymentSeq = created.dseq;
+    dseq = deploymentSeq;
+    response.dseq = dseq;
+    response.deployment = {
+      transactionHash: created.result.transactionHash,
+      height: created.result.height,
+      deposit: `${deposit} AKT`,
+    };
+
+    step = 'selectBids';
+    const selectionOptions = getBidSelectionOptions(options, getSdlGpuModels(parsedSdl));
+    const providers = await consoleClient.getProviders().catch(() => []);
+    const selected: IGroupLease[] = [];
+    for (let g = 0; g < groups.length; g++) {
+      const gseq = g + 1;
+      const oseq = 1;
+      const bids = await collectBids(
+        () => consoleClient.getBids(owner, deploymentSeq, gseq, oseq),
+        (options.bidWaitTime || 60) * 1000,
+      );
+      const bid = selectBid(bids, providers, selectionOptions);
+      if (!bid) {
+        throw new Error(
+          `No acceptable bids for group '${groups[g].name}' (gseq ${gseq}) after ${bids.length} bid(s)`,
+        );
+      }
+      selected.push({
+        group: groups[g].name,
+        gseq,
+        oseq,
+        provider: bid.provider,
+        price: bid.bid.price,
+        score: bid.score,
+        reasons: bid.reasons,
+      });
+    }
+
+    step = 'createLeases';
+    for (const lease of selected) {
+      const result = await cosmosClient.createLease(
+        dseq,
+        lease.gseq,
+        lease.oseq,
+        lease.provider,
+        options.txOptions,
+      );
+      if (result.code !== 0) {
+        throw new Error(`Lease for group '${lease.group}' failed: ${result.rawLog}`);
+      }
+      lease.transactionHash = result.transactionHash;
+    }
+    response.leases = selected as unknown as IDataObject[];
+
+    step = 'sendManifest';
+    const manifest = sdlToManifest(parsedSdl);
+    for (const provider of new Set(selected.map((l) => l.provider))) {
+      const providerClient = await createProviderClient(this, provider, certificate);
+      providerClients.set(provider, providerClient);
+      await providerClient.sendManifest(dseq, manifest);
+    }
+
+    step = 'waitForReady';
+    const expected = expectedReplicas(parsedSdl.deployment);
+    const deadline = Date.now() + (options.readyTimeout || 300) * 1000;
+    const statuses = new Map<IGroupLease, ILeaseStatus>();
+
+    let pending: string[] = [];
+    do {
+      if (pending.length > 0) {
+        if (Date.now() > deadline) {
+          throw new Error(`Services not ready before timeout: ${pending.join(', ')}`);
+        }
+        await new Promise((resolve) => setTimeout(resolve, POLLING_INTERVALS.leaseStatus));
+      }
+
+      for (const lease of selected) {
+        const providerClient = providerClients.get(lease.provider);
+        if (!providerClient) {
+          throw new Error(`No provider client for ${lease.provider}`);
+        }
+        try {
+          const status = await providerClient.getLeaseStatus(dseq, lease.gseq, lease.oseq);
+          statuses.set(lease, status);
+        } catch {
+          // Provider may not report status until the manifest is processed
+        }
+      }
+
+      pending = pendingServices(selected, statuses, expected);
+    } while (pending.length > 0);
+
+    const services: IDataObject = {};
+    for (const lease of selected) {
+      const status = statuses.get(lease);
+      if (!status) {
+        throw new Error(`No status for the lease of group '${lease.group}'`);
+      }
+      for (const [name, service] of Object.entries(status.services)) {
+        services[name] = {
+          group: lease.group,
+          provider: lease.provider,
+          uris: service.uris || [],
+          readyReplicas: service.readyReplicas,
+          forwardedPorts: (status.forwardedPorts[name] || []) as unknown as IDataObject[],
+        };
+      }
+    }
+
+    response.success = true;
+    response.services = services;
+    response.uris = Object.values(services).flatMap((s) => (s as { uris: string[] }).uris);
+  } catch (error) {
+    // Offline signing stops at the first transaction; nothing was created to clean up
+    if (error instanceof UnsignedTransaction) {
+      throw error;
+    }
+    const message = (error as Error).message;
+
+    let closeNote = '';
+    if (dseq && options.closeOnFailure !== false) {
+      try {
+        const closed = await cosmosClient.closeDeployment(dseq, options.txOptions);
+        closeNote =
+          closed.code === 0
+            ? ` Deployment ${dseq} was closed.`
+            : ` Closing deployment ${dseq} failed: ${closed.rawLog}`;
+      } catch (closeError) {
+        closeNote = ` Closing deployment ${dseq} failed: ${(closeError as Error).message}`;
+      }
+    } else if (dseq) {
+      closeNote = ` Deployment ${dseq} was left open.`;
+    }
+
+    throw new Error(`Deploy failed at step '${step}': ${message}.${closeNote}`);
+  } finally {
+    for (const client of providerClients.values()) {
+      client.disconnect();
+    }
+    await cosmosClient.disconnect();
+  }
+
+  return response;
+}
+
+/**
+ * Poll for bids until the wait time elapses, keeping the latest non-empty result
+ */
+async function collectBids(fetchBids: () => Promise<IBid[]>, waitTime: number): Promise<IBid[]> {
+  const deadline = Date.now() + Math.min(waitTime, TIMEOUTS.bidWait);
+  let bids: IBid[] = [];
+
+  while (Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, POLLING_INTERVALS.bidPolling));
+    try {
+      const latest = await fetchBids();
+      if (latest.length > 0) {
+        bids = latest;
+      }
+    } catch {
+      // Continue polling
+    }
+  }
+
+  return bids.filter((b) => !b.state || b.state === 'open');
+}
+
+/**
+ * Expected replica count per group and service, keyed by placement group name
+ */
+function expectedReplicas(
+  deployment: Record<string, Record<string, { count: number }>>,
+): Map<string, Map<string, number>> {
+  const expected = new Map<string, Map<string, number>>();
+  for (const [group, services] of Object.entries(deployment)) {
+    expected.set(
+      group,
+      new Map(Object.entries(services).map(([name, config]) => [name, config.count])),
+    );
+  }
+  return expected;
+}
+
+/**
+ * List services that have not yet reached their expected ready replica count
+ */
+function pendingServices(
+  leases: IGroupLease[],
+  statuses: Map<IGroupLease, ILeaseStatus>,
+  expected: Map<string, Map<string, number>>,
+): string[] {
+  const pending: string[] = [];
+  for (const lease of leases) {
+    const status = statuses.get(lease);
+    for (const [service, count] of expected.get(lease.group) || []) {
+      const ready = status?.services[service]?.readyReplicas || 0;
+      if (ready < count) {
+        pending.push(`${lease.group}/${service} (${ready}/${count})`);
+      }
+    }
+  }
+  return pending;
+}
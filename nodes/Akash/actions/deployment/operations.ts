@@ -5,9 +5,17 @@
  * See LICENSE file for details.
  */
 
-import { IExecuteFunctions, INodeExecutionData, INodeProperties } from 'n8n-workflow';
-import { createCosmosClient, createConsoleApiClient } from '../../transport';
-import { parseSDL, validateSDL, sdlToManifest } from '../../helpers';
+import { IDataObject, IExecuteFunctions, INodeExecutionData, INodeProperties } from 'n8n-workflow';
+import {
+  createCosmosClient,
+  createConsoleApiClient,
+  createProviderClient,
+  CosmosClient,
+} from '../../transport';
+import { parseSDL, validateSDL, sdlToManifest, diffSDL } from '../../helpers';
+import { batchOptions, getTransactionOptions, transactionOptions } from '../wallet/transaction';
+import { IBatchItem } from '../transaction/batch.operation';
+import { getActiveLeaseIds } from '../lease/operations';
 
 /**
  * Update Deployment Operation
@@ -50,16 +58,58 @@ export const updateDescription: INodeProperties[] = [
     name: 'provider',
     type: 'string',
     default: '',
-    required: true,
     displayOptions: {
       show: {
         resource: ['deployment'],
         operation: ['update'],
       },
     },
-    description: 'Provider address to send the updated manifest to',
+    description:
+      'Provider to send the updated manifest to in addition to the providers of all active leases of the deployment. Leave empty to use the leases only.',
     placeholder: 'akash1provider...',
   },
+  {
+    displayName: 'Current SDL Manifest',
+    name: 'currentSdl',
+    type: 'string',
+    typeOptions: {
+      rows: 15,
+      alwaysOpenEditWindow: true,
+    },
+    default: '',
+    displayOptions: {
+      show: {
+        resource: ['deployment'],
+        operation: ['update'],
+      },
+    },
+    description:
+      'SDL the deployment is currently running. When set, the update is only sent if every change can be applied in place; resource, placement, pricing or count changes are refused because they need a redeploy.',
+  },
+  {
+    displayName: 'Options',
+    name: 'options',
+    type: 'collection',
+    placeholder: 'Add Option',
+    default: {},
+    displayOptions: {
+      show: {
+        resource: ['deployment'],
+        operation: ['update'],
+      },
+    },
+    options: [
+      {
+        displayName: 'Plan Only',
+        name: 'planOnly',
+        type: 'boolean',
+        default: false,
+        description:
+          'Whether to only return the diff between the current and new SDL without updating',
+      },
+    ],
+  },
+  transactionOptions('deployment', ['update']),
 ];
 
 export async function executeUpdate(
@@ -68,7 +118,9 @@ export async function executeUpdate(
 ): Promise<INodeExecutionData[]> {
   const dseq = this.getNodeParameter('dseq', index) as string;
   const sdl = this.getNodeParameter('sdl', index) as string;
-  const provider = this.getNodeParameter('provider', index) as string;
+  const provider = this.getNodeParameter('provider', index, '') as string;
+  const currentSdl = this.getNodeParameter('currentSdl', index, '') as string;
+  const options = this.getNodeParameter('options', index, {}) as { planOnly?: boolean };
 
   // Validate SDL
   const parsedSdl = parseSDL(sdl);
@@ -77,38 +129,77 @@ export async function executeUpdate(
     throw new Error(`SDL validation failed:\n${validation.errors.join('\n')}`);
   }
 
+  // Plan the update against the running SDL
+  const plan = currentSdl ? diffSDL(parseSDL(currentSdl), parsedSdl) : undefined;
+  if (options.planOnly) {
+    if (!plan) {
+      throw new Error('Plan Only requires the Current SDL Manifest');
+    }
+    return [{ json: { dseq, updated: false, ...plan } as unknown as IDataObject }];
+  }
+  if (plan?.classification === 'redeploy') {
+    throw new Error(
+      `Deployment ${dseq} cannot be updated in place; close it and deploy the new SDL instead:\n- ${plan.reasons.join('\n- ')}`,
+    );
+  }
+  if (plan?.classification === 'unchanged') {
+    return [{ json: { dseq, updated: false, ...plan } as unknown as IDataObject }];
+  }
+
   const cosmosClient = await createCosmosClient(this);
-  const consoleClient = await createConsoleApiClient(this);
+  const txOptions = getTransactionOptions.call(this, index);
 
-  // Update deployment on-chain
-  const result = await cosmosClient.updateDeployment(dseq, sdl);
+  try {
+    // Every provider with a lease needs the new manifest, one per group at most
+    const owner = cosmosClient.getOwnerAddress(txOptions);
+    const leaseIds = await getActiveLeaseIds.call(this, owner, dseq);
+    const providers = new Set(leaseIds.map((lease) => lease.provider));
+    if (provider) {
+      providers.add(provider);
+    }
 
-  const response: Record<string, unknown> = {
-    success: result.code === 0,
-    transactionHash: result.transactionHash,
-    dseq,
-    height: result.height,
-  };
+    // Update deployment on-chain
+    const result = await cosmosClient.updateDeployment(dseq, sdl, txOptions);
+
+    const response: Record<string, unknown> = {
+      success: result.code === 0,
+      transactionHash: result.transactionHash,
+      dseq,
+      height: result.height,
+    };
+    if (plan) {
+      response.plan = plan;
+    }
 
-  // Send updated manifest to provider
-  if (result.code === 0) {
-    try {
+    // Send updated manifest to every leased provider
+    if (result.code === 0) {
       const manifest = sdlToManifest(parsedSdl);
-      await consoleClient.sendManifest(
-        cosmosClient.getWalletAddress(),
-        dseq,
-        provider,
-        manifest,
-      );
-      response.manifestSent = true;
-    } catch (error) {
-      response.manifestSent = false;
-      response.manifestError = (error as Error).message;
+      const manifests: IDataObject[] = [];
+      for (const leaseProvider of providers) {
+        try {
+          const providerClient = await createProviderClient(this, leaseProvider);
+          try {
+            await providerClient.sendManifest(dseq, manifest);
+          } finally {
+            providerClient.disconnect();
+          }
+          manifests.push({ provider: leaseProvider, sent: true });
+        } catch (error) {
+          manifests.push({ provider: leaseProvider, sent: false, error: (error as Error).message });
+        }
+      }
+      response.manifests = manifests;
+      response.manifestSent = manifests.every((m) => m.sent);
+      const failed = manifests.find((m) => !m.sent);
+      if (failed) {
+        response.manifestError = failed.error;
+      }
     }
-  }
 
-  await cosmosClient.disconnect();
-  return [{ json: response as any }];
+    return [{ json: response as unknown as IDataObject }];
+  } finally {
+    await cosmosClient.disconnect();
+  }
 }
 export const closeDescription: INodeProperties[] = [
   {
@@ -125,6 +216,8 @@ export const closeDescription: INodeProperties[] = [
     },
     description: 'The deployment sequence number to close',
   },
+  ...batchOptions('deployment', ['close']),
+  transactionOptions('deployment', ['close']),
 ];
 
 export async function executeClose(
@@ -134,7 +227,7 @@ export async function executeClose(
   const dseq = this.getNodeParameter('dseq', index) as string;
 
   const cosmosClient = await createCosmosClient(this);
-  const result = await cosmosClient.closeDeployment(dseq);
+  const result = await cosmosClient.closeDeployment(dseq, getTransactionOptions.call(this, index));
 
   await cosmosClient.disconnect();
 
@@ -151,6 +244,21 @@ export async function executeClose(
   ];
 }
 
+/**
+ * Close message of an item, for Batch Items
+ */
+export async function closeMessages(
+  this: IExecuteFunctions,
+  index: number,
+  cosmosClient: CosmosClient,
+): Promise<IBatchItem[]> {
+  const dseq = this.getNodeParameter('dseq', index) as string;
+  // The batch is sent with the transaction options of the first item
+  const message = cosmosClient.closeDeploymentMessage(dseq, getTransactionOptions.call(this, 0));
+
+  return [{ message, json: { dseq } }];
+}
+
 /**
  * Get Deployment Status Operation
  */
@@ -317,6 +425,8 @@ export const depositDescription: INodeProperties[] = [
       numberPrecision: 6,
     },
   },
+  ...batchOptions('deployment', ['deposit']),
+  transactionOptions('deployment', ['deposit']),
 ];
 
 export async function executeDeposit(
@@ -327,7 +437,11 @@ export async function executeDeposit(
   const amount = this.getNodeParameter('amount', index) as number;
 
   const cosmosClient = await createCosmosClient(this);
-  const result = await cosmosClient.depositDeployment(dseq, amount.toString());
+  const result = await cosmosClient.depositDeployment(
+    dseq,
+    amount.toString(),
+    getTransactionOptions.call(this, index),
+  );
 
   await cosmosClient.disconnect();
 
@@ -344,3 +458,22 @@ export async function executeDeposit(
     },
   ];
 }
+
+/**
+ * Deposit message of an item, for Batch Items
+ */
+export async function depositMessages(
+  this: IExecuteFunctions,
+  index: number,
+  cosmosClient: CosmosClient,
+): Promise<IBatchItem[]> {
+  const dseq = this.getNodeParameter('dseq', index) as string;
+  const amount = this.getNodeParameter('amount', index) as number;
+  const message = cosmosClient.depositDeploymentMessage(
+    dseq,
+    amount.toString(),
+    getTransactionOptions.call(this, 0),
+  );
+
+  return [{ message, json: { dseq, amount: `${amount} AKT` } }];
+}
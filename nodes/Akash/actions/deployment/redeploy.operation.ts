@@ -0,0 +1,271 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import axios from 'axios';
+import { IDataObject, IExecuteFunctions, INodeExecutionData, INodeProperties } from 'n8n-workflow';
+import { createCosmosClient, CosmosClient } from '../../transport';
+import { ITxOptions } from '../../types';
+import { POLLING_INTERVALS } from '../../constants';
+import { deployOptions, deploySdl, IDeployOptions } from './deploy.operation';
+import { getTransactionOptions, transactionOptions } from '../wallet/transaction';
+
+/**
+ * Redeploy Operation
+ *
+ * Blue/green replacement for changes that cannot be applied in place:
+ * 1. Deploys the new SDL alongside the running deployment
+ * 2. Waits until the new services respond on their URIs
+ * 3. Closes the old deployment
+ *
+ * If the new deployment never becomes healthy, or has no URI to check, it is
+ * closed and the old one keeps running untouched.
+ */
+
+export const description: INodeProperties[] = [
+  {
+    displayName: 'Current Deployment Sequence (DSEQ)',
+    name: 'dseq',
+    type: 'string',
+    default: '',
+    required: true,
+    displayOptions: {
+      show: {
+        resource: ['deployment'],
+        operation: ['redeploy'],
+      },
+    },
+    description: 'The deployment to replace',
+  },
+  {
+    displayName: 'New SDL Manifest',
+    name: 'sdl',
+    type: 'string',
+    typeOptions: {
+      rows: 15,
+      alwaysOpenEditWindow: true,
+    },
+    default: '',
+    required: true,
+    displayOptions: {
+      show: {
+        resource: ['deployment'],
+        operation: ['redeploy'],
+      },
+    },
+    description: 'SDL for the replacement deployment',
+  },
+  {
+    displayName: 'Initial Deposit (AKT)',
+    name: 'deposit',
+    type: 'number',
+    default: 5,
+    required: true,
+    displayOptions: {
+      show: {
+        resource: ['deployment'],
+        operation: ['redeploy'],
+      },
+    },
+    description: 'Initial deposit in AKT to fund the new deployment escrow',
+    typeOptions: {
+      minValue: 0.5,
+      numberPrecision: 6,
+    },
+  },
+  {
+    displayName: 'Options',
+    name: 'options',
+    type: 'collection',
+    placeholder: 'Add Option',
+    default: {},
+    displayOptions: {
+      show: {
+        resource: ['deployment'],
+        operation: ['redeploy'],
+      },
+    },
+    options: [
+      {
+        displayName: 'Close Old Deployment',
+        name: 'closeOld',
+        type: 'boolean',
+        default: true,
+        description:
+          'Whether to close the old deployment once the new one is healthy. Disable to switch DNS first and close it in a later step.',
+      },
+      {
+        displayName: 'Health Check Path',
+        name: 'healthPath',
+        type: 'string',
+        default: '/',
+        description: 'Path requested on every URI of the new deployment',
+      },
+      {
+        displayName: 'Health Timeout (Seconds)',
+        name: 'healthTimeout',
+        type: 'number',
+        default: 300,
+        description: 'How long the new URIs may take to respond before rolling back',
+        typeOptions: {
+          minValue: 10,
+          maxValue: 3600,
+        },
+      },
+      {
+        displayName: 'Skip Health Check',
+        name: 'skipHealthCheck',
+        type: 'boolean',
+        default: false,
+        description:
+          'Whether to switch over once the new leases are ready, without requesting any URI. Needed when the new deployment exposes no global HTTP service.',
+      },
+      ...deployOptions,
+    ],
+  },
+  transactionOptions('deployment', ['redeploy']),
+];
+
+interface IRedeployOptions extends IDeployOptions {
+  closeOld?: boolean;
+  healthPath?: string;
+  healthTimeout?: number;
+  skipHealthCheck?: boolean;
+}
+
+export async function execute(
+  this: IExecuteFunctions,
+  index: number,
+): Promise<INodeExecutionData[]> {
+  const oldDseq = this.getNodeParameter('dseq', index) as string;
+  const sdl = this.getNodeParameter('sdl', index) as string;
+  const deposit = this.getNodeParameter('deposit', index) as number;
+  const options = this.getNodeParameter('options', index, {}) as IRedeployOptions;
+  const txOptions = getTransactionOptions.call(this, index);
+
+  // A failed deploy closes its own deployment, so the old one is never at risk here
+  const deployment = await deploySdl.call(this, sdl, deposit, {
+    ...options,
+    closeOnFailure: true,
+    txOptions,
+  });
+  const newDseq = deployment.dseq as string;
+  const uris = (deployment.uris as string[]) || [];
+
+  const cosmosClient = await createCosmosClient(this);
+  try {
+    let health: IDataObject[] = [];
+    if (!options.skipHealthCheck) {
+      // Without a URI nothing shows the new deployment works
+      if (uris.length === 0) {
+        await rollBack(
+          cosmosClient,
+          newDseq,
+          oldDseq,
+          'the new deployment has no URI to health check',
+          txOptions,
+        );
+      }
+
+      const checked = await waitForHealthy(
+        uris,
+        options.healthPath || '/',
+        (options.healthTimeout || 300) * 1000,
+      );
+      if (checked.unhealthy.length > 0) {
+        await rollBack(
+          cosmosClient,
+          newDseq,
+          oldDseq,
+          `${checked.unhealthy.join(', ')} did not become healthy`,
+          txOptions,
+        );
+      }
+      health = checked.results;
+    }
+
+    const response: IDataObject = {
+      success: true,
+      oldDseq,
+      newDseq,
+      uris,
+      healthChecked: !options.skipHealthCheck,
+      health,
+      deployment,
+    };
+
+    if (options.closeOld !== false) {
+      const closed = await cosmosClient.closeDeployment(oldDseq, txOptions);
+      response.oldClosed = closed.code === 0;
+      response.closeTransactionHash = closed.transactionHash;
+      if (closed.code !== 0) {
+        response.closeError = closed.rawLog;
+      }
+    } else {
+      response.oldClosed = false;
+    }
+
+    return [{ json: response }];
+  } finally {
+    await cosmosClient.disconnect();
+  }
+}
+
+/**
+ * Close the new deployment and report why the old one was kept
+ */
+async function rollBack(
+  cosmosClient: CosmosClient,
+  newDseq: string,
+  oldDseq: string,
+  reason: string,
+  txOptions: ITxOptions,
+): Promise<never> {
+  const closed = await cosmosClient.closeDeployment(newDseq, txOptions);
+  const rollback =
+    closed.code === 0
+      ? `New deployment ${newDseq} was closed`
+      : `Closing new deployment ${newDseq} failed: ${closed.rawLog}`;
+  throw new Error(
+    `Redeploy rolled back: ${reason}. ${rollback}; deployment ${oldDseq} is still running.`,
+  );
+}
+
+/**
+ * Poll each URI until it answers with a non-error status or the timeout passes
+ */
+async function waitForHealthy(
+  uris: string[],
+  path: string,
+  timeout: number,
+): Promise<{ results: IDataObject[]; unhealthy: string[] }> {
+  const deadline = Date.now() + timeout;
+  const results = new Map<string, IDataObject>();
+  let pending = [...uris];
+
+  while (pending.length > 0) {
+    for (const uri of pending) {
+      const url = `${/^https?:\/\//.test(uri) ? uri : `http://${uri}`}${path.startsWith('/') ? path : `/${path}`}`;
+      try {
+        const response = await axios.get(url, {
+          timeout: POLLING_INTERVALS.leaseStatus,
+          validateStatus: () => true,
+        });
+        results.set(uri, { uri, url, status: response.status, healthy: response.status < 400 });
+      } catch (error) {
+        results.set(uri, { uri, url, healthy: false, error: (error as Error).message });
+      }
+    }
+
+    pending = pending.filter((uri) => !results.get(uri)?.healthy);
+    if (pending.length === 0 || Date.now() > deadline) {
+      break;
+    }
+    await new Promise((resolve) => setTimeout(resolve, POLLING_INTERVALS.leaseStatus));
+  }
+
+  return { results: [...results.values()], unhealthy: pending };
+}
@@ -0,0 +1,257 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { IDataObject, IExecuteFunctions, INodeExecutionData, INodeProperties } from 'n8n-workflow';
+import { createCosmosClient, createConsoleApiClient, CosmosClient } from '../../transport';
+import { calculateEscrowRunway, calculateTopUpAmount, uaktToAkt } from '../../helpers';
+import { IEscrowRunway, ITxOptions } from '../../types';
+import { AVERAGE_BLOCK_TIME_SECONDS, TOKEN_DENOMINATIONS, UAKT_PER_AKT } from '../../constants';
+import { getTransactionOptions, transactionOptions } from '../wallet/transaction';
+
+/**
+ * Escrow Runway Operation
+ *
+ * Estimates how long each deployment's escrow can keep paying its leases and
+ * flags deployments below a threshold, before providers close the leases as
+ * insufficient_funds. Optionally tops the escrow up to a target runway, with a
+ * daily spend cap tracked in the workflow's static data.
+ */
+
+export const description: INodeProperties[] = [
+  {
+    displayName: 'Deployment Sequence (dseq)',
+    name: 'dseq',
+    type: 'string',
+    default: '',
+    displayOptions: {
+      show: {
+        resource: ['deployment'],
+        operation: ['runway'],
+      },
+    },
+    description: 'Deployment to check. Leave empty to check every active deployment of the wallet.',
+  },
+  {
+    displayName: 'Alert Threshold (Hours)',
+    name: 'thresholdHours',
+    type: 'number',
+    default: 24,
+    displayOptions: {
+      show: {
+        resource: ['deployment'],
+        operation: ['runway'],
+      },
+    },
+    description: 'Flag deployments whose escrow runs out within this many hours',
+    typeOptions: {
+      minValue: 0,
+    },
+  },
+  {
+    displayName: 'Options',
+    name: 'options',
+    type: 'collection',
+    placeholder: 'Add Option',
+    default: {},
+    displayOptions: {
+      show: {
+        resource: ['deployment'],
+        operation: ['runway'],
+      },
+    },
+    options: [
+      {
+        displayName: 'Auto Top-Up',
+        name: 'autoTopUp',
+        type: 'boolean',
+        default: false,
+        description:
+          'Whether to deposit AKT into escrows below the threshold until they reach the target runway',
+      },
+      {
+        displayName: 'Target Runway (Hours)',
+        name: 'targetHours',
+        type: 'number',
+        default: 72,
+        description: 'Runway to top up to',
+        typeOptions: {
+          minValue: 1,
+        },
+      },
+      {
+        displayName: 'Daily Top-Up Cap (AKT)',
+        name: 'dailyCap',
+        type: 'number',
+        default: 10,
+        description:
+          'Maximum AKT deposited by this node per UTC day across all deployments. 0 means no limit.',
+        typeOptions: {
+          minValue: 0,
+          numberPrecision: 6,
+        },
+      },
+      {
+        displayName: 'Average Block Time (Seconds)',
+        name: 'blockTime',
+        type: 'number',
+        default: AVERAGE_BLOCK_TIME_SECONDS,
+        description: 'Block time used to convert per-block prices into hours',
+        typeOptions: {
+          minValue: 1,
+          numberPrecision: 2,
+        },
+      },
+      {
+        displayName: 'Only Alerts',
+        name: 'alertsOnly',
+        type: 'boolean',
+        default: false,
+        description: 'Whether to return only deployments below the threshold',
+      },
+    ],
+  },
+  transactionOptions('deployment', ['runway']),
+];
+
+interface IRunwayOptions {
+  autoTopUp?: boolean;
+  targetHours?: number;
+  dailyCap?: number;
+  blockTime?: number;
+  alertsOnly?: boolean;
+}
+
+interface ITopUpState {
+  day: string;
+  spent: number;
+}
+
+export async function execute(
+  this: IExecuteFunctions,
+  index: number,
+): Promise<INodeExecutionData[]> {
+  const dseq = this.getNodeParameter('dseq', index, '') as string;
+  const thresholdHours = this.getNodeParameter('thresholdHours', index, 24) as number;
+  const options = this.getNodeParameter('options', index, {}) as IRunwayOptions;
+  const blockTime = options.blockTime || AVERAGE_BLOCK_TIME_SECONDS;
+  const txOptions = getTransactionOptions.call(this, index);
+
+  const cosmosClient = await createCosmosClient(this);
+  const consoleClient = await createConsoleApiClient(this);
+  const owner = cosmosClient.getOwnerAddress(txOptions);
+
+  try {
+    const deployments = dseq
+      ? [await consoleClient.getDeployment(owner, dseq)]
+      : await consoleClient.getDeployments(owner, { state: 'active' });
+    const leases = await consoleClient.getLeases(owner);
+    const currentHeight = await getCurrentHeight(cosmosClient);
+
+    // Daily spend is kept per node so the cap holds across executions
+    const staticData = this.getWorkflowStaticData('node') as { escrowTopUps?: ITopUpState };
+    const today = new Date().toISOString().slice(0, 10);
+    if (staticData.escrowTopUps?.day !== today) {
+      staticData.escrowTopUps = { day: today, spent: 0 };
+    }
+    const topUpState = staticData.escrowTopUps;
+
+    const results: INodeExecutionData[] = [];
+    for (const deployment of deployments) {
+      const runway = calculateEscrowRunway(deployment, leases, blockTime, currentHeight);
+      const alert = runway.hoursRemaining !== null && runway.hoursRemaining < thresholdHours;
+
+      const result: IDataObject = {
+        ...runway,
+        owner,
+        thresholdHours,
+        alert,
+      };
+
+      if (alert && options.autoTopUp) {
+        result.topUp = await topUp(cosmosClient, runway, topUpState, {
+          targetHours: options.targetHours || 72,
+          dailyCap: options.dailyCap ?? 10,
+          blockTime,
+          txOptions,
+        });
+      }
+
+      if (!options.alertsOnly || alert) {
+        results.push({ json: result });
+      }
+    }
+
+    return results;
+  } finally {
+    await cosmosClient.disconnect();
+  }
+}
+
+/**
+ * Deposit enough AKT to reach the target runway, within the daily cap
+ */
+async function topUp(
+  cosmosClient: CosmosClient,
+  runway: IEscrowRunway,
+  state: ITopUpState,
+  settings: { targetHours: number; dailyCap: number; blockTime: number; txOptions: ITxOptions },
+): Promise<IDataObject> {
+  if (runway.denom !== TOKEN_DENOMINATIONS.uakt) {
+    return {
+      success: false,
+      skipped: true,
+      reason: `Escrow is funded in ${runway.denom}; automatic top-up only deposits AKT`,
+    };
+  }
+
+  const needed = calculateTopUpAmount(runway, settings.targetHours, settings.blockTime);
+  const remaining =
+    settings.dailyCap > 0 ? settings.dailyCap * UAKT_PER_AKT - state.spent : Infinity;
+  const amount = Math.min(needed, Math.floor(remaining));
+
+  if (amount <= 0) {
+    return {
+      success: false,
+      skipped: true,
+      reason:
+        needed <= 0
+          ? 'Runway already meets the target'
+          : `Daily top-up cap of ${settings.dailyCap} AKT reached`,
+    };
+  }
+
+  const result = await cosmosClient.depositDeployment(
+    runway.dseq,
+    uaktToAkt(amount),
+    settings.txOptions,
+  );
+  if (result.code === 0) {
+    state.spent += amount;
+  }
+
+  return {
+    success: result.code === 0,
+    transactionHash: result.transactionHash,
+    amount: `${uaktToAkt(amount)} AKT`,
+    capped: amount < needed,
+    spentToday: `${uaktToAkt(state.spent)} AKT`,
+  };
+}
+
+/**
+ * Latest block height, or undefined when the RPC node is unreachable
+ */
+async function getCurrentHeight(cosmosClient: CosmosClient): Promise<number | undefined> {
+  try {
+    const queryClient = await cosmosClient.getQueryClient();
+    const height = await queryClient.getHeight();
+    queryClient.disconnect();
+    return height;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,393 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { IDataObject, IExecuteFunctions, INodeExecutionData, INodeProperties } from 'n8n-workflow';
+import { createCosmosClient } from '../../transport';
+import { aktToUakt, uaktToAkt } from '../../helpers';
+import { IProposal, IProposalTally, ProposalStatusName, VoteOptionName } from '../../types';
+import { getTransactionOptions, transactionOptions } from '../wallet/transaction';
+
+/**
+ * Governance Operations
+ *
+ * Chain upgrades are decided by proposal. Upgrades can move the Akash message
+ * versions this node signs, so operators should watch and vote on them.
+ */
+
+const voteOptions = [
+  { name: 'Yes', value: 'yes' },
+  { name: 'Abstain', value: 'abstain' },
+  { name: 'No', value: 'no' },
+  { name: 'No With Veto', value: 'noWithVeto' },
+];
+
+// Get Single Proposal
+export const getDescription: INodeProperties[] = [
+  {
+    displayName: 'Proposal ID',
+    name: 'proposalId',
+    type: 'string',
+    required: true,
+    default: '',
+    displayOptions: {
+      show: {
+        resource: ['governance'],
+        operation: ['get', 'vote', 'deposit'],
+      },
+    },
+    description: 'The ID of the proposal',
+  },
+];
+
+export async function executeGet(
+  this: IExecuteFunctions,
+  index: number,
+): Promise<INodeExecutionData[]> {
+  const proposalId = getProposalId.call(this, index);
+
+  const cosmosClient = await createCosmosClient(this);
+  try {
+    const proposal = await cosmosClient.getProposal(proposalId);
+
+    // The final tally is only filled in once voting ends
+    const tally =
+      proposal.status === 'voting' ? await cosmosClient.getTally(proposalId) : proposal.finalTally;
+
+    return [{ json: formatProposal(proposal, tally) }];
+  } finally {
+    await cosmosClient.disconnect();
+  }
+}
+
+// Get Many Proposals
+export const getManyDescription: INodeProperties[] = [
+  {
+    displayName: 'Filters',
+    name: 'filters',
+    type: 'collection',
+    placeholder: 'Add Filter',
+    default: {},
+    displayOptions: {
+      show: {
+        resource: ['governance'],
+        operation: ['getMany'],
+      },
+    },
+    options: [
+      {
+        displayName: 'Status',
+        name: 'status',
+        type: 'options',
+        options: [
+          { name: 'All', value: '' },
+          { name: 'Deposit Period', value: 'deposit' },
+          { name: 'Voting Period', value: 'voting' },
+          { name: 'Passed', value: 'passed' },
+          { name: 'Rejected', value: 'rejected' },
+          { name: 'Failed', value: 'failed' },
+        ],
+        default: '',
+        description: 'Filter by proposal status',
+      },
+      {
+        displayName: 'Limit',
+        name: 'limit',
+        type: 'number',
+        default: 50,
+        description: 'Maximum number of proposals to return, newest first',
+      },
+    ],
+  },
+];
+
+export async function executeGetMany(
+  this: IExecuteFunctions,
+  index: number,
+): Promise<INodeExecutionData[]> {
+  const filters = this.getNodeParameter('filters', index, {}) as {
+    status?: ProposalStatusName | '';
+    limit?: number;
+  };
+
+  const cosmosClient = await createCosmosClient(this);
+  try {
+    const proposals = await cosmosClient.getProposals(filters.status || undefined);
+
+    const limit = filters.limit || 50;
+
+    return proposals
+      .slice(0, limit)
+      .map((proposal) => ({ json: formatProposal(proposal, proposal.finalTally) }));
+  } finally {
+    await cosmosClient.disconnect();
+  }
+}
+
+// Vote
+export const voteDescription: INodeProperties[] = [
+  {
+    displayName: 'Vote Type',
+    name: 'voteType',
+    type: 'options',
+    options: [
+      {
+        name: 'Single Option',
+        value: 'single',
+        description: 'Put the full voting power behind one option',
+      },
+      {
+        name: 'Weighted',
+        value: 'weighted',
+        description: 'Split the voting power across several options',
+      },
+    ],
+    default: 'single',
+    displayOptions: {
+      show: {
+        resource: ['governance'],
+        operation: ['vote'],
+      },
+    },
+  },
+  {
+    displayName: 'Option',
+    name: 'option',
+    type: 'options',
+    options: voteOptions,
+    default: 'yes',
+    displayOptions: {
+      show: {
+        resource: ['governance'],
+        operation: ['vote'],
+        voteType: ['single'],
+      },
+    },
+    description: 'The vote to cast',
+  },
+  {
+    displayName: 'Weights',
+    name: 'weights',
+    type: 'fixedCollection',
+    typeOptions: {
+      multipleValues: true,
+    },
+    placeholder: 'Add Weight',
+    default: {},
+    displayOptions: {
+      show: {
+        resource: ['governance'],
+        operation: ['vote'],
+        voteType: ['weighted'],
+      },
+    },
+    description: 'Share of the voting power per option. The weights must add up to 1.',
+    options: [
+      {
+        displayName: 'Weight',
+        name: 'weight',
+        values: [
+          {
+            displayName: 'Option',
+            name: 'option',
+            type: 'options',
+            options: voteOptions,
+            default: 'yes',
+          },
+          {
+            displayName: 'Weight',
+            name: 'weight',
+            type: 'number',
+            default: 0.5,
+            typeOptions: {
+              minValue: 0,
+              maxValue: 1,
+              numberPrecision: 6,
+            },
+          },
+        ],
+      },
+    ],
+  },
+  transactionOptions('governance', ['vote']),
+];
+
+export async function executeVote(
+  this: IExecuteFunctions,
+  index: number,
+): Promise<INodeExecutionData[]> {
+  const proposalId = getProposalId.call(this, index);
+  const voteType = this.getNodeParameter('voteType', index, 'single') as string;
+  const txOptions = getTransactionOptions.call(this, index);
+
+  let votes: { option: VoteOptionName; weight: number }[];
+  if (voteType === 'weighted') {
+    const weights = this.getNodeParameter('weights', index, {}) as {
+      weight?: { option: VoteOptionName; weight: number }[];
+    };
+    votes = (weights.weight || []).filter((w) => w.weight > 0);
+    if (votes.length === 0) {
+      throw new Error('At least one weight greater than 0 is required');
+    }
+    if (new Set(votes.map((w) => w.option)).size !== votes.length) {
+      throw new Error('Each vote option may only be weighted once');
+    }
+    const total = votes.reduce((sum, w) => sum + w.weight, 0);
+    if (Math.abs(total - 1) > 1e-6) {
+      throw new Error(`Vote weights must add up to 1, got ${total}`);
+    }
+  } else {
+    votes = [{ option: this.getNodeParameter('option', index) as VoteOptionName, weight: 1 }];
+  }
+
+  const cosmosClient = await createCosmosClient(this);
+  try {
+    const result =
+      voteType === 'weighted'
+        ? await cosmosClient.voteWeighted(proposalId, votes, txOptions)
+        : await cosmosClient.vote(proposalId, votes[0].option, txOptions);
+
+    if (result.code !== 0) {
+      throw new Error(`Vote failed: ${result.rawLog}`);
+    }
+
+    return [
+      {
+        json: {
+          success: true,
+          proposalId,
+          voter: cosmosClient.getOwnerAddress(txOptions),
+          votes,
+          transactionHash: result.transactionHash,
+          height: result.height,
+          gasUsed: result.gasUsed,
+        },
+      },
+    ];
+  } finally {
+    await cosmosClient.disconnect();
+  }
+}
+
+// Deposit
+export const depositDescription: INodeProperties[] = [
+  {
+    displayName: 'Amount (AKT)',
+    name: 'amount',
+    type: 'number',
+    required: true,
+    default: 0,
+    displayOptions: {
+      show: {
+        resource: ['governance'],
+        operation: ['deposit'],
+      },
+    },
+    description: 'Amount of AKT to add to the proposal deposit',
+    typeOptions: {
+      minValue: 0,
+      numberPrecision: 6,
+    },
+  },
+  transactionOptions('governance', ['deposit']),
+];
+
+export async function executeDeposit(
+  this: IExecuteFunctions,
+  index: number,
+): Promise<INodeExecutionData[]> {
+  const proposalId = getProposalId.call(this, index);
+  const amount = this.getNodeParameter('amount', index) as number;
+  const txOptions = getTransactionOptions.call(this, index);
+
+  if (amount <= 0) {
+    throw new Error('Deposit amount must be greater than 0');
+  }
+
+  const cosmosClient = await createCosmosClient(this);
+  try {
+    const result = await cosmosClient.depositToProposal(proposalId, aktToUakt(amount), txOptions);
+
+    if (result.code !== 0) {
+      throw new Error(`Deposit failed: ${result.rawLog}`);
+    }
+
+    return [
+      {
+        json: {
+          success: true,
+          proposalId,
+          depositor: cosmosClient.getOwnerAddress(txOptions),
+          amountAkt: amount,
+          transactionHash: result.transactionHash,
+          height: result.height,
+          gasUsed: result.gasUsed,
+        },
+      },
+    ];
+  } finally {
+    await cosmosClient.disconnect();
+  }
+}
+
+// Combined exports
+export const description: INodeProperties[] = [
+  ...getDescription,
+  ...getManyDescription,
+  ...voteDescription,
+  ...depositDescription,
+];
+
+export async function execute(
+  this: IExecuteFunctions,
+  operation: string,
+  index: number,
+): Promise<INodeExecutionData[]> {
+  switch (operation) {
+    case 'get':
+      return executeGet.call(this, index);
+    case 'getMany':
+      return executeGetMany.call(this, index);
+    case 'vote':
+      return executeVote.call(this, index);
+    case 'deposit':
+      return executeDeposit.call(this, index);
+    default:
+      throw new Error(`Unknown governance operation: ${operation}`);
+  }
+}
+
+function getProposalId(this: IExecuteFunctions, index: number): string {
+  const proposalId = String(this.getNodeParameter('proposalId', index)).trim();
+  if (!/^\d+$/.test(proposalId)) {
+    throw new Error(`Invalid proposal ID ${proposalId}. Must be a number`);
+  }
+  return proposalId;
+}
+
+/**
+ * Proposal output with the tally in AKT and as shares of the votes cast
+ */
+export function formatProposal(proposal: IProposal, tally: IProposalTally): IDataObject {
+  const options = Object.keys(tally) as (keyof IProposalTally)[];
+  const total = options.reduce((sum, option) => sum + BigInt(tally[option]), BigInt(0));
+
+  const tallyAkt: IDataObject = {};
+  const tallyPercent: IDataObject = {};
+  for (const option of options) {
+    tallyAkt[option] = uaktToAkt(tally[option]);
+    tallyPercent[option] =
+      total > BigInt(0) ? Number((BigInt(tally[option]) * BigInt(10000)) / total) / 100 : 0;
+  }
+
+  return {
+    ...proposal,
+    tally,
+    tallyAkt,
+    tallyPercent,
+    totalVotedAkt: uaktToAkt(total.toString()),
+  } as unknown as IDataObject;
+}
@@ -5,16 +5,161 @@
  * See LICENSE file for details.
  */
 
-import { IExecuteFunctions, INodeExecutionData, INodeProperties } from 'n8n-workflow';
-import { createCosmosClient, createConsoleApiClient } from '../../transport';
+import { IDataObject, IExecuteFunctions, INodeExecutionData, INodeProperties } from 'n8n-workflow';
+import {
+  createCosmosClient,
+  createConsoleApiClient,
+  createProviderClient,
+  CosmosClient,
+  ProviderClient,
+} from '../../transport';
+import { parseSDL, sdlToManifest } from '../../helpers';
+import { ILeaseId, IProviderCertificate } from '../../types';
+import { batchOptions, getTransactionOptions, transactionOptions } from '../wallet/transaction';
+import { IBatchItem } from '../transaction/batch.operation';
 
 /**
  * Lease Operations
  *
  * Leases represent active agreements between deployers and providers.
  * A lease is created when a bid is accepted and contains payment terms.
+ * Manifest, status and log calls go straight to the provider over mTLS by default.
+ * Get, close, status, manifest and log operations can target every lease of a deployment.
  */
 
+// Options shared by operations that talk to the provider gateway
+const providerConnectionOptions: INodeProperties[] = [
+  {
+    displayName: 'Client Certificate (PEM)',
+    name: 'clientCertificate',
+    type: 'string',
+    default: '',
+    description:
+      'Certificate to authenticate with the provider. Leave empty to use the certificate from the credentials.',
+  },
+  {
+    displayName: 'Client Certificate Key (PEM)',
+    name: 'clientCertificateKey',
+    type: 'string',
+    typeOptions: {
+      password: true,
+    },
+    default: '',
+    description:
+      'Private key for the client certificate. Leave empty to use the key from the credentials.',
+  },
+  {
+    displayName: 'Transport',
+    name: 'transport',
+    type: 'options',
+    options: [
+      {
+        name: 'Provider (mTLS)',
+        value: 'provider',
+        description: 'Talk directly to the provider gateway using the client certificate',
+      },
+      {
+        name: 'Console API',
+        value: 'console',
+        description: 'Proxy the request through the Akash Console API',
+      },
+    ],
+    default: 'provider',
+    description: 'How to reach the provider',
+  },
+];
+
+interface IProviderConnectionOptions {
+  clientCertificate?: string;
+  clientCertificateKey?: string;
+  transport?: 'provider' | 'console';
+}
+
+function getCertificateOverride(
+  options: IProviderConnectionOptions,
+): Partial<IProviderCertificate> {
+  return {
+    cert: options.clientCertificate || undefined,
+    privateKey: options.clientCertificateKey || undefined,
+  };
+}
+
+type LeaseTarget = 'single' | 'deployment';
+
+// Target selector for operations that can act on every lease of a deployment
+function leaseTargetField(operation: string): INodeProperties {
+  return {
+    displayName: 'Target',
+    name: 'target',
+    type: 'options',
+    options: [
+      {
+        name: 'Single Lease',
+        value: 'single',
+        description: 'The lease identified by gseq, oseq and provider',
+      },
+      {
+        name: 'All Leases of Deployment',
+        value: 'deployment',
+        description: 'Every lease of the deployment, one result per gseq/oseq',
+      },
+    ],
+    default: 'single',
+    displayOptions: {
+      show: {
+        resource: ['lease'],
+        operation: [operation],
+      },
+    },
+    description: 'Which leases of the deployment to act on',
+  };
+}
+
+/**
+ * Resolve the leases an operation acts on
+ * A single target is built from the gseq/oseq/provider parameters; a deployment
+ * target lists the active leases of the dseq, ordered by gseq/oseq.
+ */
+async function getLeaseIds(
+  this: IExecuteFunctions,
+  index: number,
+  owner: string,
+  dseq: string,
+): Promise<ILeaseId[]> {
+  const target = this.getNodeParameter('target', index, 'single') as LeaseTarget;
+
+  if (target === 'single') {
+    return [
+      {
+        owner,
+        dseq,
+        gseq: this.getNodeParameter('gseq', index, 1) as number,
+        oseq: this.getNodeParameter('oseq', index, 1) as number,
+        provider: this.getNodeParameter('provider', index) as string,
+      },
+    ];
+  }
+
+  return getActiveLeaseIds.call(this, owner, dseq);
+}
+
+/**
+ * List the active leases of a deployment, ordered by gseq/oseq
+ */
+export async function getActiveLeaseIds(
+  this: IExecuteFunctions,
+  owner: string,
+  dseq: string,
+): Promise<ILeaseId[]> {
+  const consoleClient = await createConsoleApiClient(this);
+  const leases = await consoleClient.getDeploymentLeases(owner, dseq);
+  const leaseIds = leases.filter((lease) => lease.state === 'active').map((lease) => lease.leaseId);
+  if (leaseIds.length === 0) {
+    throw new Error(`No active leases found for deployment ${dseq}`);
+  }
+  return leaseIds;
+}
+
 // Get Single Lease
 export const getDescription: INodeProperties[] = [
   {
@@ -31,6 +176,7 @@ export const getDescription: INodeProperties[] = [
     },
     description: 'The deployment sequence number',
   },
+  leaseTargetField('get'),
   {
     displayName: 'Group Sequence (gseq)',
     name: 'gseq',
@@ -40,6 +186,7 @@ export const getDescription: INodeProperties[] = [
       show: {
         resource: ['lease'],
         operation: ['get'],
+        target: ['single'],
       },
     },
     description: 'The group sequence number (default: 1)',
@@ -53,6 +200,7 @@ export const getDescription: INodeProperties[] = [
       show: {
         resource: ['lease'],
         operation: ['get'],
+        target: ['single'],
       },
     },
     description: 'The order sequence number (default: 1)',
@@ -67,6 +215,7 @@ export const getDescription: INodeProperties[] = [
       show: {
         resource: ['lease'],
         operation: ['get'],
+        target: ['single'],
       },
     },
     description: 'The provider address (akash1...)',
@@ -79,14 +228,24 @@ export async function executeGet(
   index: number,
 ): Promise<INodeExecutionData[]> {
   const dseq = this.getNodeParameter('dseq', index) as string;
-  const gseq = this.getNodeParameter('gseq', index, 1) as number;
-  const oseq = this.getNodeParameter('oseq', index, 1) as number;
-  const provider = this.getNodeParameter('provider', index) as string;
+  const target = this.getNodeParameter('target', index, 'single') as LeaseTarget;
 
   const consoleClient = await createConsoleApiClient(this);
   const cosmosClient = await createCosmosClient(this);
   const owner = cosmosClient.getWalletAddress();
 
+  if (target === 'deployment') {
+    const leases = await consoleClient.getDeploymentLeases(owner, dseq);
+
+    await cosmosClient.disconnect();
+
+    return leases.map((lease) => ({ json: lease as unknown as IDataObject }));
+  }
+
+  const gseq = this.getNodeParameter('gseq', index, 1) as number;
+  const oseq = this.getNodeParameter('oseq', index, 1) as number;
+  const provider = this.getNodeParameter('provider', index) as string;
+
   const lease = await consoleClient.getLease(owner, dseq, gseq, oseq, provider);
 
   await cosmosClient.disconnect();
@@ -206,6 +365,7 @@ export const closeDescription: INodeProperties[] = [
     },
     description: 'The deployment sequence number',
   },
+  leaseTargetField('close'),
   {
     displayName: 'Group Sequence (gseq)',
     name: 'gseq',
@@ -215,6 +375,7 @@ export const closeDescription: INodeProperties[] = [
       show: {
         resource: ['lease'],
         operation: ['close'],
+        target: ['single'],
       },
     },
     description: 'The group sequence number',
@@ -228,6 +389,7 @@ export const closeDescription: INodeProperties[] = [
       show: {
         resource: ['lease'],
         operation: ['close'],
+        target: ['single'],
       },
     },
     description: 'The order sequence number',
@@ -242,10 +404,13 @@ export const closeDescription: INodeProperties[] = [
       show: {
         resource: ['lease'],
         operation: ['close'],
+        target: ['single'],
       },
     },
     description: 'The provider address',
   },
+  ...batchOptions('lease', ['close']),
+  transactionOptions('lease', ['close']),
 ];
 
 export async function executeClose(
@@ -253,17 +418,16 @@ export async function executeClose(
   index: number,
 ): Promise<INodeExecutionData[]> {
   const dseq = this.getNodeParameter('dseq', index) as string;
-  const gseq = this.getNodeParameter('gseq', index, 1) as number;
-  const oseq = this.getNodeParameter('oseq', index, 1) as number;
-  const provider = this.getNodeParameter('provider', index) as string;
+  const txOptions = getTransactionOptions.call(this, index);
 
   const cosmosClient = await createCosmosClient(this);
-  const result = await cosmosClient.closeLease(dseq, gseq, oseq, provider);
+  const owner = cosmosClient.getOwnerAddress(txOptions);
+  const leaseIds = await getLeaseIds.call(this, index, owner, dseq);
 
-  await cosmosClient.disconnect();
-
-  return [
-    {
+  const results: INodeExecutionData[] = [];
+  for (const { gseq, oseq, provider } of leaseIds) {
+    const result = await cosmosClient.closeLease(dseq, gseq, oseq, provider, txOptions);
+    results.push({
       json: {
         success: result.code === 0,
         transactionHash: result.transactionHash,
@@ -274,8 +438,36 @@ export async function executeClose(
         oseq,
         provider,
       },
-    },
-  ];
+    });
+  }
+
+  await cosmosClient.disconnect();
+
+  return results;
+}
+
+/**
+ * Close messages of an item, one per targeted lease, for Batch Items
+ */
+export async function closeMessages(
+  this: IExecuteFunctions,
+  index: number,
+  cosmosClient: CosmosClient,
+): Promise<IBatchItem[]> {
+  const dseq = this.getNodeParameter('dseq', index) as string;
+  // The batch is sent with the transaction options of the first item
+  const txOptions = getTransactionOptions.call(this, 0);
+  const leaseIds = await getLeaseIds.call(
+    this,
+    index,
+    cosmosClient.getOwnerAddress(txOptions),
+    dseq,
+  );
+
+  return leaseIds.map(({ gseq, oseq, provider }) => ({
+    message: cosmosClient.closeLeaseMessage(dseq, gseq, oseq, provider, txOptions),
+    json: { dseq, gseq, oseq, provider },
+  }));
 }
 
 // Get Lease Status
@@ -294,6 +486,7 @@ export const statusDescription: INodeProperties[] = [
     },
     description: 'The deployment sequence number',
   },
+  leaseTargetField('status'),
   {
     displayName: 'Group Sequence (gseq)',
     name: 'gseq',
@@ -303,6 +496,7 @@ export const statusDescription: INodeProperties[] = [
       show: {
         resource: ['lease'],
         operation: ['status'],
+        target: ['single'],
       },
     },
     description: 'The group sequence number',
@@ -316,6 +510,7 @@ export const statusDescription: INodeProperties[] = [
       show: {
         resource: ['lease'],
         operation: ['status'],
+        target: ['single'],
       },
     },
     description: 'The order sequence number',
@@ -330,10 +525,25 @@ export const statusDescription: INodeProperties[] = [
       show: {
         resource: ['lease'],
         operation: ['status'],
+        target: ['single'],
       },
     },
     description: 'The provider address',
   },
+  {
+    displayName: 'Options',
+    name: 'options',
+    type: 'collection',
+    placeholder: 'Add Option',
+    default: {},
+    displayOptions: {
+      show: {
+        resource: ['lease'],
+        operation: ['status'],
+      },
+    },
+    options: [...providerConnectionOptions],
+  },
 ];
 
 export async function executeStatus(
@@ -341,19 +551,52 @@ export async function executeStatus(
   index: number,
 ): Promise<INodeExecutionData[]> {
   const dseq = this.getNodeParameter('dseq', index) as string;
-  const gseq = this.getNodeParameter('gseq', index, 1) as number;
-  const oseq = this.getNodeParameter('oseq', index, 1) as number;
-  const provider = this.getNodeParameter('provider', index) as string;
+  const target = this.getNodeParameter('target', index, 'single') as LeaseTarget;
+  const options = this.getNodeParameter('options', index, {}) as IProviderConnectionOptions;
 
-  const consoleClient = await createConsoleApiClient(this);
   const cosmosClient = await createCosmosClient(this);
   const owner = cosmosClient.getWalletAddress();
-
-  const status = await consoleClient.getLeaseStatus(owner, dseq, gseq, oseq, provider);
-
+  const leaseIds = await getLeaseIds.call(this, index, owner, dseq);
   await cosmosClient.disconnect();
 
-  return [{ json: status as any }];
+  if (options.transport === 'console') {
+    const consoleClient = await createConsoleApiClient(this);
+
+    const results: INodeExecutionData[] = [];
+    for (const { gseq, oseq, provider } of leaseIds) {
+      const status = await consoleClient.getLeaseStatus(owner, dseq, gseq, oseq, provider);
+      results.push({
+        json:
+          target === 'single'
+            ? (status as unknown as IDataObject)
+            : { dseq, gseq, oseq, provider, ...status },
+      });
+    }
+
+    return results;
+  }
+
+  const providerClients = new Map<string, ProviderClient>();
+  try {
+    const results: INodeExecutionData[] = [];
+    for (const { gseq, oseq, provider } of leaseIds) {
+      let providerClient = providerClients.get(provider);
+      if (!providerClient) {
+        providerClient = await createProviderClient(
+          this,
+          provider,
+          getCertificateOverride(options),
+        );
+        providerClients.set(provider, providerClient);
+      }
+      const status = await providerClient.getLeaseStatus(dseq, gseq, oseq);
+      results.push({ json: { dseq, gseq, oseq, provider, ...status } });
+    }
+
+    return results;
+  } finally {
+    providerClients.forEach((client) => client.disconnect());
+  }
 }
 
 // Send Manifest to Lease
@@ -372,6 +615,7 @@ export const sendManifestDescription: INodeProperties[] = [
     },
     description: 'The deployment sequence number',
   },
+  leaseTargetField('sendManifest'),
   {
     displayName: 'Provider Address',
     name: 'provider',
@@ -382,6 +626,7 @@ export const sendManifestDescription: INodeProperties[] = [
       show: {
         resource: ['lease'],
         operation: ['sendManifest'],
+        target: ['single'],
       },
     },
     description: 'The provider address',
@@ -404,6 +649,20 @@ export const sendManifestDescription: INodeProperties[] = [
     },
     description: 'The SDL manifest to send to the provider',
   },
+  {
+    displayName: 'Options',
+    name: 'options',
+    type: 'collection',
+    placeholder: 'Add Option',
+    default: {},
+    displayOptions: {
+      show: {
+        resource: ['lease'],
+        operation: ['sendManifest'],
+      },
+    },
+    options: [...providerConnectionOptions],
+  },
 ];
 
 export async function executeSendManifest(
@@ -411,32 +670,213 @@ export async function executeSendManifest(
   index: number,
 ): Promise<INodeExecutionData[]> {
   const dseq = this.getNodeParameter('dseq', index) as string;
-  const provider = this.getNodeParameter('provider', index) as string;
+  const target = this.getNodeParameter('target', index, 'single') as LeaseTarget;
   const sdl = this.getNodeParameter('sdl', index) as string;
+  const options = this.getNodeParameter('options', index, {}) as IProviderConnectionOptions;
 
-  const { parseSDL, sdlToManifest } = await import('../../helpers');
+  const parsedSdl = parseSDL(sdl);
+  const manifest = sdlToManifest(parsedSdl);
 
-  const consoleClient = await createConsoleApiClient(this);
   const cosmosClient = await createCosmosClient(this);
   const owner = cosmosClient.getWalletAddress();
+  await cosmosClient.disconnect();
 
-  const parsedSdl = parseSDL(sdl);
-  const manifest = sdlToManifest(parsedSdl);
+  // The manifest covers every group, so each leased provider receives it once
+  const orders = new Map<string, Array<{ gseq: number; oseq: number }>>();
+  if (target === 'deployment') {
+    for (const { gseq, oseq, provider } of await getLeaseIds.call(this, index, owner, dseq)) {
+      orders.set(provider, [...(orders.get(provider) || []), { gseq, oseq }]);
+    }
+  } else {
+    orders.set(this.getNodeParameter('provider', index) as string, []);
+  }
 
-  await consoleClient.sendManifest(owner, dseq, provider, manifest);
+  const results: INodeExecutionData[] = [];
+  for (const [provider, leases] of orders) {
+    if (options.transport === 'console') {
+      const consoleClient = await createConsoleApiClient(this);
+      await consoleClient.sendManifest(owner, dseq, provider, manifest);
+    } else {
+      const providerClient = await createProviderClient(
+        this,
+        provider,
+        getCertificateOverride(options),
+      );
+      await providerClient.sendManifest(dseq, manifest);
 
-  await cosmosClient.disconnect();
+      providerClient.disconnect();
+    }
 
-  return [
-    {
+    results.push({
       json: {
         success: true,
         dseq,
         provider,
+        ...(target === 'deployment' ? { leases } : {}),
+        transport: options.transport || 'provider',
         message: 'Manifest sent successfully',
       },
+    });
+  }
+
+  return results;
+}
+
+// Get Lease Logs
+export const logsDescription: INodeProperties[] = [
+  {
+    displayName: 'Deployment Sequence (dseq)',
+    name: 'dseq',
+    type: 'string',
+    required: true,
+    default: '',
+    displayOptions: {
+      show: {
+        resource: ['lease'],
+        operation: ['logs'],
+      },
     },
-  ];
+    description: 'The deployment sequence number',
+  },
+  leaseTargetField('logs'),
+  {
+    displayName: 'Group Sequence (gseq)',
+    name: 'gseq',
+    type: 'number',
+    default: 1,
+    displayOptions: {
+      show: {
+        resource: ['lease'],
+        operation: ['logs'],
+        target: ['single'],
+      },
+    },
+    description: 'The group sequence number',
+  },
+  {
+    displayName: 'Order Sequence (oseq)',
+    name: 'oseq',
+    type: 'number',
+    default: 1,
+    displayOptions: {
+      show: {
+        resource: ['lease'],
+        operation: ['logs'],
+        target: ['single'],
+      },
+    },
+    description: 'The order sequence number',
+  },
+  {
+    displayName: 'Provider Address',
+    name: 'provider',
+    type: 'string',
+    required: true,
+    default: '',
+    displayOptions: {
+      show: {
+        resource: ['lease'],
+        operation: ['logs'],
+        target: ['single'],
+      },
+    },
+    description: 'The provider address',
+  },
+  {
+    displayName: 'Options',
+    name: 'options',
+    type: 'collection',
+    placeholder: 'Add Option',
+    default: {},
+    displayOptions: {
+      show: {
+        resource: ['lease'],
+        operation: ['logs'],
+      },
+    },
+    options: [
+      {
+        displayName: 'Service Name',
+        name: 'service',
+        type: 'string',
+        default: '',
+        description: 'Filter logs by service name',
+      },
+      {
+        displayName: 'Tail Lines',
+        name: 'tail',
+        type: 'number',
+        default: 100,
+        description: 'Number of lines to return from the end',
+        typeOptions: {
+          minValue: 1,
+          maxValue: 10000,
+        },
+      },
+      ...providerConnectionOptions,
+    ],
+  },
+];
+
+export async function executeLogs(
+  this: IExecuteFunctions,
+  index: number,
+): Promise<INodeExecutionData[]> {
+  const dseq = this.getNodeParameter('dseq', index) as string;
+  const target = this.getNodeParameter('target', index, 'single') as LeaseTarget;
+  const options = this.getNodeParameter('options', index, {}) as IProviderConnectionOptions & {
+    service?: string;
+    tail?: number;
+  };
+
+  const cosmosClient = await createCosmosClient(this);
+  const owner = cosmosClient.getWalletAddress();
+
+  if (options.transport === 'console') {
+    const consoleClient = await createConsoleApiClient(this);
+
+    // The Console API serves logs for the whole deployment
+    const logs = await consoleClient.getDeploymentLogs(owner, dseq, {
+      service: options.service,
+      tail: options.tail,
+    });
+
+    await cosmosClient.disconnect();
+
+    return logs.map((log) => ({ json: log as any }));
+  }
+
+  const leaseIds = await getLeaseIds.call(this, index, owner, dseq);
+  await cosmosClient.disconnect();
+
+  const providerClients = new Map<string, ProviderClient>();
+  try {
+    const results: INodeExecutionData[] = [];
+    for (const { gseq, oseq, provider } of leaseIds) {
+      let providerClient = providerClients.get(provider);
+      if (!providerClient) {
+        providerClient = await createProviderClient(
+          this,
+          provider,
+          getCertificateOverride(options),
+        );
+        providerClients.set(provider, providerClient);
+      }
+      const logs = await providerClient.getLeaseLogs(dseq, gseq, oseq, {
+        service: options.service,
+        tail: options.tail,
+      });
+      for (const log of logs) {
+        results.push({
+          json: target === 'single' ? { ...log } : { gseq, oseq, provider, ...log },
+        });
+      }
+    }
+
+    return results;
+  } finally {
+    providerClients.forEach((client) => client.disconnect());
+  }
 }
 
 // Withdraw Lease Earnings (for providers)
@@ -495,6 +935,7 @@ export const withdrawDescription: INodeProperties[] = [
     },
     description: 'The deployment owner address',
   },
+  transactionOptions('lease', ['withdraw']),
 ];
 
 export async function executeWithdraw(
@@ -507,7 +948,13 @@ export async function executeWithdraw(
   const owner = this.getNodeParameter('owner', index) as string;
 
   const cosmosClient = await createCosmosClient(this);
-  const result = await cosmosClient.withdrawLease(dseq, gseq, oseq, owner);
+  const result = await cosmosClient.withdrawLease(
+    dseq,
+    gseq,
+    oseq,
+    owner,
+    getTransactionOptions.call(this, index),
+  );
 
   await cosmosClient.disconnect();
 
@@ -534,6 +981,7 @@ export const description: INodeProperties[] = [
   ...closeDescription,
   ...statusDescription,
   ...sendManifestDescription,
+  ...logsDescription,
   ...withdrawDescription,
 ];
 
@@ -553,6 +1001,8 @@ export async function execute(
       return executeStatus.call(this, index);
     case 'sendManifest':
       return executeSendManifest.call(this, index);
+    case 'logs':
+      return executeLogs.call(this, index);
     case 'withdraw':
       return executeWithdraw.call(this, index);
     default:
@@ -0,0 +1,193 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { IDataObject, IExecuteFunctions, INodeExecutionData, INodeProperties } from 'n8n-workflow';
+import { EncodeObject } from '@cosmjs/proto-signing';
+import { createCosmosClient, CosmosClient, UnsignedTransaction } from '../../transport';
+import { getFailedMessageIndex, groupEventsByMessage } from '../../helpers';
+import { ITendermintEvent, ITransactionResult } from '../../types';
+import { GAS_SETTINGS } from '../../constants';
+import { getTransactionOptions, maxBatchGasField, transactionOptions } from '../wallet/transaction';
+
+/**
+ * Batch Operation
+ *
+ * Sends the messages of all input items together, in as few transactions as the gas
+ * ceiling allows, instead of one transaction per item. Used by Transaction > Batch and
+ * by the Batch Items option of close, deposit and lease operations. Each item gets the
+ * result of its own message, read from the events of the transaction.
+ */
+
+/**
+ * Message of an item, with the fields that identify it in the output
+ */
+export interface IBatchItem {
+  message: EncodeObject;
+  json: IDataObject;
+}
+
+/**
+ * Build the messages of one item
+ */
+export type BatchMessageBuilder = (
+  this: IExecuteFunctions,
+  index: number,
+  cosmosClient: CosmosClient,
+) => Promise<IBatchItem[]>;
+
+export const description: INodeProperties[] = [
+  {
+    displayName: 'Message',
+    name: 'message',
+    type: 'json',
+    required: true,
+    default: '{\n  "typeUrl": "/akash.deployment.v1beta3.MsgCloseDeployment",\n  "value": {}\n}',
+    displayOptions: {
+      show: {
+        resource: ['transaction'],
+        operation: ['batch'],
+      },
+    },
+    description:
+      'Message of the item as {"typeUrl", "value"}, or an array of them. Values use the JSON names of the protobuf fields.',
+  },
+  maxBatchGasField({ resource: ['transaction'], operation: ['batch'] }),
+  transactionOptions('transaction', ['batch']),
+];
+
+/**
+ * Messages of an item of Transaction > Batch
+ */
+export async function batchMessages(this: IExecuteFunctions, index: number): Promise<IBatchItem[]> {
+  const parameter = this.getNodeParameter('message', index) as string | IDataObject | IDataObject[];
+
+  let parsed: unknown = parameter;
+  if (typeof parameter === 'string') {
+    try {
+      parsed = JSON.parse(parameter);
+    } catch {
+      throw new Error('Message must be valid JSON');
+    }
+  }
+
+  const messages = Array.isArray(parsed) ? parsed : [parsed];
+  return messages.map((message: IDataObject) => {
+    if (!message || typeof message.typeUrl !== 'string' || typeof message.value !== 'object') {
+      throw new Error('Each message needs a typeUrl and a value object');
+    }
+    return {
+      message: { typeUrl: message.typeUrl, value: message.value },
+      json: { typeUrl: message.typeUrl },
+    };
+  });
+}
+
+/**
+ * Send the messages of all input items in shared transactions
+ * Transaction options and the gas ceiling are read from the first item.
+ */
+export async function executeBatch(
+  this: IExecuteFunctions,
+  buildMessages: BatchMessageBuilder,
+): Promise<INodeExecutionData[]> {
+  const items = this.getInputData();
+  const txOptions = getTransactionOptions.call(this, 0);
+  const maxGas = this.getNodeParameter('maxBatchGas', 0, GAS_SETTINGS.batchGasCeiling) as number;
+
+  const cosmosClient = await createCosmosClient(this);
+  try {
+    const returnData: INodeExecutionData[] = [];
+    const batch: Array<IBatchItem & { item: number }> = [];
+
+    for (let i = 0; i < items.length; i++) {
+      try {
+        const built = await buildMessages.call(this, i, cosmosClient);
+        batch.push(...built.map((entry) => ({ ...entry, item: i })));
+      } catch (error) {
+        if (!this.continueOnFail()) {
+          throw error;
+        }
+        returnData.push({ json: { error: (error as Error).message }, pairedItem: { item: i } });
+      }
+    }
+    if (batch.length === 0) {
+      return returnData;
+    }
+
+    const chunks = await cosmosClient.chunkMessages(
+      batch.map((entry) => entry.message),
+      maxGas,
+      txOptions,
+    );
+
+    let offset = 0;
+    for (const chunk of chunks) {
+      const entries = batch.slice(offset, offset + chunk.length);
+      offset += chunk.length;
+
+      let result: ITransactionResult;
+      try {
+        result = await cosmosClient.broadcastMessages(
+          chunk,
+          'Batch via n8n-nodes-akash',
+          txOptions,
+        );
+      } catch (error) {
+        // With an external signer the output is the transaction to sign
+        if (error instanceof UnsignedTransaction) {
+          returnData.push({
+            json: error.transaction as unknown as IDataObject,
+            pairedItem: entries.map((entry) => ({ item: entry.item })),
+          });
+          continue;
+        }
+        if (!this.continueOnFail()) {
+          throw error;
+        }
+        returnData.push(
+          ...entries.map((entry) => ({
+            json: { ...entry.json, success: false, error: (error as Error).message },
+            pairedItem: { item: entry.item },
+          })),
+        );
+        continue;
+      }
+
+      // A failed transaction reverts all of its messages
+      const success = result.code === 0;
+      const failedMessage = success ? undefined : getFailedMessageIndex(result.rawLog);
+      const events = groupEventsByMessage(
+        (result.events || []) as unknown as ITendermintEvent[],
+        result.rawLog,
+        chunk.length,
+      );
+
+      entries.forEach((entry, messageIndex) => {
+        returnData.push({
+          json: {
+            ...entry.json,
+            success,
+            transactionHash: result.transactionHash,
+            height: result.height,
+            messageIndex,
+            messageCount: chunk.length,
+            gasUsed: result.gasUsed,
+            events: events[messageIndex] as unknown as IDataObject[],
+            ...(success
+              ? {}
+              : { failedMessage: messageIndex === failedMessage, rawLog: result.rawLog }),
+          },
+          pairedItem: { item: entry.item },
+        });
+      });
+    }
+
+    return returnData;
+  } finally {
+    await cosmosClient.disconnect();
+  }
+}
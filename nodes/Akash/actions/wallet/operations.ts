@@ -5,10 +5,34 @@
  * See LICENSE file for details.
  */
 
-import { IExecuteFunctions, INodeExecutionData, INodeProperties } from 'n8n-workflow';
-import { createCosmosClient } from '../../transport';
-import { aktToUakt, uaktToAkt, formatCoin } from '../../helpers';
-import { ICoin, IReward } from '../../types';
+import {
+	IDataObject,
+	IExecuteFunctions,
+	ILoadOptionsFunctions,
+	INodeExecutionData,
+	INodeProperties,
+	INodePropertyOptions,
+} from 'n8n-workflow';
+import { AkashRpcClient, CosmosClient, createCosmosClient } from '../../transport';
+import {
+	aktToUakt,
+	uaktToAkt,
+	formatCoin,
+	createAktCoin,
+	decodeTransaction,
+	deriveAddresses as deriveHdAddresses,
+	buildHdPath,
+	exportKeystore as encryptKeystore,
+} from '../../helpers';
+import {
+	FeeAllowanceType,
+	IAkashApiCredentials,
+	ICoin,
+	IFeeAllowance,
+	IReward,
+	ITransaction,
+} from '../../types';
+import { getTransactionOptions, transactionOptions } from './transaction';
 
 /**
  * Wallet Operations for Akash Network
@@ -18,8 +42,50 @@ import { ICoin, IReward } from '../../types';
  * - Send: Send AKT to another address
  * - Delegations: View staking delegations
  * - Rewards: View staking rewards
+ * - Transaction History: Decoded transactions sent or received by an address
+ * - Derive Addresses: Accounts of the credential mnemonic with their balances
+ * - Export Keystore: Encrypt the credential mnemonic for the Encrypted Keystore credential
+ * - Delegate / Undelegate / Redelegate / Withdraw Rewards / Set Withdraw Address: Stake AKT
+ * - Grant / Revoke / List Grants: Manage AuthZ grants to other wallets
+ * - Grant / Revoke / Get Fee Allowances: Pay the fees of other wallets (feegrant)
  */
 
+// Messages a hot wallet typically needs to deploy for a treasury wallet
+const authzMessageTypes = [
+	{
+		name: 'Close Deployment',
+		value: '/akash.deployment.v1beta3.MsgCloseDeployment',
+	},
+	{
+		name: 'Close Lease',
+		value: '/akash.market.v1beta4.MsgCloseLease',
+	},
+	{
+		name: 'Create Certificate',
+		value: '/akash.cert.v1beta3.MsgCreateCertificate',
+	},
+	{
+		name: 'Create Deployment',
+		value: '/akash.deployment.v1beta3.MsgCreateDeployment',
+	},
+	{
+		name: 'Create Lease',
+		value: '/akash.market.v1beta4.MsgCreateLease',
+	},
+	{
+		name: 'Deposit Deployment',
+		value: '/akash.deployment.v1beta3.MsgDepositDeployment',
+	},
+	{
+		name: 'Send Tokens',
+		value: '/cosmos.bank.v1beta1.MsgSend',
+	},
+	{
+		name: 'Update Deployment',
+		value: '/akash.deployment.v1beta3.MsgUpdateDeployment',
+	},
+];
+
 export const getBalanceDescription: INodeProperties[] = [
 	{
 		displayName: 'Address',
@@ -93,6 +159,7 @@ export const sendDescription: INodeProperties[] = [
 			},
 		],
 	},
+	transactionOptions('wallet', ['send']),
 ];
 
 export const getDelegationsDescription: INodeProperties[] = [
@@ -200,7 +267,13 @@ export async function send(
 	// Convert AKT to uAKT
 	const uaktAmount = aktToUakt(amount.toString());
 
-	const result = await cosmosClient.sendTokens(recipient, uaktAmount, 'uakt', options.memo);
+	const result = await cosmosClient.sendTokens(
+		recipient,
+		uaktAmount,
+		'uakt',
+		options.memo,
+		getTransactionOptions.call(this, index),
+	);
 
 	await cosmosClient.disconnect();
 
@@ -352,3 +425,1054 @@ export async function getEscrowBalances(
 		},
 	];
 }
+
+export const historyDescription: INodeProperties[] = [
+	{
+		displayName: 'Address',
+		name: 'address',
+		type: 'string',
+		default: '',
+		displayOptions: {
+			show: {
+				resource: ['wallet'],
+				operation: ['history'],
+			},
+		},
+		description: 'Wallet address to list transactions for. Leave empty to use connected wallet.',
+		placeholder: 'akash1...',
+	},
+	{
+		displayName: 'Filters',
+		name: 'filters',
+		type: 'collection',
+		placeholder: 'Add Filter',
+		default: {},
+		displayOptions: {
+			show: {
+				resource: ['wallet'],
+				operation: ['history'],
+			},
+		},
+		options: [
+			{
+				displayName: 'Direction',
+				name: 'direction',
+				type: 'options',
+				options: [
+					{
+						name: 'All',
+						value: 'all',
+						description: 'Transactions sent by or paying the address',
+					},
+					{
+						name: 'Sent',
+						value: 'sent',
+						description: 'Transactions signed by the address',
+					},
+					{
+						name: 'Received',
+						value: 'received',
+						description: 'Transactions that transferred tokens to the address',
+					},
+				],
+				default: 'all',
+			},
+			{
+				displayName: 'From Height',
+				name: 'minHeight',
+				type: 'number',
+				default: 0,
+				description: 'Only transactions at or after this block height',
+			},
+			{
+				displayName: 'To Height',
+				name: 'maxHeight',
+				type: 'number',
+				default: 0,
+				description: 'Only transactions at or before this block height',
+			},
+			{
+				displayName: 'From Date',
+				name: 'startDate',
+				type: 'dateTime',
+				default: '',
+				description: 'Only transactions at or after this time',
+			},
+			{
+				displayName: 'To Date',
+				name: 'endDate',
+				type: 'dateTime',
+				default: '',
+				description: 'Only transactions before this time',
+			},
+			{
+				displayName: 'Limit',
+				name: 'limit',
+				type: 'number',
+				default: 50,
+				description: 'Maximum number of transactions to return, newest first',
+				typeOptions: {
+					minValue: 1,
+				},
+			},
+		],
+	},
+];
+
+export async function getHistory(
+	this: IExecuteFunctions,
+	index: number,
+): Promise<INodeExecutionData[]> {
+	let address = (this.getNodeParameter('address', index, '') as string).trim();
+	const filters = this.getNodeParameter('filters', index, {}) as {
+		direction?: 'all' | 'sent' | 'received';
+		minHeight?: number;
+		maxHeight?: number;
+		startDate?: string;
+		endDate?: string;
+		limit?: number;
+	};
+
+	const cosmosClient = await createCosmosClient(this);
+	if (!address) {
+		address = cosmosClient.getWalletAddress();
+	}
+	const rpcClient = new AkashRpcClient(cosmosClient.getRpcEndpoint());
+	await cosmosClient.disconnect();
+
+	// tx_search only filters on height, so dates are converted to the heights around them
+	const conditions: string[] = [];
+	let minHeight = filters.minHeight || 0;
+	let maxHeight = filters.maxHeight || 0;
+	if (filters.startDate) {
+		minHeight = Math.max(minHeight, await rpcClient.getHeightAt(new Date(filters.startDate)));
+	}
+	if (filters.endDate) {
+		const endHeight = (await rpcClient.getHeightAt(new Date(filters.endDate))) - 1;
+		maxHeight = maxHeight ? Math.min(maxHeight, endHeight) : endHeight;
+	}
+	if (minHeight) conditions.push(`tx.height>=${minHeight}`);
+	if (maxHeight) conditions.push(`tx.height<=${maxHeight}`);
+	if (maxHeight && minHeight > maxHeight) {
+		return [];
+	}
+
+	const direction = filters.direction || 'all';
+	const queries: string[] = [];
+	if (direction !== 'received') queries.push(`message.sender='${address}'`);
+	if (direction !== 'sent') queries.push(`transfer.recipient='${address}'`);
+
+	const txs = await rpcClient.getTransactions(
+		queries.map((query) => [query, ...conditions].join(' AND ')),
+		filters.limit || 50,
+	);
+
+	const blockTimes = new Map<number, string>();
+	for (const height of new Set(txs.map((tx) => parseInt(tx.height, 10)))) {
+		(await rpcClient.getBlockTimes(height, height)).forEach((time, h) => blockTimes.set(h, time));
+	}
+
+	return txs.map((tx) => {
+		const time = blockTimes.get(parseInt(tx.height, 10));
+		const transaction: ITransaction = {
+			txhash: tx.hash,
+			height: tx.height,
+			timestamp: time ? new Date(time).toISOString() : '',
+			success: tx.tx_result.code === 0,
+			code: tx.tx_result.code,
+			gasWanted: tx.tx_result.gas_wanted,
+			gasUsed: tx.tx_result.gas_used,
+			...decodeTransaction(tx.tx),
+		};
+		if (tx.tx_result.code !== 0) {
+			transaction.rawLog = tx.tx_result.log;
+		}
+		return { json: transaction as unknown as IDataObject };
+	});
+}
+
+export const deriveAddressesDescription: INodeProperties[] = [
+	{
+		displayName: 'Count',
+		name: 'count',
+		type: 'number',
+		default: 5,
+		displayOptions: {
+			show: {
+				resource: ['wallet'],
+				operation: ['deriveAddresses'],
+			},
+		},
+		description: 'Number of addresses to derive',
+		typeOptions: {
+			minValue: 1,
+			maxValue: 100,
+		},
+	},
+	{
+		displayName: 'Start Index',
+		name: 'startIndex',
+		type: 'number',
+		default: 0,
+		displayOptions: {
+			show: {
+				resource: ['wallet'],
+				operation: ['deriveAddresses'],
+			},
+		},
+		description: 'Account index of the first address',
+		typeOptions: {
+			minValue: 0,
+		},
+	},
+];
+
+export async function deriveAddresses(
+	this: IExecuteFunctions,
+	index: number,
+): Promise<INodeExecutionData[]> {
+	const count = this.getNodeParameter('count', index, 5) as number;
+	const startIndex = this.getNodeParameter('startIndex', index, 0) as number;
+
+	const credentials = (await this.getCredentials('akashApi')) as IAkashApiCredentials;
+	if (!credentials.mnemonic || (credentials.authMethod || 'mnemonic') !== 'mnemonic') {
+		throw new Error('Derive Addresses needs credentials that use a mnemonic phrase');
+	}
+
+	const accounts = await deriveHdAddresses(
+		credentials.mnemonic,
+		startIndex,
+		count,
+		credentials.hdPath || undefined,
+	);
+
+	const cosmosClient = new CosmosClient(credentials, credentials.network || 'mainnet');
+	const selectedIndex = credentials.accountIndex || 0;
+
+	// One query client serves the balances of all addresses
+	const queryClient = await cosmosClient.getQueryClient();
+	const results: INodeExecutionData[] = [];
+	try {
+		for (const account of accounts) {
+			const coins = await queryClient.getAllBalances(account.address);
+			const balances: ICoin[] = coins.map((b) => ({ denom: b.denom, amount: b.amount }));
+			const uakt = balances.find((b) => b.denom === 'uakt');
+			results.push({
+				json: {
+					...account,
+					selected: account.index === selectedIndex,
+					akt: uaktToAkt(uakt?.amount || '0'),
+					balances: balances as unknown as IDataObject[],
+				},
+			});
+		}
+	} finally {
+		queryClient.disconnect();
+	}
+
+	return results;
+}
+
+export const exportKeystoreDescription: INodeProperties[] = [
+	{
+		displayName: 'Passphrase',
+		name: 'passphrase',
+		type: 'string',
+		typeOptions: {
+			password: true,
+		},
+		default: '',
+		required: true,
+		displayOptions: {
+			show: {
+				resource: ['wallet'],
+				operation: ['exportKeystore'],
+			},
+		},
+		description: 'Passphrase to encrypt the keystore with, at least 8 characters',
+	},
+];
+
+export async function exportKeystore(
+	this: IExecuteFunctions,
+	index: number,
+): Promise<INodeExecutionData[]> {
+	const passphrase = this.getNodeParameter('passphrase', index) as string;
+
+	const credentials = (await this.getCredentials('akashApi')) as IAkashApiCredentials;
+	if (!credentials.mnemonic || (credentials.authMethod || 'mnemonic') !== 'mnemonic') {
+		throw new Error('Export Keystore needs credentials that use a mnemonic phrase');
+	}
+
+	// The keystore holds the account the credentials sign with
+	const path = buildHdPath(credentials.accountIndex || 0, credentials.hdPath || undefined);
+	const { address, keystore } = await encryptKeystore(credentials.mnemonic, passphrase, path);
+
+	return [{ json: { address, path, keystore } }];
+}
+
+// Grant and revoke share the grantee and message type fields
+export const grantDescription: INodeProperties[] = [
+	{
+		displayName: 'Grantee Address',
+		name: 'grantee',
+		type: 'string',
+		default: '',
+		required: true,
+		displayOptions: {
+			show: {
+				resource: ['wallet'],
+				operation: ['grant', 'revoke'],
+			},
+		},
+		description: 'Wallet allowed to send messages on behalf of the connected wallet',
+		placeholder: 'akash1...',
+	},
+	{
+		displayName: 'Message Types',
+		name: 'messageTypes',
+		type: 'multiOptions',
+		options: authzMessageTypes,
+		default: [
+			'/akash.deployment.v1beta3.MsgCreateDeployment',
+			'/akash.deployment.v1beta3.MsgDepositDeployment',
+			'/akash.market.v1beta4.MsgCreateLease',
+		],
+		required: true,
+		displayOptions: {
+			show: {
+				resource: ['wallet'],
+				operation: ['grant', 'revoke'],
+			},
+		},
+		description: 'Messages the grantee may send. Each type is granted separately.',
+	},
+	{
+		displayName: 'Options',
+		name: 'options',
+		type: 'collection',
+		placeholder: 'Add Option',
+		default: {},
+		displayOptions: {
+			show: {
+				resource: ['wallet'],
+				operation: ['grant'],
+			},
+		},
+		options: [
+			{
+				displayName: 'Expiration',
+				name: 'expiration',
+				type: 'dateTime',
+				default: '',
+				description: 'When the grant expires. Leave empty for a grant that never expires.',
+			},
+		],
+	},
+	transactionOptions('wallet', ['grant', 'revoke']),
+];
+
+export const listGrantsDescription: INodeProperties[] = [
+	{
+		displayName: 'Direction',
+		name: 'direction',
+		type: 'options',
+		options: [
+			{
+				name: 'Given',
+				value: 'granter',
+				description: 'Grants the address gave to other wallets',
+			},
+			{
+				name: 'Received',
+				value: 'grantee',
+				description: 'Grants other wallets gave to the address',
+			},
+		],
+		default: 'granter',
+		displayOptions: {
+			show: {
+				resource: ['wallet'],
+				operation: ['listGrants'],
+			},
+		},
+		description: 'Which grants of the address to list',
+	},
+	{
+		displayName: 'Address',
+		name: 'address',
+		type: 'string',
+		default: '',
+		displayOptions: {
+			show: {
+				resource: ['wallet'],
+				operation: ['listGrants'],
+			},
+		},
+		description: 'Wallet address to list grants for. Leave empty to use connected wallet.',
+		placeholder: 'akash1...',
+	},
+];
+
+export async function grant(
+	this: IExecuteFunctions,
+	index: number,
+): Promise<INodeExecutionData[]> {
+	const grantee = this.getNodeParameter('grantee', index) as string;
+	const messageTypes = this.getNodeParameter('messageTypes', index, []) as string[];
+	const options = this.getNodeParameter('options', index, {}) as {
+		expiration?: string;
+	};
+
+	if (!grantee.startsWith('akash1')) {
+		throw new Error('Invalid grantee address. Must start with akash1');
+	}
+	if (messageTypes.length === 0) {
+		throw new Error('Select at least one message type to grant');
+	}
+
+	const expiration = options.expiration ? new Date(options.expiration) : undefined;
+	if (expiration && (isNaN(expiration.getTime()) || expiration.getTime() <= Date.now())) {
+		throw new Error('Grant expiration must be a date in the future');
+	}
+
+	const cosmosClient = await createCosmosClient(this);
+	const txOptions = getTransactionOptions.call(this, index);
+
+	const result = await cosmosClient.grantAuthorization(
+		grantee,
+		messageTypes,
+		expiration,
+		txOptions,
+	);
+
+	await cosmosClient.disconnect();
+
+	return [
+		{
+			json: {
+				success: result.code === 0,
+				transactionHash: result.transactionHash,
+				granter: cosmosClient.getOwnerAddress(txOptions),
+				grantee,
+				messageTypes,
+				expiration: expiration?.toISOString() || null,
+				height: result.height,
+				gasUsed: result.gasUsed,
+			},
+		},
+	];
+}
+
+export async function revoke(
+	this: IExecuteFunctions,
+	index: number,
+): Promise<INodeExecutionData[]> {
+	const grantee = this.getNodeParameter('grantee', index) as string;
+	const messageTypes = this.getNodeParameter('messageTypes', index, []) as string[];
+
+	if (messageTypes.length === 0) {
+		throw new Error('Select at least one message type to revoke');
+	}
+
+	const cosmosClient = await createCosmosClient(this);
+	const txOptions = getTransactionOptions.call(this, index);
+
+	const result = await cosmosClient.revokeAuthorization(grantee, messageTypes, txOptions);
+
+	await cosmosClient.disconnect();
+
+	return [
+		{
+			json: {
+				success: result.code === 0,
+				transactionHash: result.transactionHash,
+				granter: cosmosClient.getOwnerAddress(txOptions),
+				grantee,
+				messageTypes,
+				height: result.height,
+				gasUsed: result.gasUsed,
+			},
+		},
+	];
+}
+
+export async function listGrants(
+	this: IExecuteFunctions,
+	index: number,
+): Promise<INodeExecutionData[]> {
+	const direction = this.getNodeParameter('direction', index, 'granter') as string;
+	let address = this.getNodeParameter('address', index, '') as string;
+
+	const cosmosClient = await createCosmosClient(this);
+
+	if (!address) {
+		address = cosmosClient.getWalletAddress();
+	}
+
+	const grants =
+		direction === 'grantee'
+			? await cosmosClient.getGrants(undefined, address)
+			: await cosmosClient.getGrants(address);
+
+	await cosmosClient.disconnect();
+
+	return grants.map((g) => ({ json: { ...g } }));
+}
+
+// Grant and revoke share the grantee field
+export const grantAllowanceDescription: INodeProperties[] = [
+	{
+		displayName: 'Grantee Address',
+		name: 'grantee',
+		type: 'string',
+		default: '',
+		required: true,
+		displayOptions: {
+			show: {
+				resource: ['wallet'],
+				operation: ['grantAllowance', 'revokeAllowance'],
+			},
+		},
+		description: 'Wallet whose transaction fees the connected wallet pays',
+		placeholder: 'akash1...',
+	},
+	{
+		displayName: 'Allowance Type',
+		name: 'allowanceType',
+		type: 'options',
+		options: [
+			{
+				name: 'Basic',
+				value: 'basic',
+				description: 'One spend limit for the lifetime of the allowance',
+			},
+			{
+				name: 'Periodic',
+				value: 'periodic',
+				description: 'A spend limit that resets every period, within an optional total limit',
+			},
+		],
+		default: 'basic',
+		displayOptions: {
+			show: {
+				resource: ['wallet'],
+				operation: ['grantAllowance'],
+			},
+		},
+		description: 'Kind of fee allowance to grant',
+	},
+	{
+		displayName: 'Spend Limit (AKT)',
+		name: 'spendLimit',
+		type: 'number',
+		default: 0,
+		displayOptions: {
+			show: {
+				resource: ['wallet'],
+				operation: ['grantAllowance'],
+			},
+		},
+		description: 'Total AKT the grantee may spend on fees. 0 means no limit.',
+		typeOptions: {
+			minValue: 0,
+			numberPrecision: 6,
+		},
+	},
+	{
+		displayName: 'Period (Hours)',
+		name: 'period',
+		type: 'number',
+		default: 24,
+		displayOptions: {
+			show: {
+				resource: ['wallet'],
+				operation: ['grantAllowance'],
+				allowanceType: ['periodic'],
+			},
+		},
+		description: 'How often the period spend limit resets',
+		typeOptions: {
+			minValue: 1,
+		},
+	},
+	{
+		displayName: 'Period Spend Limit (AKT)',
+		name: 'periodSpendLimit',
+		type: 'number',
+		default: 1,
+		displayOptions: {
+			show: {
+				resource: ['wallet'],
+				operation: ['grantAllowance'],
+				allowanceType: ['periodic'],
+			},
+		},
+		description: 'AKT the grantee may spend on fees in each period',
+		typeOptions: {
+			minValue: 0,
+			numberPrecision: 6,
+		},
+	},
+	{
+		displayName: 'Options',
+		name: 'options',
+		type: 'collection',
+		placeholder: 'Add Option',
+		default: {},
+		displayOptions: {
+			show: {
+				resource: ['wallet'],
+				operation: ['grantAllowance'],
+			},
+		},
+		options: [
+			{
+				displayName: 'Expiration',
+				name: 'expiration',
+				type: 'dateTime',
+				default: '',
+				description: 'When the allowance expires. Leave empty for an allowance that never expires.',
+			},
+		],
+	},
+	transactionOptions('wallet', ['grantAllowance', 'revokeAllowance']),
+];
+
+export const getAllowancesDescription: INodeProperties[] = [
+	{
+		displayName: 'Grantee Address',
+		name: 'address',
+		type: 'string',
+		default: '',
+		displayOptions: {
+			show: {
+				resource: ['wallet'],
+				operation: ['allowances'],
+			},
+		},
+		description: 'Wallet to list fee allowances for. Leave empty to use connected wallet.',
+		placeholder: 'akash1...',
+	},
+	{
+		displayName: 'Granter Address',
+		name: 'granter',
+		type: 'string',
+		default: '',
+		displayOptions: {
+			show: {
+				resource: ['wallet'],
+				operation: ['allowances'],
+			},
+		},
+		description: 'Only return the allowance given by this wallet',
+		placeholder: 'akash1...',
+	},
+];
+
+export async function grantAllowance(
+	this: IExecuteFunctions,
+	index: number,
+): Promise<INodeExecutionData[]> {
+	const grantee = this.getNodeParameter('grantee', index) as string;
+	const type = this.getNodeParameter('allowanceType', index, 'basic') as FeeAllowanceType;
+	const spendLimit = this.getNodeParameter('spendLimit', index, 0) as number;
+	const options = this.getNodeParameter('options', index, {}) as {
+		expiration?: string;
+	};
+
+	if (!grantee.startsWith('akash1')) {
+		throw new Error('Invalid grantee address. Must start with akash1');
+	}
+
+	const expiration = options.expiration ? new Date(options.expiration) : undefined;
+	if (expiration && (isNaN(expiration.getTime()) || expiration.getTime() <= Date.now())) {
+		throw new Error('Allowance expiration must be a date in the future');
+	}
+
+	let period: number | undefined;
+	let periodSpendLimit: ICoin[] | undefined;
+	if (type === 'periodic') {
+		period = (this.getNodeParameter('period', index, 24) as number) * 3600;
+		const periodLimit = this.getNodeParameter('periodSpendLimit', index, 1) as number;
+		if (spendLimit > 0 && periodLimit > spendLimit) {
+			throw new Error('Period spend limit cannot exceed the total spend limit');
+		}
+		periodSpendLimit = [createAktCoin(periodLimit)];
+	}
+
+	const cosmosClient = await createCosmosClient(this);
+
+	const { result, allowance } = await cosmosClient.grantAllowance(
+		grantee,
+		{
+			type,
+			spendLimit: spendLimit > 0 ? [createAktCoin(spendLimit)] : [],
+			expiration,
+			period,
+			periodSpendLimit,
+		},
+		getTransactionOptions.call(this, index),
+	);
+
+	await cosmosClient.disconnect();
+
+	return [
+		{
+			json: {
+				success: result.code === 0,
+				transactionHash: result.transactionHash,
+				height: result.height,
+				gasUsed: result.gasUsed,
+				allowance: formatAllowance(allowance),
+			},
+		},
+	];
+}
+
+export async function revokeAllowance(
+	this: IExecuteFunctions,
+	index: number,
+): Promise<INodeExecutionData[]> {
+	const grantee = this.getNodeParameter('grantee', index) as string;
+
+	const cosmosClient = await createCosmosClient(this);
+	const txOptions = getTransactionOptions.call(this, index);
+	const granter = cosmosClient.getOwnerAddress(txOptions);
+
+	// Read the allowance first so the output shows what was revoked
+	const allowance = await cosmosClient.getAllowance(granter, grantee);
+	if (!allowance) {
+		await cosmosClient.disconnect();
+		throw new Error(`No fee allowance from ${granter} to ${grantee}`);
+	}
+
+	const result = await cosmosClient.revokeAllowance(grantee, txOptions);
+
+	await cosmosClient.disconnect();
+
+	return [
+		{
+			json: {
+				success: result.code === 0,
+				transactionHash: result.transactionHash,
+				height: result.height,
+				gasUsed: result.gasUsed,
+				allowance: formatAllowance(allowance),
+			},
+		},
+	];
+}
+
+export async function getAllowances(
+	this: IExecuteFunctions,
+	index: number,
+): Promise<INodeExecutionData[]> {
+	let grantee = this.getNodeParameter('address', index, '') as string;
+	const granter = this.getNodeParameter('granter', index, '') as string;
+
+	const cosmosClient = await createCosmosClient(this);
+
+	if (!grantee) {
+		grantee = cosmosClient.getWalletAddress();
+	}
+
+	let allowances: IFeeAllowance[];
+	if (granter) {
+		const allowance = await cosmosClient.getAllowance(granter, grantee);
+		allowances = allowance ? [allowance] : [];
+	} else {
+		allowances = await cosmosClient.getAllowances(grantee);
+	}
+
+	await cosmosClient.disconnect();
+
+	return allowances.map((allowance) => ({ json: formatAllowance(allowance) }));
+}
+
+/**
+ * Add AKT amounts for the uakt spend limits of an allowance
+ * A null spend limit means the allowance has no limit in AKT.
+ */
+function formatAllowance(allowance: IFeeAllowance): IDataObject {
+	const toAkt = (coins?: ICoin[]) => {
+		const uakt = coins?.find((c) => c.denom === 'uakt');
+		return uakt ? uaktToAkt(uakt.amount) : null;
+	};
+
+	const formatted = { ...allowance, spendLimitAkt: toAkt(allowance.spendLimit) } as IDataObject;
+	if (allowance.type === 'periodic') {
+		formatted.periodSpendLimitAkt = toAkt(allowance.periodSpendLimit);
+		formatted.periodCanSpendAkt = toAkt(allowance.periodCanSpend);
+	}
+	return formatted;
+}
+
+export const stakingDescription: INodeProperties[] = [
+	{
+		displayName: 'Validator Name or ID',
+		name: 'validator',
+		type: 'options',
+		typeOptions: {
+			loadOptionsMethod: 'getValidators',
+		},
+		default: '',
+		required: true,
+		displayOptions: {
+			show: {
+				resource: ['wallet'],
+				operation: ['delegate', 'undelegate', 'redelegate'],
+			},
+		},
+		description:
+			'Validator to delegate to, undelegate from or move the delegation from. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+	},
+	{
+		displayName: 'Destination Validator Name or ID',
+		name: 'destinationValidator',
+		type: 'options',
+		typeOptions: {
+			loadOptionsMethod: 'getValidators',
+		},
+		default: '',
+		required: true,
+		displayOptions: {
+			show: {
+				resource: ['wallet'],
+				operation: ['redelegate'],
+			},
+		},
+		description:
+			'Validator to move the delegation to. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+	},
+	{
+		displayName: 'Amount (AKT)',
+		name: 'amount',
+		type: 'number',
+		default: 0,
+		required: true,
+		displayOptions: {
+			show: {
+				resource: ['wallet'],
+				operation: ['delegate', 'undelegate', 'redelegate'],
+			},
+		},
+		description: 'Amount of AKT to delegate, undelegate or redelegate',
+		typeOptions: {
+			minValue: 0.000001,
+			numberPrecision: 6,
+		},
+	},
+	{
+		displayName: 'Withdraw Address',
+		name: 'withdrawAddress',
+		type: 'string',
+		default: '',
+		required: true,
+		displayOptions: {
+			show: {
+				resource: ['wallet'],
+				operation: ['setWithdrawAddress'],
+			},
+		},
+		description: 'Address staking rewards are paid to',
+		placeholder: 'akash1...',
+	},
+	transactionOptions('wallet', [
+		'delegate',
+		'undelegate',
+		'redelegate',
+		'withdrawRewards',
+		'setWithdrawAddress',
+	]),
+];
+
+export async function delegate(
+	this: IExecuteFunctions,
+	index: number,
+): Promise<INodeExecutionData[]> {
+	const validator = getValidatorParameter.call(this, 'validator', index);
+	const amount = this.getNodeParameter('amount', index) as number;
+
+	const cosmosClient = await createCosmosClient(this);
+	const txOptions = getTransactionOptions.call(this, index);
+	const uaktAmount = aktToUakt(amount.toString());
+
+	const result = await cosmosClient.delegate(validator, uaktAmount, txOptions);
+
+	await cosmosClient.disconnect();
+
+	return [
+		{
+			json: {
+				success: result.code === 0,
+				transactionHash: result.transactionHash,
+				delegator: cosmosClient.getOwnerAddress(txOptions),
+				validator,
+				amount: `${amount} AKT`,
+				amountUakt: uaktAmount,
+				height: result.height,
+				gasUsed: result.gasUsed,
+			},
+		},
+	];
+}
+
+export async function undelegate(
+	this: IExecuteFunctions,
+	index: number,
+): Promise<INodeExecutionData[]> {
+	const validator = getValidatorParameter.call(this, 'validator', index);
+	const amount = this.getNodeParameter('amount', index) as number;
+
+	const cosmosClient = await createCosmosClient(this);
+	const txOptions = getTransactionOptions.call(this, index);
+	const uaktAmount = aktToUakt(amount.toString());
+
+	const result = await cosmosClient.undelegate(validator, uaktAmount, txOptions);
+
+	await cosmosClient.disconnect();
+
+	return [
+		{
+			json: {
+				success: result.code === 0,
+				transactionHash: result.transactionHash,
+				delegator: cosmosClient.getOwnerAddress(txOptions),
+				validator,
+				amount: `${amount} AKT`,
+				amountUakt: uaktAmount,
+				height: result.height,
+				gasUsed: result.gasUsed,
+			},
+		},
+	];
+}
+
+export async function redelegate(
+	this: IExecuteFunctions,
+	index: number,
+): Promise<INodeExecutionData[]> {
+	const sourceValidator = getValidatorParameter.call(this, 'validator', index);
+	const destinationValidator = getValidatorParameter.call(this, 'destinationValidator', index);
+	const amount = this.getNodeParameter('amount', index) as number;
+
+	if (sourceValidator === destinationValidator) {
+		throw new Error('Source and destination validator must differ');
+	}
+
+	const cosmosClient = await createCosmosClient(this);
+	const txOptions = getTransactionOptions.call(this, index);
+	const uaktAmount = aktToUakt(amount.toString());
+
+	const result = await cosmosClient.redelegate(
+		sourceValidator,
+		destinationValidator,
+		uaktAmount,
+		txOptions,
+	);
+
+	await cosmosClient.disconnect();
+
+	return [
+		{
+			json: {
+				success: result.code === 0,
+				transactionHash: result.transactionHash,
+				delegator: cosmosClient.getOwnerAddress(txOptions),
+				sourceValidator,
+				destinationValidator,
+				amount: `${amount} AKT`,
+				amountUakt: uaktAmount,
+				height: result.height,
+				gasUsed: result.gasUsed,
+			},
+		},
+	];
+}
+
+export async function withdrawRewards(
+	this: IExecuteFunctions,
+	index: number,
+): Promise<INodeExecutionData[]> {
+	const cosmosClient = await createCosmosClient(this);
+	const txOptions = getTransactionOptions.call(this, index);
+
+	const { result, validators } = await cosmosClient.withdrawAllRewards(txOptions);
+
+	await cosmosClient.disconnect();
+
+	return [
+		{
+			json: {
+				success: result.code === 0,
+				transactionHash: result.transactionHash,
+				delegator: cosmosClient.getOwnerAddress(txOptions),
+				validators,
+				height: result.height,
+				gasUsed: result.gasUsed,
+			},
+		},
+	];
+}
+
+export async function setWithdrawAddress(
+	this: IExecuteFunctions,
+	index: number,
+): Promise<INodeExecutionData[]> {
+	const withdrawAddress = this.getNodeParameter('withdrawAddress', index) as string;
+
+	if (!withdrawAddress.startsWith('akash1')) {
+		throw new Error('Invalid withdraw address. Must start with akash1');
+	}
+
+	const cosmosClient = await createCosmosClient(this);
+	const txOptions = getTransactionOptions.call(this, index);
+
+	const result = await cosmosClient.setWithdrawAddress(withdrawAddress, txOptions);
+
+	await cosmosClient.disconnect();
+
+	return [
+		{
+			json: {
+				success: result.code === 0,
+				transactionHash: result.transactionHash,
+				delegator: cosmosClient.getOwnerAddress(txOptions),
+				withdrawAddress,
+				height: result.height,
+				gasUsed: result.gasUsed,
+			},
+		},
+	];
+}
+
+/**
+ * Active validators for the validator dropdowns
+ * Named with commission and voting power, most voting power first.
+ */
+export async function getValidatorOptions(
+	this: ILoadOptionsFunctions,
+): Promise<INodePropertyOptions[]> {
+	const cosmosClient = await createCosmosClient(this);
+	const validators = await cosmosClient.getValidators();
+	await cosmosClient.disconnect();
+
+	return validators.map((v) => ({
+		name: `${v.moniker} (${formatPercent(v.commission)} commission, ${formatPercent(v.votingPower)} voting power)`,
+		value: v.operatorAddress,
+		description: v.operatorAddress,
+	}));
+}
+
+function getValidatorParameter(this: IExecuteFunctions, name: string, index: number): string {
+	const validator = (this.getNodeParameter(name, index) as string).trim();
+	if (!validator.startsWith('akashvaloper1')) {
+		throw new Error(`Invalid validator address ${validator}. Must start with akashvaloper1`);
+	}
+	return validator;
+}
+
+function formatPercent(fraction: number): string {
+	return `${Math.round(fraction * 10000) / 100}%`;
+}
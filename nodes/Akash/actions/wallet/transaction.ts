@@ -0,0 +1,181 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { IExecuteFunctions, INodeProperties } from 'n8n-workflow';
+import { ITxOptions } from '../../types';
+import { GAS_SETTINGS, TOKEN_DENOMINATIONS } from '../../constants';
+
+/**
+ * Transaction Options
+ *
+ * Fee, gas and memo fields shared by every operation that signs a transaction.
+ * A fee granter lets a treasury wallet pay the fees of many deployer wallets, and an
+ * AuthZ granter lets a hot wallet deploy for a treasury that keeps the funds.
+ */
+
+/**
+ * Transaction options collection for the given operations of a resource
+ */
+export function transactionOptions(resource: string, operations: string[]): INodeProperties {
+	return {
+		displayName: 'Transaction Options',
+		name: 'transactionOptions',
+		type: 'collection',
+		placeholder: 'Add Option',
+		default: {},
+		displayOptions: {
+			show: {
+				resource: [resource],
+				operation: operations,
+			},
+		},
+		options: [
+			{
+				displayName: 'Act as Granter',
+				name: 'authzGranter',
+				type: 'string',
+				default: '',
+				description:
+					'Wallet that granted the connected wallet AuthZ permission. Messages are sent through MsgExec and owned by this wallet.',
+				placeholder: 'akash1...',
+			},
+			{
+				displayName: 'Fee Denomination',
+				name: 'feeDenom',
+				type: 'options',
+				options: [
+					{
+						name: 'AKT',
+						value: TOKEN_DENOMINATIONS.uakt,
+					},
+					{
+						name: 'USDC',
+						value: TOKEN_DENOMINATIONS.usdc,
+					},
+				],
+				default: TOKEN_DENOMINATIONS.uakt,
+				description: 'Token the transaction fee is paid in',
+			},
+			{
+				displayName: 'Fee Granter',
+				name: 'feeGranter',
+				type: 'string',
+				default: '',
+				description:
+					'Address paying the fee through a feegrant allowance given to the connected wallet',
+				placeholder: 'akash1...',
+			},
+			{
+				displayName: 'Fee Payer',
+				name: 'feePayer',
+				type: 'string',
+				default: '',
+				description: 'Address paying the fee. The payer must also sign the transaction.',
+				placeholder: 'akash1...',
+			},
+			{
+				displayName: 'Gas Limit',
+				name: 'gasLimit',
+				type: 'number',
+				default: 0,
+				description: 'Gas limit of the transaction. 0 simulates the transaction to estimate it.',
+				typeOptions: {
+					minValue: 0,
+				},
+			},
+			{
+				displayName: 'Gas Multiplier',
+				name: 'gasMultiplier',
+				type: 'number',
+				default: GAS_SETTINGS.gasMultiplier,
+				description: 'Factor applied to the simulated gas when no gas limit is set',
+				typeOptions: {
+					minValue: 1,
+					numberPrecision: 2,
+				},
+			},
+			{
+				displayName: 'Gas Price',
+				name: 'gasPrice',
+				type: 'number',
+				default: parseFloat(GAS_SETTINGS.defaultGasPrice),
+				description: 'Price per unit of gas in the base unit of the fee denomination',
+				typeOptions: {
+					minValue: 0,
+					numberPrecision: 6,
+				},
+			},
+			{
+				displayName: 'Memo',
+				name: 'memo',
+				type: 'string',
+				default: '',
+				description: 'Memo attached to the transaction',
+			},
+		],
+	};
+}
+
+/**
+ * Fields batching the messages of all items into shared transactions
+ */
+export function batchOptions(resource: string, operations: string[]): INodeProperties[] {
+	return [
+		{
+			displayName: 'Batch Items',
+			name: 'batch',
+			type: 'boolean',
+			default: false,
+			displayOptions: {
+				show: {
+					resource: [resource],
+					operation: operations,
+				},
+			},
+			description:
+				'Whether to send the messages of all items in as few transactions as possible instead of one transaction per item. Transaction options are read from the first item.',
+		},
+		maxBatchGasField({ resource: [resource], operation: operations, batch: [true] }),
+	];
+}
+
+/**
+ * Gas ceiling of the transactions a batch is split into
+ */
+export function maxBatchGasField(show: Record<string, Array<string | boolean>>): INodeProperties {
+	return {
+		displayName: 'Max Gas per Transaction',
+		name: 'maxBatchGas',
+		type: 'number',
+		default: GAS_SETTINGS.batchGasCeiling,
+		displayOptions: {
+			show,
+		},
+		description:
+			'Messages are split over several transactions when their estimated gas would exceed this',
+		typeOptions: {
+			minValue: 100000,
+		},
+	};
+}
+
+/**
+ * Read the transaction options of an item
+ */
+export function getTransactionOptions(this: IExecuteFunctions, index: number): ITxOptions {
+	const options = this.getNodeParameter('transactionOptions', index, {}) as ITxOptions;
+	return {
+		gasLimit: options.gasLimit || undefined,
+		gasMultiplier: options.gasMultiplier || undefined,
+		gasPrice: options.gasPrice,
+		feeDenom: options.feeDenom || undefined,
+		memo: options.memo || undefined,
+		feeGranter: options.feeGranter?.trim() || undefined,
+		feePayer: options.feePayer?.trim() || undefined,
+		authzGranter: options.authzGranter?.trim() || undefined,
+	};
+}
@@ -45,8 +45,14 @@ export const GAS_SETTINGS = {
   defaultGasPrice: '0.025uakt',
   gasMultiplier: 1.3,
   simulationGasMultiplier: 1.5,
+  batchGasCeiling: 3000000,
 } as const;
 
+/**
+ * Cosmos derivation path for mnemonic wallets; `{index}` is the account index
+ */
+export const DEFAULT_HD_PATH = "m/44'/118'/0'/0/{index}";
+
 /**
  * Token denominations
  */
@@ -62,6 +68,12 @@ export const TOKEN_DENOMINATIONS = {
 export const AKT_DECIMALS = 6;
 export const UAKT_PER_AKT = 1_000_000;
 
+/**
+ * Average block time in seconds, as observed on mainnet
+ * Used to convert per-block prices into hourly burn and escrow runway
+ */
+export const AVERAGE_BLOCK_TIME_SECONDS = 6.1;
+
 /**
  * Console API version
  */
@@ -0,0 +1,318 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import {
+  IBid,
+  IBidSelectionOptions,
+  IBidSelectionWeights,
+  IProvider,
+  IRankedBid,
+  ISDLManifest,
+} from '../types';
+import { AUDITORS, PROVIDER_ATTRIBUTES, TOKEN_DENOMINATIONS } from '../constants';
+
+/**
+ * Bid Selector Helper
+ *
+ * Ranks provider bids with a configurable strategy and records why each bid
+ * landed where it did, so workflows can show the reasoning behind a lease.
+ */
+
+const DEFAULT_WEIGHTS: IBidSelectionWeights = {
+  price: 0.4,
+  uptime: 0.3,
+  audit: 0.2,
+  gpu: 0.1,
+};
+
+interface IBidFacts {
+  price: number;
+  uptime?: number;
+  auditedBy: string[];
+  region?: string;
+  gpuMatch?: boolean;
+}
+
+/**
+ * Rank bids according to a selection strategy
+ * @param bids - Bids received for an order
+ * @param providers - Provider records used for uptime, audit, region and GPU data
+ * @param options - Strategy and filters
+ * @returns All bids, eligible ones first in rank order, each with its score and reasons
+ */
+export function rankBids(
+  bids: IBid[],
+  providers: IProvider[],
+  options: IBidSelectionOptions = {},
+): IRankedBid[] {
+  const strategy = options.strategy || 'cheapest';
+  const providerMap = new Map(providers.map((p) => [p.owner, p]));
+  const auditors = options.auditors || getAuditorAddresses();
+  const gpuModels = (options.gpuModels || []).map((m) => m.toLowerCase());
+  const region = options.region?.toLowerCase();
+  const maxPriceDenom = options.maxPriceDenom || TOKEN_DENOMINATIONS.uakt;
+
+  const entries = bids.map((bid) => {
+    const provider = providerMap.get(bid.bidId.provider);
+    const facts: IBidFacts = {
+      price: parseBidPrice(bid),
+      uptime: getProviderUptime(provider),
+      auditedBy: getProviderAuditors(provider, auditors),
+      region: getProviderRegion(provider),
+      gpuMatch: gpuModels.length > 0 ? providerHasGpu(provider, gpuModels) : undefined,
+    };
+    return { bid, facts, reasons: [] as string[], eligible: true };
+  });
+
+  // Eligibility filters
+  for (const entry of entries) {
+    const { bid, facts, reasons } = entry;
+    if (bid.state && bid.state !== 'open') {
+      entry.eligible = false;
+      reasons.push(`excluded: bid is ${bid.state}`);
+    }
+    if (options.maxPrice && options.maxPrice > 0) {
+      if (bid.price.denom !== maxPriceDenom) {
+        entry.eligible = false;
+        reasons.push(`excluded: priced in ${bid.price.denom}, max price is in ${maxPriceDenom}`);
+      } else if (facts.price > options.maxPrice) {
+        entry.eligible = false;
+        reasons.push(`excluded: price ${formatPrice(facts.price)} above max ${options.maxPrice}`);
+      }
+    }
+    if (strategy === 'audited' && facts.auditedBy.length === 0) {
+      entry.eligible = false;
+      reasons.push('excluded: provider not audited by a trusted auditor');
+    }
+  }
+
+  const eligiblePrices = entries.filter((e) => e.eligible).map((e) => e.facts.price);
+  const minPrice = eligiblePrices.length > 0 ? Math.min(...eligiblePrices) : 0;
+
+  const weights = normalizeWeights({
+    price: options.weights?.price ?? DEFAULT_WEIGHTS.price,
+    uptime: options.weights?.uptime ?? DEFAULT_WEIGHTS.uptime,
+    audit: options.weights?.audit ?? DEFAULT_WEIGHTS.audit,
+    gpu: options.weights?.gpu ?? DEFAULT_WEIGHTS.gpu,
+  });
+
+  const scored = entries.map((entry) => {
+    const { facts, reasons } = entry;
+    const priceScore = facts.price > 0 ? minPrice / facts.price : 1;
+    const uptimeScore = facts.uptime ?? 0;
+    const auditScore = facts.auditedBy.length > 0 ? 1 : 0;
+    const gpuScore = facts.gpuMatch === undefined ? 1 : facts.gpuMatch ? 1 : 0;
+    const regionMatch = region !== undefined && facts.region === region;
+
+    reasons.push(`price ${formatPrice(facts.price)} ${entry.bid.price.denom}/block`);
+    reasons.push(
+      facts.uptime === undefined ? 'uptime unknown' : `uptime ${(facts.uptime * 100).toFixed(2)}%`,
+    );
+    reasons.push(
+      facts.auditedBy.length > 0 ? `audited by ${facts.auditedBy.join(', ')}` : 'not audited',
+    );
+    if (region !== undefined) {
+      reasons.push(
+        regionMatch
+          ? `region ${facts.region} matches`
+          : `region ${facts.region || 'unknown'} does not match ${region}`,
+      );
+    }
+    if (facts.gpuMatch !== undefined) {
+      reasons.push(
+        facts.gpuMatch ? 'requested GPU model offered' : 'requested GPU model not offered',
+      );
+    }
+
+    let score: number;
+    switch (strategy) {
+      case 'uptime':
+        score = uptimeScore;
+        break;
+      case 'region':
+        score = ((regionMatch ? 1 : 0) + priceScore) / 2;
+        break;
+      case 'weighted':
+        score =
+          weights.price * priceScore +
+          weights.uptime * uptimeScore +
+          weights.audit * auditScore +
+          weights.gpu * gpuScore;
+        break;
+      case 'audited':
+      case 'cheapest':
+      default:
+        score = priceScore;
+        break;
+    }
+
+    return { ...entry, score: entry.eligible ? roundScore(score) : 0 };
+  });
+
+  scored.sort((a, b) => {
+    if (a.eligible !== b.eligible) {
+      return a.eligible ? -1 : 1;
+    }
+    if (options.preferredProvider) {
+      const aPreferred = a.bid.bidId.provider === options.preferredProvider;
+      const bPreferred = b.bid.bidId.provider === options.preferredProvider;
+      if (aPreferred !== bPreferred) {
+        return aPreferred ? -1 : 1;
+      }
+    }
+    if (b.score !== a.score) {
+      return b.score - a.score;
+    }
+    return a.facts.price - b.facts.price;
+  });
+
+  return scored.map((entry, i) => {
+    const reasons = [...entry.reasons];
+    if (entry.eligible) {
+      if (options.preferredProvider && entry.bid.bidId.provider === options.preferredProvider) {
+        reasons.unshift('preferred provider');
+      }
+      reasons.unshift(`ranked #${i + 1} by ${strategy} strategy with score ${entry.score}`);
+    }
+    return {
+      rank: i + 1,
+      bid: entry.bid,
+      provider: entry.bid.bidId.provider,
+      eligible: entry.eligible,
+      score: entry.score,
+      reasons,
+    };
+  });
+}
+
+/**
+ * Select the best eligible bid
+ * @returns The top ranked eligible bid, or undefined when no bid qualifies
+ */
+export function selectBid(
+  bids: IBid[],
+  providers: IProvider[],
+  options: IBidSelectionOptions = {},
+): IRankedBid | undefined {
+  return rankBids(bids, providers, options).find((r) => r.eligible);
+}
+
+/**
+ * Collect the GPU models requested across all compute profiles of an SDL
+ */
+export function getSdlGpuModels(sdl: ISDLManifest): string[] {
+  const models = new Set<string>();
+  for (const profile of Object.values(sdl.profiles?.compute || {})) {
+    const vendors = profile.resources.gpu?.attributes?.vendor || {};
+    for (const model of Object.values(vendors).flatMap((list) => list || [])) {
+      if (model.model) {
+        models.add(model.model.toLowerCase());
+      }
+    }
+  }
+  return [...models];
+}
+
+/**
+ * Parse a bid price amount; v1beta4 bids carry decimal coin amounts
+ */
+export function parseBidPrice(bid: IBid): number {
+  const amount = parseFloat(bid.price?.amount || '0');
+  return isNaN(amount) ? 0 : amount;
+}
+
+/**
+ * Known auditor addresses across networks
+ */
+function getAuditorAddresses(): string[] {
+  const addresses = new Set<string>();
+  for (const network of Object.values(AUDITORS)) {
+    for (const address of Object.values(network)) {
+      addresses.add(address);
+    }
+  }
+  return [...addresses];
+}
+
+function getProviderUptime(provider?: IProvider): number | undefined {
+  if (!provider) {
+    return undefined;
+  }
+  const uptime = provider.uptime7d ?? provider.uptime1d ?? provider.uptime30d;
+  if (typeof uptime !== 'number' || isNaN(uptime)) {
+    return undefined;
+  }
+  // Accept both fractions and percentages
+  return uptime > 1 ? uptime / 100 : uptime;
+}
+
+function getProviderAuditors(provider: IProvider | undefined, auditors: string[]): string[] {
+  if (!provider) {
+    return [];
+  }
+  const found = new Set<string>();
+  for (const attribute of provider.attributes || []) {
+    for (const auditor of attribute.auditedBy || []) {
+      if (auditors.includes(auditor)) {
+        found.add(auditor);
+      }
+    }
+  }
+  if (found.size === 0 && provider.isAudited === true) {
+    found.add('console');
+  }
+  return [...found];
+}
+
+function getProviderRegion(provider?: IProvider): string | undefined {
+  if (!provider) {
+    return undefined;
+  }
+  const attribute = (provider.attributes || []).find(
+    (a) => a.key === PROVIDER_ATTRIBUTES.region || a.key === 'location-region',
+  );
+  return (attribute?.value || provider.ipRegion)?.toLowerCase();
+}
+
+function providerHasGpu(provider: IProvider | undefined, models: string[]): boolean {
+  if (!provider) {
+    return false;
+  }
+  for (const attribute of provider.attributes || []) {
+    const key = attribute.key.toLowerCase();
+    for (const model of models) {
+      if (key.endsWith(`/model/${model}`) || key.includes(`/model/${model}/`)) {
+        return true;
+      }
+      if (key === PROVIDER_ATTRIBUTES.gpuModel && attribute.value.toLowerCase() === model) {
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+function normalizeWeights(weights: IBidSelectionWeights): IBidSelectionWeights {
+  const total = weights.price + weights.uptime + weights.audit + weights.gpu;
+  if (total <= 0) {
+    return DEFAULT_WEIGHTS;
+  }
+  return {
+    price: weights.price / total,
+    uptime: weights.uptime / total,
+    audit: weights.audit / total,
+    gpu: weights.gpu / total,
+  };
+}
+
+function roundScore(score: number): number {
+  return Math.round(score * 10000) / 10000;
+}
+
+function formatPrice(price: number): string {
+  return Number.isInteger(price) ? price.toString() : price.toFixed(4);
+}
@@ -0,0 +1,193 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { generateKeyPairSync, randomBytes, sign } from 'crypto';
+import { ICertificateKeyPair } from '../types';
+
+/**
+ * Certificate Helper
+ *
+ * Generates the self-signed X.509 client certificates Akash providers accept for mTLS.
+ * Mirrors the Akash CLI: ECDSA P-256 key, owner address as CN, the Akash auth version
+ * attribute in the subject, and a random serial that doubles as the on-chain certificate ID.
+ */
+
+const OIDS = {
+  commonName: '2.5.4.3',
+  akashAuthVersion: '2.23.133.2.6',
+  ecdsaWithSha256: '1.2.840.10045.4.3.2',
+  keyUsage: '2.5.29.15',
+  extKeyUsage: '2.5.29.37',
+  basicConstraints: '2.5.29.19',
+  clientAuth: '1.3.6.1.5.5.7.3.2',
+} as const;
+
+const AKASH_AUTH_VERSION = 'v0.0.1';
+
+/**
+ * Generate a PEM-encoded X.509 client certificate and ECDSA key for an Akash wallet
+ * @param owner - Wallet address used as the certificate common name
+ * @param validityDays - Number of days the certificate remains valid
+ * @returns Certificate, public key and private key as PEM strings, plus the serial
+ */
+export function generateCertificate(owner: string, validityDays: number = 365): ICertificateKeyPair {
+  if (!owner) {
+    throw new Error('Certificate owner address is required');
+  }
+  if (validityDays <= 0) {
+    throw new Error('Certificate validity must be at least one day');
+  }
+
+  const { publicKey, privateKey } = generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+  const spki = publicKey.export({ type: 'spki', format: 'der' });
+
+  const serialBytes = randomBytes(16);
+  serialBytes[0] &= 0x7f; // keep the INTEGER positive
+  if (serialBytes[0] === 0) {
+    serialBytes[0] = 0x01;
+  }
+  const serial = BigInt(`0x${serialBytes.toString('hex')}`).toString();
+
+  const notBefore = new Date();
+  notBefore.setMilliseconds(0);
+  const notAfter = new Date(notBefore.getTime() + validityDays * 24 * 60 * 60 * 1000);
+
+  const name = derSequence(
+    derSet(derSequence(derOid(OIDS.commonName), derUtf8String(owner))),
+    derSet(derSequence(derOid(OIDS.akashAuthVersion), derUtf8String(AKASH_AUTH_VERSION))),
+  );
+  const signatureAlgorithm = derSequence(derOid(OIDS.ecdsaWithSha256));
+
+  const extensions = derSequence(
+    // keyEncipherment | dataEncipherment
+    derExtension(OIDS.keyUsage, true, derBitString(Buffer.from([0x30]), 4)),
+    derExtension(OIDS.extKeyUsage, false, derSequence(derOid(OIDS.clientAuth))),
+    derExtension(OIDS.basicConstraints, true, derSequence(derBoolean(true))),
+  );
+
+  const tbsCertificate = derSequence(
+    derExplicit(0, derInteger(Buffer.from([0x02]))),
+    derInteger(serialBytes),
+    signatureAlgorithm,
+    name,
+    derSequence(derTime(notBefore), derTime(notAfter)),
+    name,
+    spki,
+    derExplicit(3, extensions),
+  );
+
+  const signature = sign('sha256', tbsCertificate, privateKey);
+  const certificate = derSequence(tbsCertificate, signatureAlgorithm, derBitString(signature));
+
+  return {
+    cert: toPem('CERTIFICATE', certificate),
+    publicKey: toPem('EC PUBLIC KEY', spki),
+    privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+    serial,
+    notBefore: notBefore.toISOString(),
+    notAfter: notAfter.toISOString(),
+  };
+}
+
+/**
+ * Wrap DER bytes in a PEM envelope
+ * @param label - PEM label, e.g. CERTIFICATE
+ * @param der - DER encoded bytes
+ * @returns PEM string with a trailing newline
+ */
+export function toPem(label: string, der: Buffer): string {
+  const body = der.toString('base64').match(/.{1,64}/g) || [];
+  return `-----BEGIN ${label}-----\n${body.join('\n')}\n-----END ${label}-----\n`;
+}
+
+// ============================================================================
+// Minimal DER encoder
+// ============================================================================
+
+function derLength(length: number): Buffer {
+  if (length < 0x80) {
+    return Buffer.from([length]);
+  }
+  const bytes: number[] = [];
+  let remaining = length;
+  while (remaining > 0) {
+    bytes.unshift(remaining & 0xff);
+    remaining >>= 8;
+  }
+  return Buffer.from([0x80 | bytes.length, ...bytes]);
+}
+
+function derTlv(tag: number, value: Buffer): Buffer {
+  return Buffer.concat([Buffer.from([tag]), derLength(value.length), value]);
+}
+
+function derSequence(...items: Buffer[]): Buffer {
+  return derTlv(0x30, Buffer.concat(items));
+}
+
+function derSet(...items: Buffer[]): Buffer {
+  return derTlv(0x31, Buffer.concat(items));
+}
+
+function derExplicit(tagNumber: number, value: Buffer): Buffer {
+  return derTlv(0xa0 | tagNumber, value);
+}
+
+function derInteger(value: Buffer): Buffer {
+  // Prepend a zero byte when the high bit is set so the value stays positive
+  const bytes = value[0] & 0x80 ? Buffer.concat([Buffer.from([0]), value]) : value;
+  return derTlv(0x02, bytes);
+}
+
+function derBoolean(value: boolean): Buffer {
+  return derTlv(0x01, Buffer.from([value ? 0xff : 0x00]));
+}
+
+function derBitString(value: Buffer, unusedBits: number = 0): Buffer {
+  return derTlv(0x03, Buffer.concat([Buffer.from([unusedBits]), value]));
+}
+
+function derOctetString(value: Buffer): Buffer {
+  return derTlv(0x04, value);
+}
+
+function derUtf8String(value: string): Buffer {
+  return derTlv(0x0c, Buffer.from(value, 'utf8'));
+}
+
+function derOid(oid: string): Buffer {
+  const parts = oid.split('.').map((p) => parseInt(p, 10));
+  const bytes: number[] = [parts[0] * 40 + parts[1]];
+  for (const part of parts.slice(2)) {
+    const encoded: number[] = [part & 0x7f];
+    let remaining = part >> 7;
+    while (remaining > 0) {
+      encoded.unshift((remaining & 0x7f) | 0x80);
+      remaining >>= 7;
+    }
+    bytes.push(...encoded);
+  }
+  return derTlv(0x06, Buffer.from(bytes));
+}
+
+function derTime(date: Date): Buffer {
+  const iso = date.toISOString().replace(/[-:T]/g, '').slice(0, 14);
+  // RFC 5280: UTCTime through 2049, GeneralizedTime afterwards
+  if (date.getUTCFullYear() < 2050) {
+    return derTlv(0x17, Buffer.from(`${iso.slice(2)}Z`, 'ascii'));
+  }
+  return derTlv(0x18, Buffer.from(`${iso}Z`, 'ascii'));
+}
+
+function derExtension(oid: string, critical: boolean, value: Buffer): Buffer {
+  const parts = [derOid(oid)];
+  if (critical) {
+    parts.push(derBoolean(true));
+  }
+  parts.push(derOctetString(value));
+  return derSequence(...parts);
+}
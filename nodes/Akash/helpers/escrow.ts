@@ -0,0 +1,104 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { IDeployment, IEscrowRunway, ILease } from '../types';
+import { AVERAGE_BLOCK_TIME_SECONDS, TOKEN_DENOMINATIONS } from '../constants';
+
+/**
+ * Escrow Helper
+ *
+ * Works out how long a deployment's escrow account can keep paying its leases.
+ * Amounts are in the escrow denomination's base unit (uakt or micro-USDC).
+ */
+
+/**
+ * Calculate the escrow runway of a deployment
+ * @param deployment - Deployment with its escrow account
+ * @param leases - Leases of the deployment; only active leases in the escrow denom are counted
+ * @param blockTimeSeconds - Average block time
+ * @param currentHeight - Latest block height, used to deduct spend since the last settlement
+ * @param now - Reference time for the depletion estimate
+ */
+export function calculateEscrowRunway(
+  deployment: IDeployment,
+  leases: ILease[],
+  blockTimeSeconds: number = AVERAGE_BLOCK_TIME_SECONDS,
+  currentHeight?: number,
+  now: Date = new Date(),
+): IEscrowRunway {
+  const escrow = deployment.escrowAccount;
+  const dseq = String(deployment.dseq || deployment.deploymentId?.dseq || '');
+  const denom = escrow?.balance?.denom || TOKEN_DENOMINATIONS.uakt;
+
+  const balance = parseAmount(escrow?.balance?.amount);
+  const funds = escrow?.funds?.denom === denom ? parseAmount(escrow.funds.amount) : 0;
+
+  const activeLeases = leases.filter(
+    (lease) =>
+      String(lease.leaseId?.dseq) === dseq &&
+      lease.state === 'active' &&
+      lease.price?.denom === denom,
+  );
+  const pricePerBlock = activeLeases.reduce(
+    (sum, lease) => sum + parseAmount(lease.price.amount),
+    0,
+  );
+
+  // The reported balance is as of the last settlement
+  const settledAt = parseInt(escrow?.settledAt || '0', 10);
+  const unsettledBlocks =
+    currentHeight && settledAt > 0 && currentHeight > settledAt ? currentHeight - settledAt : 0;
+  const unsettled = unsettledBlocks * pricePerBlock;
+
+  const available = Math.max(balance + funds - unsettled, 0);
+
+  let blocksRemaining: number | null = null;
+  let hoursRemaining: number | null = null;
+  let depletesAt: string | null = null;
+  if (pricePerBlock > 0) {
+    blocksRemaining = Math.floor(available / pricePerBlock);
+    const seconds = blocksRemaining * blockTimeSeconds;
+    hoursRemaining = Math.round((seconds / 3600) * 100) / 100;
+    depletesAt = new Date(now.getTime() + seconds * 1000).toISOString();
+  }
+
+  return {
+    dseq,
+    denom,
+    balance,
+    funds,
+    unsettled,
+    available,
+    pricePerBlock,
+    leaseCount: activeLeases.length,
+    blocksRemaining,
+    hoursRemaining,
+    depletesAt,
+  };
+}
+
+/**
+ * Amount needed to extend a runway to the target duration
+ * @returns Base units to deposit, rounded up; 0 when the runway already suffices
+ */
+export function calculateTopUpAmount(
+  runway: IEscrowRunway,
+  targetHours: number,
+  blockTimeSeconds: number = AVERAGE_BLOCK_TIME_SECONDS,
+): number {
+  if (runway.pricePerBlock <= 0) {
+    return 0;
+  }
+  const targetBlocks = Math.ceil((targetHours * 3600) / blockTimeSeconds);
+  const needed = targetBlocks * runway.pricePerBlock - runway.available;
+  return needed > 0 ? Math.ceil(needed) : 0;
+}
+
+function parseAmount(amount?: string): number {
+  const value = parseFloat(amount || '0');
+  return isNaN(value) ? 0 : value;
+}
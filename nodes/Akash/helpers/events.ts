@@ -0,0 +1,309 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import {
+  AkashEventType,
+  IAkashEvent,
+  IBidEvent,
+  ICoin,
+  IDeploymentEvent,
+  IDeploymentId,
+  ILeaseEvent,
+  ILeaseId,
+  IOrderEvent,
+  IOrderId,
+  IParsedAkashEvent,
+  IProviderEvent,
+  ITendermintEvent,
+  TypedAkashEvent,
+} from '../types';
+
+/**
+ * Event Helper
+ *
+ * Converts raw Tendermint events, whether received over the WebSocket or
+ * found with tx_search, into Akash events.
+ */
+
+/**
+ * Chain event types mapped to Akash event types
+ */
+export const AKASH_EVENT_TYPES: Record<string, AkashEventType> = {
+  'akash.deployment.v1beta3.EventDeploymentCreated': 'deployment.created',
+  'akash.deployment.v1beta3.EventDeploymentUpdated': 'deployment.updated',
+  'akash.deployment.v1beta3.EventDeploymentClosed': 'deployment.closed',
+  'akash.market.v1beta4.EventLeaseCreated': 'lease.created',
+  'akash.market.v1beta4.EventLeaseClosed': 'lease.closed',
+  'akash.market.v1beta4.EventBidCreated': 'bid.created',
+  'akash.market.v1beta4.EventBidClosed': 'bid.closed',
+  'akash.market.v1beta4.EventOrderCreated': 'order.created',
+  'akash.market.v1beta4.EventOrderClosed': 'order.closed',
+  'akash.provider.v1beta3.EventProviderCreated': 'provider.created',
+  'akash.provider.v1beta3.EventProviderUpdated': 'provider.updated',
+};
+
+/**
+ * Convert a Tendermint event into an Akash event
+ * @returns The Akash event, or null for events that are not Akash events
+ */
+export function convertTendermintEvent(
+  event: ITendermintEvent,
+  height: number,
+  timestamp: string,
+  txHash?: string,
+  eventIndex?: number,
+): IAkashEvent | null {
+  const type = AKASH_EVENT_TYPES[event.type];
+  if (!type) {
+    return null;
+  }
+
+  return {
+    type,
+    attributes: event.attributes.map((attr) => ({
+      key: decodeEventAttribute(attr.key),
+      value: decodeEventAttribute(attr.value),
+    })),
+    height,
+    timestamp,
+    txHash,
+    eventIndex,
+  };
+}
+
+/**
+ * Key identifying an event on chain, used to drop events delivered twice
+ * Transaction events are keyed by tx hash and position; block events by height.
+ */
+export function getEventKey(event: IAkashEvent): string {
+  if (event.txHash) {
+    return `${event.txHash}:${event.eventIndex ?? event.type}`;
+  }
+  return `${event.type}:${event.height}`;
+}
+
+/**
+ * Decode an event attribute
+ * Tendermint 0.34 base64 encodes attributes while CometBFT sends them as-is,
+ * so only values that decode to printable text are treated as base64.
+ */
+export function decodeEventAttribute(value: string): string {
+  if (!value || value.length % 4 !== 0 || !/^[A-Za-z0-9+/]+={0,2}$/.test(value)) {
+    return value;
+  }
+
+  const decoded = Buffer.from(value, 'base64');
+  if (decoded.toString('base64') !== value) {
+    return value;
+  }
+  const text = decoded.toString('utf8');
+  return /^[\x20-\x7e]*$/.test(text) ? text : value;
+}
+
+/**
+ * Decode an Akash event into its typed payload
+ * Typed events carry JSON attributes (`id`, `price`, `reason`); events from older
+ * chain versions carry flat `owner`/`dseq`/`price-amount` attributes. Both are read.
+ */
+export function decodeAkashEvent(event: IAkashEvent): TypedAkashEvent {
+  const values = decodeAttributeValues(event);
+  const [category, action] = event.type.split('.');
+  const closed = action === 'closed';
+
+  switch (category) {
+    case 'deployment':
+      return {
+        ...event,
+        deploymentId: readDeploymentId(values),
+        state: closed ? 'closed' : 'active',
+        version: readString(values.version),
+      } as IDeploymentEvent;
+    case 'order':
+      return {
+        ...event,
+        orderId: readOrderId(values),
+        state: closed ? 'closed' : 'open',
+      } as IOrderEvent;
+    case 'lease':
+      return {
+        ...event,
+        leaseId: readLeaseId(values),
+        state: closed ? 'closed' : 'active',
+        price: readPrice(values),
+        reason: readString(values.reason),
+      } as ILeaseEvent;
+    case 'bid':
+      return {
+        ...event,
+        bidId: readLeaseId(values),
+        state: closed ? 'closed' : 'open',
+        price: readPrice(values),
+      } as IBidEvent;
+    case 'provider':
+      return {
+        ...event,
+        owner: readString(values.owner) || '',
+      } as IProviderEvent;
+    default:
+      return event;
+  }
+}
+
+/**
+ * Decode an event and flatten its identifiers for filtering and output
+ */
+export function parseAkashEvent(event: IAkashEvent): IParsedAkashEvent {
+  const decoded = decodeAkashEvent(event) as TypedAkashEvent & Record<string, unknown>;
+  const id = (decoded.deploymentId || decoded.orderId || decoded.leaseId || decoded.bidId) as
+    ILeaseId | undefined;
+
+  const parsed: IParsedAkashEvent = { ...event };
+  parsed.owner = id?.owner || (decoded.owner as string | undefined);
+  parsed.provider = id?.provider || (event.type.startsWith('provider.') ? parsed.owner : undefined);
+  if (id?.dseq) parsed.dseq = parseInt(id.dseq, 10);
+  if (id?.gseq) parsed.gseq = id.gseq;
+  if (id?.oseq) parsed.oseq = id.oseq;
+  parsed.id = id;
+  parsed.state = decoded.state as string | undefined;
+  parsed.price = decoded.price as ICoin | undefined;
+  parsed.reason = decoded.reason as string | undefined;
+  parsed.data = decodeAttributeValues(event);
+
+  return parsed;
+}
+
+/**
+ * Split the events of a transaction by the message that emitted them
+ * Chains on CometBFT 0.38 tag each event with a msg_index attribute; older chains
+ * list the events of each message in the raw log. Fee and signature events belong
+ * to no message and are dropped.
+ * @returns The events of each message, in message order
+ */
+export function groupEventsByMessage(
+  events: readonly ITendermintEvent[],
+  rawLog: string | undefined,
+  messageCount: number,
+): ITendermintEvent[][] {
+  const groups: ITendermintEvent[][] = Array.from({ length: messageCount }, () => []);
+  let tagged = false;
+
+  for (const event of events) {
+    const attributes = event.attributes.map((attr) => ({
+      key: decodeEventAttribute(attr.key),
+      value: decodeEventAttribute(attr.value),
+    }));
+    const msgIndex = attributes.find((attr) => attr.key === 'msg_index');
+    if (!msgIndex) {
+      continue;
+    }
+    tagged = true;
+    groups[Number(msgIndex.value)]?.push({
+      type: event.type,
+      attributes: attributes.filter((attr) => attr.key !== 'msg_index'),
+    });
+  }
+  if (tagged) {
+    return groups;
+  }
+
+  let logs: Array<{ msg_index?: number; events?: ITendermintEvent[] }>;
+  try {
+    logs = JSON.parse(rawLog || '');
+  } catch {
+    return groups;
+  }
+  if (!Array.isArray(logs)) {
+    return groups;
+  }
+  logs.forEach((log, position) => {
+    groups[log.msg_index ?? position]?.push(...(log.events || []));
+  });
+  return groups;
+}
+
+/**
+ * Index of the message that made a transaction fail, read from its raw log
+ */
+export function getFailedMessageIndex(rawLog: string | undefined): number | undefined {
+  const match = /message index: (\d+)/.exec(rawLog || '');
+  return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * Attribute values keyed by name
+ * Typed events JSON encode each field; plain values from older events are kept as-is.
+ */
+function decodeAttributeValues(event: IAkashEvent): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+  for (const attr of event.attributes) {
+    values[attr.key] = attr.value;
+    if (/^[{["]/.test(attr.value)) {
+      try {
+        values[attr.key] = JSON.parse(attr.value);
+      } catch {
+        // Not JSON after all
+      }
+    }
+  }
+  return values;
+}
+
+function readString(value: unknown): string | undefined {
+  return value === undefined || value === null || value === '' ? undefined : String(value);
+}
+
+function readNumber(value: unknown): number {
+  const parsed = parseInt(String(value ?? ''), 10);
+  return isNaN(parsed) ? 0 : parsed;
+}
+
+/**
+ * Identifier fields, nested under `id` in typed events and top-level in legacy events
+ */
+function readIdFields(values: Record<string, unknown>): Record<string, unknown> {
+  return typeof values.id === 'object' && values.id !== null
+    ? (values.id as Record<string, unknown>)
+    : values;
+}
+
+function readDeploymentId(values: Record<string, unknown>): IDeploymentId {
+  const id = readIdFields(values);
+  return {
+    owner: readString(id.owner) || '',
+    dseq: readString(id.dseq) || '',
+  };
+}
+
+function readOrderId(values: Record<string, unknown>): IOrderId {
+  const id = readIdFields(values);
+  return {
+    ...readDeploymentId(values),
+    gseq: readNumber(id.gseq),
+    oseq: readNumber(id.oseq),
+  };
+}
+
+function readLeaseId(values: Record<string, unknown>): ILeaseId {
+  return {
+    ...readOrderId(values),
+    provider: readString(readIdFields(values).provider) || '',
+  };
+}
+
+function readPrice(values: Record<string, unknown>): ICoin | undefined {
+  const price = values.price as Partial<ICoin> | undefined;
+  if (price && typeof price === 'object' && price.amount !== undefined) {
+    return { denom: String(price.denom || ''), amount: String(price.amount) };
+  }
+  if (values['price-amount'] !== undefined) {
+    return {
+      denom: readString(values['price-denom']) || '',
+      amount: String(values['price-amount']),
+    };
+  }
+  return undefined;
+}
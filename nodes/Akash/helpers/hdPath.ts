@@ -0,0 +1,62 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { DirectSecp256k1HdWallet } from '@cosmjs/proto-signing';
+import { stringToPath } from '@cosmjs/crypto';
+import { DEFAULT_HD_PATH } from '../constants';
+
+/**
+ * HD Path Helper
+ *
+ * Builds BIP44 derivation paths for mnemonic wallets, so one mnemonic can hold
+ * several deployer accounts.
+ */
+
+/**
+ * Build the derivation path of an account
+ * @param index - Account index, substituted for `{index}` in the template
+ * @param template - Derivation path; a path without `{index}` is used as-is
+ */
+export function buildHdPath(index: number = 0, template: string = DEFAULT_HD_PATH): string {
+  if (!Number.isInteger(index) || index < 0) {
+    throw new Error(`Account index must be a whole number of 0 or more, got ${index}`);
+  }
+  const path = template.trim().replace('{index}', String(index));
+  if (!/^m(\/\d+'?)+$/.test(path)) {
+    throw new Error(`Invalid HD path ${path}. Expected a path like m/44'/118'/0'/0/0`);
+  }
+  return path;
+}
+
+/**
+ * Derive consecutive accounts of a mnemonic
+ * @param template - Derivation path containing `{index}`
+ */
+export async function deriveAddresses(
+  mnemonic: string,
+  startIndex: number,
+  count: number,
+  template: string = DEFAULT_HD_PATH,
+): Promise<{ index: number; path: string; address: string }[]> {
+  if (!template.includes('{index}')) {
+    throw new Error(`HD path ${template} must contain {index} to derive several addresses`);
+  }
+
+  const indexes = Array.from({ length: count }, (_, i) => startIndex + i);
+  const paths = indexes.map((index) => buildHdPath(index, template));
+  const wallet = await DirectSecp256k1HdWallet.fromMnemonic(mnemonic, {
+    prefix: 'akash',
+    hdPaths: paths.map(stringToPath),
+  });
+  const accounts = await wallet.getAccounts();
+
+  return accounts.map((account, i) => ({
+    index: indexes[i],
+    path: paths[i],
+    address: account.address,
+  }));
+}
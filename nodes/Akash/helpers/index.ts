@@ -6,4 +6,12 @@
  */
 
 export * from './amountConverter';
+export * from './bidSelector';
+export * from './certificate';
+export * from './escrow';
+export * from './hdPath';
+export * from './keystore';
+export * from './events';
+export * from './sdlDiff';
 export * from './sdlParser';
+export * from './transactions';
@@ -0,0 +1,76 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { DirectSecp256k1HdWallet } from '@cosmjs/proto-signing';
+import { stringToPath } from '@cosmjs/crypto';
+
+/**
+ * Keystore Helper
+ *
+ * Encrypted wallets in the DirectSecp256k1HdWallet serialization format. The
+ * mnemonic is encrypted with a key derived from the passphrase (Argon2id) and is
+ * only ever decrypted in memory.
+ */
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+/**
+ * Encrypt a mnemonic into a keystore
+ * @param hdPath - Derivation path of the account, stored in the keystore
+ */
+export async function exportKeystore(
+  mnemonic: string,
+  passphrase: string,
+  hdPath: string,
+): Promise<{ address: string; keystore: string }> {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Keystore passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+
+  const wallet = await DirectSecp256k1HdWallet.fromMnemonic(mnemonic, {
+    prefix: 'akash',
+    hdPaths: [stringToPath(hdPath)],
+  });
+  const [{ address }] = await wallet.getAccounts();
+
+  return { address, keystore: await wallet.serialize(passphrase) };
+}
+
+/**
+ * Decrypt a keystore into a wallet
+ * @param expectedAddress - Wallet address from the credentials; must match the keystore
+ */
+export async function importKeystore(
+  keystore: string,
+  passphrase: string,
+  expectedAddress?: string,
+): Promise<DirectSecp256k1HdWallet> {
+  if (!keystore.trim()) {
+    throw new Error('Keystore is required');
+  }
+  try {
+    JSON.parse(keystore);
+  } catch {
+    throw new Error('Keystore is not valid JSON');
+  }
+
+  let wallet: DirectSecp256k1HdWallet;
+  try {
+    wallet = await DirectSecp256k1HdWallet.deserialize(keystore, passphrase);
+  } catch (error) {
+    throw new Error(`Could not decrypt the keystore: ${(error as Error).message}`);
+  }
+
+  const [{ address }] = await wallet.getAccounts();
+  if (expectedAddress && expectedAddress.trim() !== address) {
+    throw new Error(
+      `Wallet address ${expectedAddress} does not match the address ${address} in the keystore`,
+    );
+  }
+
+  return wallet;
+}
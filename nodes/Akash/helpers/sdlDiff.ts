@@ -0,0 +1,244 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { isDeepStrictEqual } from 'util';
+import { ISDLChange, ISDLCredentials, ISDLDiff, ISDLManifest, ISDLService } from '../types';
+import { sdlToGroups } from './sdlParser';
+
+/**
+ * SDL Diff Helper
+ *
+ * Compares a deployment's current SDL with a new one and works out whether the
+ * update can be applied in place. On Akash the deployment groups (resources,
+ * placement, pricing, counts and endpoints) are fixed once leases exist; only
+ * what lives in the provider manifest (image, env, command, args, credentials,
+ * expose details, mounts) can change with MsgUpdateDeployment.
+ */
+
+/**
+ * Service fields that only affect the provider manifest
+ */
+const MANIFEST_SERVICE_FIELDS: Array<keyof ISDLService> = [
+  'image',
+  'command',
+  'args',
+  'env',
+  'credentials',
+  'params',
+];
+
+/**
+ * Placeholder for secret values in the plan, which ends up in the execution data
+ */
+const REDACTED = '***';
+
+/**
+ * Mask the values of environment variables and registry credentials
+ * Variable names and the registry host stay visible to show what changed.
+ */
+function redact(field: keyof ISDLService, value: unknown): unknown {
+  if (value === undefined) {
+    return value;
+  }
+  if (field === 'env') {
+    return (value as string[]).map((entry) => `${String(entry).split('=')[0]}=${REDACTED}`);
+  }
+  if (field === 'credentials') {
+    const credentials = value as ISDLCredentials;
+    return {
+      host: credentials.host,
+      username: REDACTED,
+      password: REDACTED,
+      ...(credentials.email ? { email: REDACTED } : {}),
+    };
+  }
+  return value;
+}
+
+/**
+ * Diff two SDLs and classify the update
+ * @param current - SDL the deployment was created or last updated with
+ * @param next - New SDL
+ */
+export function diffSDL(current: ISDLManifest, next: ISDLManifest): ISDLDiff {
+  const changes: ISDLChange[] = [];
+
+  diffKeys(current.endpoints, next.endpoints, (name, from, to) =>
+    changes.push({
+      scope: 'endpoint',
+      name,
+      field: 'kind',
+      from: from?.kind,
+      to: to?.kind,
+      inPlace: false,
+      reason: 'leased IP endpoints are part of the deployment groups',
+    }),
+  );
+
+  diffKeys(current.services, next.services, (name, from, to) => {
+    if (!from || !to) {
+      changes.push({
+        scope: 'service',
+        name,
+        field: 'service',
+        from: from ? 'defined' : undefined,
+        to: to ? 'defined' : undefined,
+        inPlace: false,
+        reason: `services cannot be ${from ? 'removed from' : 'added to'} an existing deployment`,
+      });
+      return;
+    }
+
+    for (const field of MANIFEST_SERVICE_FIELDS) {
+      if (!isDeepStrictEqual(from[field], to[field])) {
+        changes.push({
+          scope: 'service',
+          name,
+          field,
+          from: redact(field, from[field]),
+          to: redact(field, to[field]),
+          inPlace: true,
+        });
+      }
+    }
+
+    if (!isDeepStrictEqual(from.expose, to.expose)) {
+      const sameEndpoints = isDeepStrictEqual(getExposeEndpoints(from), getExposeEndpoints(to));
+      changes.push({
+        scope: 'service',
+        name,
+        field: 'expose',
+        from: from.expose,
+        to: to.expose,
+        inPlace: sameEndpoints,
+        reason: sameEndpoints
+          ? undefined
+          : 'the number of exposed ports, their global flag or their leased IPs changed, which changes the endpoints in the deployment groups',
+      });
+    }
+  });
+
+  diffKeys(current.profiles?.compute, next.profiles?.compute, (name, from, to) => {
+    for (const field of ['cpu', 'memory', 'storage', 'gpu'] as const) {
+      const fromValue = from?.resources?.[field];
+      const toValue = to?.resources?.[field];
+      if (!isDeepStrictEqual(fromValue, toValue)) {
+        changes.push({
+          scope: 'profile',
+          name,
+          field,
+          from: fromValue,
+          to: toValue,
+          inPlace: false,
+          reason: 'resources are fixed by the order providers bid on',
+        });
+      }
+    }
+  });
+
+  diffKeys(current.profiles?.placement, next.profiles?.placement, (name, from, to) => {
+    for (const field of ['attributes', 'signedBy', 'pricing'] as const) {
+      if (!isDeepStrictEqual(from?.[field], to?.[field])) {
+        changes.push({
+          scope: 'placement',
+          name,
+          field,
+          from: from?.[field],
+          to: to?.[field],
+          inPlace: false,
+          reason: 'placement requirements and pricing are fixed by the order providers bid on',
+        });
+      }
+    }
+  });
+
+  diffKeys(current.deployment, next.deployment, (placementName, from, to) => {
+    diffKeys(from, to, (name, fromConfig, toConfig) => {
+      for (const field of ['profile', 'count'] as const) {
+        if (!isDeepStrictEqual(fromConfig?.[field], toConfig?.[field])) {
+          changes.push({
+            scope: 'deployment',
+            name,
+            field: `${placementName}.${field}`,
+            from: fromConfig?.[field],
+            to: toConfig?.[field],
+            inPlace: false,
+            reason: 'the group layout of a deployment cannot change',
+          });
+        }
+      }
+    });
+  });
+
+  const reasons = changes
+    .filter((change) => !change.inPlace)
+    .map((change) => `${describeChange(change)}: ${change.reason}`);
+
+  // Anything else that alters the groups still rules out an in-place update
+  if (reasons.length === 0 && !isDeepStrictEqual(sdlToGroups(current), sdlToGroups(next))) {
+    reasons.push('The deployment groups generated from the two SDLs differ');
+  }
+
+  return {
+    classification: reasons.length > 0 ? 'redeploy' : changes.length > 0 ? 'inPlace' : 'unchanged',
+    services: groupChanges(changes, ['service', 'deployment']),
+    profiles: groupChanges(changes, ['profile']),
+    changes,
+    reasons,
+  };
+}
+
+/**
+ * Call back for every key whose value differs between two records
+ */
+function diffKeys<T>(
+  from: Record<string, T> | undefined,
+  to: Record<string, T> | undefined,
+  callback: (name: string, from: T | undefined, to: T | undefined) => void,
+): void {
+  const names = new Set([...Object.keys(from || {}), ...Object.keys(to || {})]);
+  for (const name of [...names].sort()) {
+    if (!isDeepStrictEqual(from?.[name], to?.[name])) {
+      callback(name, from?.[name], to?.[name]);
+    }
+  }
+}
+
+/**
+ * The parts of a service's exposes that end up in the group endpoints
+ */
+function getExposeEndpoints(service: ISDLService): unknown[] {
+  return (service.expose || []).map((expose) => ({
+    global: expose.to?.some((to) => to.global) || false,
+    ips: (expose.to || []).map((to) => to.ip).filter(Boolean),
+  }));
+}
+
+function groupChanges(
+  changes: ISDLChange[],
+  scopes: ISDLChange['scope'][],
+): Record<string, ISDLChange[]> {
+  const grouped: Record<string, ISDLChange[]> = {};
+  for (const change of changes) {
+    if (scopes.includes(change.scope)) {
+      (grouped[change.name] = grouped[change.name] || []).push(change);
+    }
+  }
+  return grouped;
+}
+
+function describeChange(change: ISDLChange): string {
+  const scope = change.scope === 'profile' ? 'Compute profile' : capitalize(change.scope);
+  if (change.field === 'service') {
+    return `Service '${change.name}' ${change.from ? 'removed' : 'added'}`;
+  }
+  return `${scope} '${change.name}' ${change.field} changed`;
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
@@ -13,22 +13,59 @@ import {
   ISDLComputeProfile,
   ISDLPlacementProfile,
   ISDLResources,
+  ISDLStorage,
+  ISDLGpu,
+  ISDLExpose,
+  ISDLHttpOptions,
   IGroupSpec,
   IResourceGroup,
   IResourceUnits,
+  IEndpoint,
   IAttribute,
   ICoin,
 } from '../types';
 import { parseMemorySize, parseCpuUnits, aktToUakt } from './amountConverter';
-import { TOKEN_DENOMINATIONS } from '../constants';
+import { STORAGE_CLASSES, TOKEN_DENOMINATIONS } from '../constants';
 
 /**
  * SDL Parser Helper
  *
  * Parses and validates Akash SDL (Stack Definition Language) manifests.
- * SDL v2.0 is a YAML format used to define deployments on Akash Network.
+ * SDL v2.0 is a YAML format used to define deployments on Akash Network;
+ * v2.1 adds leased IP endpoints.
  */
 
+/**
+ * Ingress settings used when an expose has no http_options
+ */
+const DEFAULT_HTTP_OPTIONS = {
+  max_body_size: 1048576,
+  read_timeout: 60000,
+  send_timeout: 60000,
+  next_tries: 3,
+  next_timeout: 0,
+  next_cases: ['error', 'timeout'],
+};
+
+const HTTP_OPTIONS_LIMITS = {
+  max_body_size: 104857600,
+  read_timeout: 60000,
+  send_timeout: 60000,
+};
+
+const HTTP_NEXT_CASES = ['error', 'timeout', '500', '502', '503', '504', '403', '404', '429', 'off'];
+
+const GPU_INTERFACES = ['pcie', 'sxm'];
+
+/**
+ * Endpoint kinds in deployment group resources
+ * Global HTTP on port 80 goes through the provider's shared ingress, other global
+ * ports get a random port, and leased IPs are numbered endpoints of their own.
+ */
+const SHARED_HTTP_ENDPOINT_KIND = 0;
+const RANDOM_PORT_ENDPOINT_KIND = 1;
+const LEASED_IP_ENDPOINT_KIND = 2;
+
 /**
  * Parse SDL YAML string into structured manifest
  * @param sdlContent - Raw SDL YAML content
@@ -66,14 +103,40 @@ export function validateSDL(sdl: ISDLManifest): { valid: boolean; errors: string
     errors.push(`Unsupported SDL version: ${sdl.version}. Supported versions: 2.0, 2.1`);
   }
 
+  // Check endpoints (SDL v2.1)
+  if (sdl.endpoints) {
+    if (sdl.version === '2.0') {
+      errors.push('Endpoints require SDL version 2.1');
+    }
+    for (const [endpointName, endpoint] of Object.entries(sdl.endpoints)) {
+      if (!/^[a-z]+[-_\da-z]*$/.test(endpointName)) {
+        errors.push(`Endpoint '${endpointName}': invalid name`);
+      }
+      if (endpoint?.kind !== 'ip') {
+        errors.push(`Endpoint '${endpointName}': unsupported kind '${endpoint?.kind}' (must be ip)`);
+      }
+    }
+  }
+
   // Check services
   if (!sdl.services || Object.keys(sdl.services).length === 0) {
     errors.push('Missing required field: services (at least one service required)');
   } else {
     for (const [serviceName, service] of Object.entries(sdl.services)) {
-      const serviceErrors = validateService(serviceName, service);
+      const serviceErrors = validateService(serviceName, service, sdl);
       errors.push(...serviceErrors);
     }
+
+    const usedEndpoints = new Set(
+      Object.values(sdl.services).flatMap((service) =>
+        (service.expose || []).flatMap((expose) => (expose.to || []).map((to) => to.ip)),
+      ),
+    );
+    for (const endpointName of Object.keys(sdl.endpoints || {})) {
+      if (!usedEndpoints.has(endpointName)) {
+        errors.push(`Endpoint '${endpointName}' is declared but not used`);
+      }
+    }
   }
 
   // Check profiles
@@ -116,6 +179,14 @@ export function validateSDL(sdl: ISDLManifest): { valid: boolean; errors: string
         }
         if (!sdl.profiles?.compute?.[config.profile]) {
           errors.push(`Deployment references undefined compute profile: ${config.profile}`);
+        } else if (sdl.services?.[serviceName]) {
+          errors.push(
+            ...validateStorageParams(
+              serviceName,
+              sdl.services[serviceName],
+              sdl.profiles.compute[config.profile].resources,
+            ),
+          );
         }
         if (typeof config.count !== 'number' || config.count < 1) {
           errors.push(`Invalid count for service ${serviceName}: must be a positive integer`);
@@ -133,7 +204,7 @@ export function validateSDL(sdl: ISDLManifest): { valid: boolean; errors: string
 /**
  * Validate a service definition
  */
-function validateService(name: string, service: ISDLService): string[] {
+function validateService(name: string, service: ISDLService, sdl: ISDLManifest): string[] {
   const errors: string[] = [];
   const prefix = `Service '${name}'`;
 
@@ -141,6 +212,14 @@ function validateService(name: string, service: ISDLService): string[] {
     errors.push(`${prefix}: missing required field 'image'`);
   }
 
+  if (service.credentials) {
+    for (const field of ['host', 'username', 'password'] as const) {
+      if (!service.credentials[field]) {
+        errors.push(`${prefix}: credentials missing required field '${field}'`);
+      }
+    }
+  }
+
   if (service.expose) {
     for (let i = 0; i < service.expose.length; i++) {
       const expose = service.expose[i];
@@ -150,6 +229,90 @@ function validateService(name: string, service: ISDLService): string[] {
       if (expose.proto && !['tcp', 'udp'].includes(expose.proto)) {
         errors.push(`${prefix}: expose[${i}] invalid proto '${expose.proto}' (must be tcp or udp)`);
       }
+      for (const to of expose.to || []) {
+        if (!to.ip) {
+          continue;
+        }
+        if (!sdl.endpoints?.[to.ip]) {
+          errors.push(`${prefix}: expose[${i}] references undefined endpoint '${to.ip}'`);
+        }
+        if (!to.global) {
+          errors.push(`${prefix}: expose[${i}] IP endpoint '${to.ip}' requires global: true`);
+        }
+      }
+      if (expose.http_options) {
+        errors.push(...validateHttpOptions(`${prefix}: expose[${i}]`, expose.http_options));
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validate http_options overrides of an expose
+ */
+function validateHttpOptions(prefix: string, options: ISDLHttpOptions): string[] {
+  const errors: string[] = [];
+
+  for (const [field, max] of Object.entries(HTTP_OPTIONS_LIMITS)) {
+    const value = options[field as keyof typeof HTTP_OPTIONS_LIMITS];
+    if (value !== undefined && (typeof value !== 'number' || value < 0 || value > max)) {
+      errors.push(`${prefix} http_options.${field} must be between 0 and ${max}`);
+    }
+  }
+  for (const field of ['next_tries', 'next_timeout'] as const) {
+    const value = options[field];
+    if (value !== undefined && (typeof value !== 'number' || value < 0)) {
+      errors.push(`${prefix} http_options.${field} must be a non-negative number`);
+    }
+  }
+  if (options.next_cases) {
+    const cases = options.next_cases.map(String);
+    const invalid = cases.filter((c) => !HTTP_NEXT_CASES.includes(c));
+    if (invalid.length > 0) {
+      errors.push(`${prefix} http_options.next_cases has invalid values: ${invalid.join(', ')}`);
+    }
+    if (cases.includes('off') && cases.length > 1) {
+      errors.push(`${prefix} http_options.next_cases 'off' cannot be combined with other cases`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validate a service's volume mounts against the storage of its compute profile
+ */
+function validateStorageParams(
+  name: string,
+  service: ISDLService,
+  resources: ISDLResources,
+): string[] {
+  const errors: string[] = [];
+  const prefix = `Service '${name}'`;
+  const volumes = new Map(getStorageList(resources).map((s, index) => [getStorageName(s, index), s]));
+  const mounts = service.params?.storage || {};
+  const mountPaths = new Set<string>();
+
+  for (const [volumeName, params] of Object.entries(mounts)) {
+    const volume = volumes.get(volumeName);
+    if (!volume) {
+      errors.push(`${prefix}: params.storage references undefined volume '${volumeName}'`);
+      continue;
+    }
+    if (!params?.mount || !params.mount.startsWith('/')) {
+      errors.push(`${prefix}: params.storage.${volumeName} must have an absolute 'mount' path`);
+    } else if (mountPaths.has(params.mount)) {
+      errors.push(`${prefix}: mount path '${params.mount}' is used by more than one volume`);
+    } else {
+      mountPaths.add(params.mount);
+    }
+  }
+
+  for (const [volumeName, volume] of volumes) {
+    if (isPersistent(volume) && !mounts[volumeName]) {
+      errors.push(`${prefix}: persistent volume '${volumeName}' must be mounted in params.storage`);
     }
   }
 
@@ -201,6 +364,17 @@ function validateComputeProfile(name: string, profile: ISDLComputeProfile): stri
   // Validate storage
   if (!resources.storage) {
     errors.push(`${prefix}: missing required field 'resources.storage'`);
+  } else {
+    getStorageList(resources).forEach((storage, index) => {
+      const storageName = getStorageName(storage, index);
+      const storageClass = getStorageClass(storage);
+      if (storageClass && !Object.values(STORAGE_CLASSES).includes(storageClass as never)) {
+        errors.push(`${prefix}: storage '${storageName}' has unknown class '${storageClass}'`);
+      }
+      if (storageClass === STORAGE_CLASSES.ram && isPersistent(storage)) {
+        errors.push(`${prefix}: storage '${storageName}' of class ram cannot be persistent`);
+      }
+    });
   }
 
   // Validate GPU if present
@@ -208,6 +382,22 @@ function validateComputeProfile(name: string, profile: ISDLComputeProfile): stri
     if (typeof resources.gpu.units !== 'number' || resources.gpu.units < 0) {
       errors.push(`${prefix}: gpu.units must be a non-negative number`);
     }
+    for (const [vendor, models] of Object.entries(resources.gpu.attributes?.vendor || {})) {
+      for (const model of models || []) {
+        if (model.interface && !GPU_INTERFACES.includes(model.interface)) {
+          errors.push(
+            `${prefix}: gpu ${vendor} interface '${model.interface}' must be one of ${GPU_INTERFACES.join(', ')}`,
+          );
+        }
+        if (model.ram) {
+          try {
+            parseMemorySize(model.ram);
+          } catch {
+            errors.push(`${prefix}: gpu ${vendor} ram '${model.ram}' has an invalid format`);
+          }
+        }
+      }
+    }
   }
 
   return errors;
@@ -237,14 +427,14 @@ function validatePlacementProfile(name: string, profile: ISDLPlacementProfile):
 }
 
 /**
- * Generate version hash from SDL content
- * Used to identify deployment versions
+ * Generate the deployment version from SDL content
+ * The version is the SHA-256 of the canonical provider manifest, which is what
+ * providers recompute when a manifest is sent.
  * @param sdl - SDL manifest
  * @returns Version hash as Uint8Array
  */
 export function generateVersionHash(sdl: ISDLManifest): Uint8Array {
-  const sdlString = JSON.stringify(sdl);
-  const hash = createHash('sha256').update(sdlString).digest();
+  const hash = createHash('sha256').update(serializeManifest(sdlToManifest(sdl))).digest();
   return new Uint8Array(hash);
 }
 
@@ -255,6 +445,7 @@ export function generateVersionHash(sdl: ISDLManifest): Uint8Array {
  */
 export function sdlToGroups(sdl: ISDLManifest): IGroupSpec[] {
   const groups: IGroupSpec[] = [];
+  const ipEndpoints = getIpEndpointSequences(sdl);
 
   for (const [placementName, placement] of Object.entries(sdl.deployment)) {
     const placementProfile = sdl.profiles.placement[placementName];
@@ -265,7 +456,11 @@ export function sdlToGroups(sdl: ISDLManifest): IGroupSpec[] {
       const computeProfile = sdl.profiles.compute[config.profile];
       const pricing = placementProfile.pricing[config.profile];
 
-      const resourceUnits = convertResources(computeProfile.resources, sdl.services[serviceName]);
+      const resourceUnits = convertResources(
+        computeProfile.resources,
+        sdl.services[serviceName],
+        ipEndpoints,
+      );
 
       resources.push({
         resources: resourceUnits,
@@ -304,7 +499,11 @@ export function sdlToGroups(sdl: ISDLManifest): IGroupSpec[] {
 /**
  * Convert SDL resources to blockchain format
  */
-function convertResources(resources: ISDLResources, service: ISDLService): IResourceUnits {
+function convertResources(
+  resources: ISDLResources,
+  service: ISDLService,
+  ipEndpoints: Map<string, number>,
+): IResourceUnits {
   // Convert CPU (to millicpu string format)
   const cpuValue = parseCpuUnits(String(resources.cpu.units));
   const cpuMillis = Math.round(cpuValue * 1000);
@@ -313,12 +512,14 @@ function convertResources(resources: ISDLResources, service: ISDLService): IReso
   const memoryBytes = parseMemorySize(resources.memory.size);
 
   // Convert storage
-  const storageList = Array.isArray(resources.storage) ? resources.storage : [resources.storage];
-  const storageResources = storageList.map((s, index) => ({
-    name: s.name || (index === 0 ? 'default' : `storage-${index}`),
-    quantity: { val: parseMemorySize(s.size).toString() },
-    attributes: s.class ? [{ key: 'class', value: s.class }] : undefined,
-  }));
+  const storageResources = getStorageList(resources).map((s, index) => {
+    const attributes = getStorageAttributes(s);
+    return {
+      name: getStorageName(s, index),
+      quantity: { val: parseMemorySize(s.size).toString() },
+      attributes: attributes.length > 0 ? attributes : undefined,
+    };
+  });
 
   const result: IResourceUnits = {
     cpu: {
@@ -332,20 +533,7 @@ function convertResources(resources: ISDLResources, service: ISDLService): IReso
 
   // Add GPU if present
   if (resources.gpu && resources.gpu.units > 0) {
-    const gpuAttributes: IAttribute[] = [];
-
-    if (resources.gpu.attributes?.vendor?.nvidia) {
-      const models = resources.gpu.attributes.vendor.nvidia;
-      if (models.length > 0) {
-        gpuAttributes.push({ key: 'vendor', value: 'nvidia' });
-        if (models[0].model) {
-          gpuAttributes.push({ key: 'model', value: models[0].model });
-        }
-        if (models[0].ram) {
-          gpuAttributes.push({ key: 'ram', value: models[0].ram });
-        }
-      }
-    }
+    const gpuAttributes = getGpuAttributes(resources.gpu);
 
     result.gpu = {
       units: { val: resources.gpu.units.toString() },
@@ -353,88 +541,96 @@ function convertResources(resources: ISDLResources, service: ISDLService): IReso
     };
   }
 
-  // Add endpoints from service expose
-  if (service.expose && service.expose.length > 0) {
-    result.endpoints = service.expose.map((expose, index) => ({
-      kind: expose.to?.some(t => t.global) ? 1 : 0, // 1 = public, 0 = private
-      sequenceNumber: index,
-    }));
+  // One endpoint per global target; exposes to other services need none
+  const endpoints: IEndpoint[] = [];
+  for (const expose of service.expose || []) {
+    for (const to of expose.to || []) {
+      if (!to.global) {
+        continue;
+      }
+      endpoints.push({
+        kind: isIngress(expose) ? SHARED_HTTP_ENDPOINT_KIND : RANDOM_PORT_ENDPOINT_KIND,
+        sequenceNumber: 0,
+      });
+      if (to.ip && ipEndpoints.has(to.ip)) {
+        endpoints.push({
+          kind: LEASED_IP_ENDPOINT_KIND,
+          sequenceNumber: ipEndpoints.get(to.ip) as number,
+        });
+      }
+    }
+  }
+  if (endpoints.length > 0) {
+    result.endpoints = endpoints;
   }
 
   return result;
 }
 
+/**
+ * Whether a global expose is served by the provider's HTTP ingress
+ */
+function isIngress(expose: ISDLExpose): boolean {
+  const externalPort = expose.as || expose.port;
+  return (expose.proto || 'tcp').toUpperCase() === 'TCP' && externalPort === 80;
+}
+
 /**
  * Convert SDL manifest to provider manifest format
- * This is sent to the provider after lease creation
+ * This is sent to the provider after lease creation. The layout follows the
+ * provider's manifest types: groups and services in name order, resource
+ * quantities as strings and one expose entry per `to` target.
  * @param sdl - SDL manifest
  * @returns Manifest for provider
  */
 export function sdlToManifest(sdl: ISDLManifest): object {
   const groups: object[] = [];
+  const ipEndpoints = getIpEndpointSequences(sdl);
 
-  for (const [placementName, placement] of Object.entries(sdl.deployment)) {
+  for (const placementName of Object.keys(sdl.deployment).sort()) {
+    const placement = sdl.deployment[placementName];
     const services: object[] = [];
 
-    for (const [serviceName, config] of Object.entries(placement)) {
-      const service = sdl.services[serviceName];
-      const computeProfile = sdl.profiles.compute[config.profile];
-
-      const manifestService: Record<string, unknown> = {
-        name: serviceName,
-        image: service.image,
-        count: config.count,
-        resources: convertManifestResources(computeProfile.resources),
-      };
-
-      if (service.command) {
-        manifestService.command = service.command;
-      }
-
-      if (service.args) {
-        manifestService.args = service.args;
-      }
-
-      if (service.env) {
-        manifestService.env = service.env.map((e) => {
-          const [key, ...valueParts] = e.split('=');
-          return { name: key, value: valueParts.join('=') };
+    Object.keys(placement)
+      .sort()
+      .forEach((serviceName, index) => {
+        const config = placement[serviceName];
+        const service = sdl.services[serviceName];
+        const computeProfile = sdl.profiles.compute[config.profile];
+
+        services.push({
+          name: serviceName,
+          image: service.image,
+          command: service.command || null,
+          args: service.args || null,
+          env: service.env || null,
+          resources: convertManifestResources(
+            computeProfile.resources,
+            service,
+            ipEndpoints,
+            index + 1,
+          ),
+          count: config.count,
+          expose: convertManifestExpose(service, ipEndpoints),
+          params: service.params?.storage
+            ? {
+                storage: Object.entries(service.params.storage).map(([name, params]) => ({
+                  name,
+                  mount: params.mount,
+                  readOnly: params.readOnly || false,
+                })),
+              }
+            : null,
+          credentials: service.credentials
+            ? {
+                host: service.credentials.host,
+                email: service.credentials.email || '',
+                username: service.credentials.username,
+                password: service.credentials.password,
+              }
+            : null,
         });
-      }
-
-      if (service.expose) {
-        manifestService.expose = service.expose.map((exp) => ({
-          port: exp.port,
-          externalPort: exp.as || exp.port,
-          proto: exp.proto || 'tcp',
-          service: '',
-          global: exp.to?.some(t => t.global) || false,
-          hosts: exp.accept || null,
-          httpOptions: {
-            maxBodySize: 1048576,
-            readTimeout: 60000,
-            sendTimeout: 60000,
-            nextTries: 3,
-            nextTimeout: 0,
-            nextCases: ['error', 'timeout'],
-          },
-          ip: '',
-          endpointSequenceNumber: 0,
-        }));
-      }
-
-      if (service.params?.storage) {
-        manifestService.params = {
-          storage: Object.entries(service.params.storage).map(([name, params]) => ({
-            name,
-            mount: params.mount,
-            readOnly: params.readOnly || false,
-          })),
-        };
-      }
-
-      services.push(manifestService);
-    }
+      });
 
     groups.push({
       name: placementName,
@@ -446,41 +642,173 @@ export function sdlToManifest(sdl: ISDLManifest): object {
 }
 
 /**
- * Convert resources for manifest format
+ * Convert a service's exposes for manifest format
  */
-function convertManifestResources(resources: ISDLResources): object {
-  const cpuValue = parseCpuUnits(String(resources.cpu.units));
-  const memoryBytes = parseMemorySize(resources.memory.size);
+function convertManifestExpose(service: ISDLService, ipEndpoints: Map<string, number>): object[] {
+  return (service.expose || []).flatMap((exp) =>
+    (exp.to || []).map((to) => ({
+      port: exp.port,
+      externalPort: exp.as || 0,
+      proto: (exp.proto || 'tcp').toUpperCase(),
+      service: to.service || '',
+      global: to.global || false,
+      hosts: exp.accept || null,
+      httpOptions: convertHttpOptions(exp),
+      ip: to.ip || '',
+      endpointSequenceNumber: (to.ip && ipEndpoints.get(to.ip)) || 0,
+    })),
+  );
+}
 
-  const storageList = Array.isArray(resources.storage) ? resources.storage : [resources.storage];
+/**
+ * Convert resources for manifest format
+ */
+function convertManifestResources(
+  resources: ISDLResources,
+  service: ISDLService,
+  ipEndpoints: Map<string, number>,
+  id: number,
+): object {
+  const units = convertResources(resources, service, ipEndpoints);
 
-  const result: Record<string, unknown> = {
+  return {
+    id,
     cpu: {
-      units: Math.round(cpuValue * 1000),
-      attributes: [],
+      units: units.cpu.units,
     },
     memory: {
-      size: memoryBytes.toString(),
-      attributes: [],
+      size: units.memory.quantity,
+    },
+    storage: units.storage.map((storage) => ({
+      name: storage.name,
+      size: storage.quantity,
+      attributes: storage.attributes,
+    })),
+    gpu: {
+      units: units.gpu?.units || { val: '0' },
+      attributes: units.gpu?.attributes,
     },
-    storage: storageList.map((s, index) => ({
-      name: s.name || (index === 0 ? 'default' : `storage-${index}`),
-      size: parseMemorySize(s.size).toString(),
-      attributes: s.class ? [{ key: 'class', value: s.class }] : [],
+    // The provider omits the zero kind (shared HTTP) when serializing
+    endpoints: (units.endpoints || []).map((endpoint) => ({
+      kind: endpoint.kind || undefined,
+      sequence_number: endpoint.sequenceNumber,
     })),
   };
+}
 
-  if (resources.gpu && resources.gpu.units > 0) {
-    result.gpu = {
-      units: resources.gpu.units,
-      attributes: resources.gpu.attributes?.vendor?.nvidia?.map((m) => ({
-        key: 'vendor/nvidia/model',
-        value: m.model,
-      })) || [],
-    };
+/**
+ * Serialize a manifest the way providers do before hashing it
+ * Keys are sorted at every level, there is no whitespace, and <, > and & are
+ * escaped as the Go JSON encoder does. Undefined values are dropped.
+ * @param manifest - Manifest from sdlToManifest
+ * @returns Canonical JSON string
+ */
+export function serializeManifest(manifest: unknown): string {
+  return canonicalJson(manifest).replace(
+    /[<>&\u2028\u2029]/g,
+    (char) => `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`,
+  );
+}
+
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    const items = value.map((item) => (item === undefined ? 'null' : canonicalJson(item)));
+    return `[${items.join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    const entries = Object.keys(record)
+      .sort()
+      .filter((key) => record[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson(record[key])}`);
+    return `{${entries.join(',')}}`;
   }
+  return JSON.stringify(value);
+}
 
-  return result;
+/**
+ * Manifest httpOptions for an expose, applying http_options over the defaults
+ */
+function convertHttpOptions(expose: ISDLExpose): object {
+  const options = { ...DEFAULT_HTTP_OPTIONS, ...expose.http_options };
+  return {
+    maxBodySize: options.max_body_size,
+    readTimeout: options.read_timeout,
+    sendTimeout: options.send_timeout,
+    nextTries: options.next_tries,
+    nextTimeout: options.next_timeout,
+    nextCases: options.next_cases.map(String),
+  };
+}
+
+function getStorageList(resources: ISDLResources): ISDLStorage[] {
+  if (!resources.storage) {
+    return [];
+  }
+  return Array.isArray(resources.storage) ? resources.storage : [resources.storage];
+}
+
+function getStorageName(storage: ISDLStorage, index: number): string {
+  return storage.name || (index === 0 ? 'default' : `storage-${index}`);
+}
+
+function getStorageClass(storage: ISDLStorage): string | undefined {
+  return storage.attributes?.class || storage.class;
+}
+
+function isPersistent(storage: ISDLStorage): boolean {
+  return String(storage.attributes?.persistent) === 'true';
+}
+
+/**
+ * Storage attributes sorted by key, as the chain expects
+ */
+function getStorageAttributes(storage: ISDLStorage): IAttribute[] {
+  const attributes: IAttribute[] = [];
+  const storageClass = getStorageClass(storage);
+  if (storageClass) {
+    attributes.push({ key: 'class', value: storageClass });
+  }
+  if (storage.attributes?.persistent !== undefined) {
+    attributes.push({ key: 'persistent', value: String(isPersistent(storage)) });
+  }
+  return attributes;
+}
+
+/**
+ * GPU attributes in the vendor/<vendor>/model/<model>[/ram/<ram>][/interface/<interface>] form
+ * A vendor without models matches any model of that vendor.
+ */
+function getGpuAttributes(gpu: ISDLGpu): IAttribute[] {
+  const attributes: IAttribute[] = [];
+  for (const [vendor, models] of Object.entries(gpu.attributes?.vendor || {})) {
+    if (!models || models.length === 0) {
+      attributes.push({ key: `vendor/${vendor}/model/*`, value: 'true' });
+      continue;
+    }
+    for (const model of models) {
+      let key = `vendor/${vendor}/model/${model.model}`;
+      if (model.ram) {
+        key += `/ram/${model.ram}`;
+      }
+      if (model.interface) {
+        key += `/interface/${model.interface}`;
+      }
+      attributes.push({ key, value: 'true' });
+    }
+  }
+  return attributes.sort((a, b) => a.key.localeCompare(b.key));
+}
+
+/**
+ * Sequence numbers of the leased IP endpoints, numbered from 1 in name order
+ */
+function getIpEndpointSequences(sdl: ISDLManifest): Map<string, number> {
+  const sequences = new Map<string, number>();
+  Object.keys(sdl.endpoints || {})
+    .sort()
+    .forEach((name, index) => sequences.set(name, index + 1));
+  return sequences;
 }
 
 /**
@@ -0,0 +1,330 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { IDataObject } from 'n8n-workflow';
+import { Registry } from '@cosmjs/proto-signing';
+import { defaultRegistryTypes } from '@cosmjs/stargate';
+import { BinaryReader } from 'cosmjs-types/binary';
+import { Tx } from 'cosmjs-types/cosmos/tx/v1beta1/tx';
+import { ICoin, ITransaction, ITxMessage } from '../types';
+import { TOKEN_DENOMINATIONS } from '../constants';
+import { formatCoin, uaktToAkt } from './amountConverter';
+
+/**
+ * Transaction Helper
+ *
+ * Decodes raw transactions from tx_search into readable messages.
+ * Cosmos SDK messages are decoded with the stargate registry. Akash messages are read
+ * field by field and matched on their name only, so they still decode after a chain
+ * upgrade moves them to a new version (v1beta3 to v1beta4).
+ */
+
+type ProtoFields = Map<number, (bigint | Uint8Array)[]>;
+
+const registry = new Registry(defaultRegistryTypes);
+
+const VOTE_OPTION_NAMES: Record<number, string> = {
+  1: 'yes',
+  2: 'abstain',
+  3: 'no',
+  4: 'no with veto',
+};
+
+/**
+ * Decode a base64 encoded transaction
+ * @returns Fee, memo and messages; the chain result fields are left to the caller
+ */
+export function decodeTransaction(
+  txBase64: string,
+): Pick<
+  ITransaction,
+  'fee' | 'feeAkt' | 'feeGranter' | 'feePayer' | 'memo' | 'summary' | 'messages'
+> {
+  const tx = Tx.decode(Buffer.from(txBase64, 'base64'));
+  const fee = (tx.authInfo?.fee?.amount || []).map((coin) => ({
+    denom: coin.denom,
+    amount: coin.amount,
+  }));
+  const uakt = fee.find((coin) => coin.denom === TOKEN_DENOMINATIONS.uakt);
+  const messages = (tx.body?.messages || []).map((msg) => decodeMessage(msg.typeUrl, msg.value));
+
+  return {
+    fee,
+    feeAkt: uaktToAkt(uakt?.amount || '0'),
+    feeGranter: tx.authInfo?.fee?.granter || undefined,
+    feePayer: tx.authInfo?.fee?.payer || undefined,
+    memo: tx.body?.memo || '',
+    summary: messages.map((msg) => msg.summary).join('; '),
+    messages,
+  };
+}
+
+/**
+ * Decode one message into a summary and its fields
+ * Messages that cannot be decoded are still listed by type.
+ */
+export function decodeMessage(typeUrl: string, value: Uint8Array): ITxMessage {
+  const name = typeUrl.split('.').pop() || typeUrl;
+  try {
+    if (typeUrl.startsWith('/akash.')) {
+      return { typeUrl, ...decodeAkashMessage(name, readFields(value)) };
+    }
+    if (registry.lookupType(typeUrl)) {
+      const decoded = registry.decode({ typeUrl, value });
+      return { typeUrl, ...summarizeCosmosMessage(name, decoded) };
+    }
+  } catch {
+    // Fall through to the bare type
+  }
+  return { typeUrl, summary: readableName(name), data: {} };
+}
+
+function decodeAkashMessage(name: string, fields: ProtoFields): Omit<ITxMessage, 'typeUrl'> {
+  const id = readId(fields, 1);
+  const deployment = `deployment ${id.dseq}`;
+
+  switch (name) {
+    case 'MsgCreateDeployment': {
+      const deposit = readCoin(fields, 4);
+      const data = { ...id, deposit, depositor: readString(fields, 5) };
+      return {
+        summary: `Create ${deployment}${deposit ? ` with ${formatCoin(deposit)} deposit` : ''}`,
+        data,
+      };
+    }
+    case 'MsgDepositDeployment': {
+      const amount = readCoin(fields, 2);
+      const data = { ...id, amount, depositor: readString(fields, 3) };
+      return {
+        summary: `Deposit ${amount ? formatCoin(amount) : ''} to ${deployment}`,
+        data,
+      };
+    }
+    case 'MsgUpdateDeployment':
+      return { summary: `Update ${deployment}`, data: id };
+    case 'MsgCloseDeployment':
+      return { summary: `Close ${deployment}`, data: id };
+    case 'MsgCreateLease':
+      return { summary: `Create lease for ${deployment} with provider ${id.provider}`, data: id };
+    case 'MsgCloseLease':
+      return { summary: `Close lease for ${deployment} with provider ${id.provider}`, data: id };
+    case 'MsgWithdrawLease':
+      return {
+        summary: `Withdraw lease earnings for ${deployment} by provider ${id.provider}`,
+        data: id,
+      };
+    case 'MsgCreateBid': {
+      const provider = readString(fields, 2);
+      const price = readCoin(fields, 3);
+      const data = { ...id, provider, price };
+      return { summary: `Bid by ${provider} on ${deployment}`, data };
+    }
+    case 'MsgCloseBid':
+      return { summary: `Close bid by ${id.provider} on ${deployment}`, data: id };
+    case 'MsgCreateCertificate':
+      return {
+        summary: `Create certificate for ${readString(fields, 1)}`,
+        data: { owner: readString(fields, 1) },
+      };
+    case 'MsgRevokeCertificate': {
+      const certId = readNested(fields, 1);
+      const data = { owner: readString(certId, 1), serial: readString(certId, 2) };
+      return { summary: `Revoke certificate ${data.serial}`, data };
+    }
+    case 'MsgCreateProvider':
+    case 'MsgUpdateProvider': {
+      const data = { owner: readString(fields, 1), hostUri: readString(fields, 2) };
+      const action = name === 'MsgCreateProvider' ? 'Create' : 'Update';
+      return { summary: `${action} provider ${data.owner}`, data };
+    }
+    default:
+      return { summary: readableName(name), data: {} };
+  }
+}
+
+function summarizeCosmosMessage(
+  name: string,
+  decoded: Record<string, unknown>,
+): Omit<ITxMessage, 'typeUrl'> {
+  const data = toJson(decoded) as IDataObject;
+  // Addresses and IDs; proposal IDs decode as bigint
+  const text = (key: string) => {
+    const value = decoded[key];
+    return ['string', 'number', 'bigint'].includes(typeof value) ? String(value) : '';
+  };
+  // A single coin or a list of them
+  const coins = (key: string) => {
+    const value = decoded[key];
+    const list = Array.isArray(value) ? value : [value];
+    return list.filter(isCoin).map(formatCoin).join(', ');
+  };
+
+  switch (name) {
+    case 'MsgSend':
+      return {
+        summary: `Send ${coins('amount')} from ${text('fromAddress')} to ${text('toAddress')}`,
+        data,
+      };
+    case 'MsgDelegate':
+      return {
+        summary: `Delegate ${coins('amount')} to ${text('validatorAddress')}`,
+        data,
+      };
+    case 'MsgUndelegate':
+      return {
+        summary: `Undelegate ${coins('amount')} from ${text('validatorAddress')}`,
+        data,
+      };
+    case 'MsgBeginRedelegate':
+      return {
+        summary: `Redelegate ${coins('amount')} from ${text('validatorSrcAddress')} to ${text('validatorDstAddress')}`,
+        data,
+      };
+    case 'MsgWithdrawDelegatorReward':
+      return { summary: `Withdraw rewards from ${text('validatorAddress')}`, data };
+    case 'MsgSetWithdrawAddress':
+      return { summary: `Set withdraw address to ${text('withdrawAddress')}`, data };
+    case 'MsgVote':
+      return {
+        summary: `Vote ${VOTE_OPTION_NAMES[Number(decoded.option)] || text('option')} on proposal ${text('proposalId')}`,
+        data,
+      };
+    case 'MsgVoteWeighted':
+      return { summary: `Weighted vote on proposal ${text('proposalId')}`, data };
+    case 'MsgDeposit':
+      return {
+        summary: `Deposit ${coins('amount')} to proposal ${text('proposalId')}`,
+        data,
+      };
+    case 'MsgGrant':
+      return { summary: `Grant authorization to ${text('grantee')}`, data };
+    case 'MsgRevoke':
+      return {
+        summary: `Revoke ${text('msgTypeUrl')} authorization from ${text('grantee')}`,
+        data,
+      };
+    case 'MsgGrantAllowance':
+      return { summary: `Grant fee allowance to ${text('grantee')}`, data };
+    case 'MsgRevokeAllowance':
+      return { summary: `Revoke fee allowance of ${text('grantee')}`, data };
+    case 'MsgExec': {
+      const msgs = Array.isArray(decoded.msgs) ? decoded.msgs.filter(isAny) : [];
+      const inner = msgs.map((msg) => decodeMessage(msg.typeUrl, msg.value));
+      return {
+        summary: `Execute as granter: ${inner.map((msg) => msg.summary).join('; ')}`,
+        data: { grantee: text('grantee'), msgs: inner as unknown as IDataObject[] },
+      };
+    }
+    case 'MsgTransfer':
+      return {
+        summary: `IBC transfer ${coins('token')} to ${text('receiver')}`,
+        data,
+      };
+    default:
+      return { summary: readableName(name), data };
+  }
+}
+
+function isCoin(value: unknown): value is ICoin {
+  const coin = value as ICoin | undefined;
+  return typeof coin?.denom === 'string' && typeof coin.amount === 'string';
+}
+
+function isAny(value: unknown): value is { typeUrl: string; value: Uint8Array } {
+  const any = value as { typeUrl?: unknown; value?: unknown } | undefined;
+  return typeof any?.typeUrl === 'string' && any.value instanceof Uint8Array;
+}
+
+/**
+ * Read the top-level fields of a protobuf message
+ * Varints are kept as bigint and length-delimited fields as bytes; the caller knows the schema.
+ */
+function readFields(bytes: Uint8Array): ProtoFields {
+  const reader = new BinaryReader(bytes);
+  const fields: ProtoFields = new Map();
+  while (reader.pos < reader.len) {
+    const tag = reader.uint32();
+    const wireType = tag & 7;
+    let value: bigint | Uint8Array;
+    if (wireType === 0) {
+      value = reader.uint64();
+    } else if (wireType === 2) {
+      value = reader.bytes();
+    } else {
+      reader.skipType(wireType);
+      continue;
+    }
+    const field = tag >>> 3;
+    fields.set(field, [...(fields.get(field) || []), value]);
+  }
+  return fields;
+}
+
+function readNested(fields: ProtoFields, field: number): ProtoFields {
+  const value = fields.get(field)?.[0];
+  return value instanceof Uint8Array ? readFields(value) : new Map();
+}
+
+function readString(fields: ProtoFields, field: number): string {
+  const value = fields.get(field)?.[0];
+  return value instanceof Uint8Array ? Buffer.from(value).toString('utf8') : '';
+}
+
+function readUint(fields: ProtoFields, field: number): string {
+  const value = fields.get(field)?.[0];
+  return typeof value === 'bigint' ? value.toString() : '0';
+}
+
+/**
+ * Deployment, order, bid and lease IDs share their field numbers
+ */
+function readId(fields: ProtoFields, field: number): IDataObject {
+  const id = readNested(fields, field);
+  const result: IDataObject = { owner: readString(id, 1), dseq: readUint(id, 2) };
+  if (id.has(3)) result.gseq = Number(readUint(id, 3));
+  if (id.has(4)) result.oseq = Number(readUint(id, 4));
+  if (id.has(5)) result.provider = readString(id, 5);
+  return result;
+}
+
+function readCoin(fields: ProtoFields, field: number): ICoin | undefined {
+  if (!fields.has(field)) {
+    return undefined;
+  }
+  const coin = readNested(fields, field);
+  return { denom: readString(coin, 1), amount: readString(coin, 2) };
+}
+
+/**
+ * Decoded protobuf values with bigints as strings and bytes as base64
+ */
+function toJson(value: unknown): unknown {
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  if (value instanceof Uint8Array) {
+    return Buffer.from(value).toString('base64');
+  }
+  if (Array.isArray(value)) {
+    return value.map(toJson);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, v]) => [key, toJson(v)]));
+  }
+  return value;
+}
+
+/**
+ * MsgCreateDeployment -> Create deployment
+ */
+function readableName(name: string): string {
+  const words = name
+    .replace(/^Msg/, '')
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
@@ -0,0 +1,339 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { GeneratedType, Registry } from '@cosmjs/proto-signing';
+import { defaultRegistryTypes } from '@cosmjs/stargate';
+import { toUtf8 } from '@cosmjs/encoding';
+import { BinaryReader, BinaryWriter } from 'cosmjs-types/binary';
+import { Coin } from 'cosmjs-types/cosmos/base/v1beta1/coin';
+
+/**
+ * Akash Registry
+ *
+ * Protobuf encoding of the Akash messages this node sends. CosmJS only knows the Cosmos
+ * SDK messages, and the registry of the signing client is also what encodes messages
+ * wrapped in an AuthZ MsgExec. Field numbers follow the akash-api protos; field names
+ * follow the value objects built by this node (see IGroupSpec).
+ */
+
+type ScalarType = 'string' | 'bytes' | 'uint32' | 'int32' | 'uint64' | 'decimal';
+
+interface IMessageType {
+  encode(message: Record<string, unknown>, writer?: BinaryWriter): BinaryWriter;
+  decode(input: BinaryReader | Uint8Array, length?: number): Record<string, unknown>;
+  fromPartial(object: Record<string, unknown>): Record<string, unknown>;
+}
+
+interface IField {
+  no: number;
+  name: string;
+  type: ScalarType | IMessageType;
+  repeated?: boolean;
+}
+
+// Protobuf wire types
+const VARINT = 0;
+const LENGTH_DELIMITED = 2;
+
+// Decimals are sent as integers of 10^-18 units
+const DECIMAL_PLACES = 18;
+
+/**
+ * Create a message type from its fields
+ * Scalars equal to their default are left out, as protobuf encoders do.
+ */
+function messageType(fields: IField[]): IMessageType {
+  const byNumber = new Map(fields.map((field) => [field.no, field]));
+
+  const type: IMessageType = {
+    encode(message: Record<string, unknown>, writer = BinaryWriter.create()): BinaryWriter {
+      for (const field of fields) {
+        const value = message[field.name];
+        if (value === undefined || value === null) {
+          continue;
+        }
+        const values = field.repeated ? (value as unknown[]) : [value];
+        for (const item of values) {
+          writeField(writer, field, item);
+        }
+      }
+      return writer;
+    },
+
+    decode(input: BinaryReader | Uint8Array, length?: number): Record<string, unknown> {
+      const reader = input instanceof BinaryReader ? input : new BinaryReader(input);
+      const end = length === undefined ? reader.len : reader.pos + length;
+      const message: Record<string, unknown> = {};
+      while (reader.pos < end) {
+        const tag = reader.uint32();
+        const field = byNumber.get(tag >>> 3);
+        if (!field) {
+          reader.skipType(tag & 7);
+          continue;
+        }
+        const value = readField(reader, field);
+        if (field.repeated) {
+          message[field.name] = [...((message[field.name] as unknown[]) || []), value];
+        } else {
+          message[field.name] = value;
+        }
+      }
+      return message;
+    },
+
+    fromPartial(object: Record<string, unknown>): Record<string, unknown> {
+      return { ...object };
+    },
+  };
+  return type;
+}
+
+function writeField(writer: BinaryWriter, field: IField, value: unknown): void {
+  switch (field.type) {
+    case 'string':
+      if (value !== '') {
+        writer.uint32((field.no << 3) | LENGTH_DELIMITED).string(value as string);
+      }
+      return;
+    case 'bytes': {
+      // Resource quantities are kept as strings and sent as their UTF-8 bytes
+      const bytes = typeof value === 'string' ? toUtf8(value) : (value as Uint8Array);
+      if (bytes.length > 0) {
+        writer.uint32((field.no << 3) | LENGTH_DELIMITED).bytes(bytes);
+      }
+      return;
+    }
+    case 'decimal':
+      if (value !== '') {
+        writer.uint32((field.no << 3) | LENGTH_DELIMITED).string(toAtomics(String(value)));
+      }
+      return;
+    case 'uint32':
+      if (Number(value) !== 0) {
+        writer.uint32((field.no << 3) | VARINT).uint32(Number(value));
+      }
+      return;
+    case 'int32':
+      if (Number(value) !== 0) {
+        writer.uint32((field.no << 3) | VARINT).int32(Number(value));
+      }
+      return;
+    case 'uint64':
+      if (String(value) !== '0') {
+        writer.uint32((field.no << 3) | VARINT).uint64(value as string | number);
+      }
+      return;
+    default:
+      field.type
+        .encode(
+          field.type.fromPartial(value as Record<string, unknown>),
+          writer.uint32((field.no << 3) | LENGTH_DELIMITED).fork(),
+        )
+        .ldelim();
+  }
+}
+
+function readField(reader: BinaryReader, field: IField): unknown {
+  switch (field.type) {
+    case 'string':
+      return reader.string();
+    case 'bytes':
+      return reader.bytes();
+    case 'decimal':
+      return fromAtomics(reader.string());
+    case 'uint32':
+      return reader.uint32();
+    case 'int32':
+      return reader.int32();
+    case 'uint64':
+      return reader.uint64().toString();
+    default:
+      return field.type.decode(reader, reader.uint32());
+  }
+}
+
+// Coins are the Cosmos SDK message of cosmjs-types
+const CosmosCoin = Coin as unknown as IMessageType;
+
+// The cosmjs-types DecCoin sends the amount as given instead of as a decimal
+const DecCoin = messageType([
+  { no: 1, name: 'denom', type: 'string' },
+  { no: 2, name: 'amount', type: 'decimal' },
+]);
+
+/**
+ * Decimal string to its integer of 10^-18 units, e.g. "1.5" to "1500000000000000000"
+ */
+function toAtomics(value: string): string {
+  const [whole, fraction = ''] = value.split('.');
+  return BigInt(whole + fraction.padEnd(DECIMAL_PLACES, '0').slice(0, DECIMAL_PLACES)).toString();
+}
+
+function fromAtomics(atomics: string): string {
+  const digits = atomics.padStart(DECIMAL_PLACES + 1, '0');
+  const whole = digits.slice(0, -DECIMAL_PLACES);
+  const fraction = digits.slice(-DECIMAL_PLACES).replace(/0+$/, '');
+  return fraction ? `${whole}.${fraction}` : whole;
+}
+
+// ============================================================================
+// akash.base.v1beta3
+// ============================================================================
+
+const Attribute = messageType([
+  { no: 1, name: 'key', type: 'string' },
+  { no: 2, name: 'value', type: 'string' },
+]);
+
+const SignedBy = messageType([
+  { no: 1, name: 'allOf', type: 'string', repeated: true },
+  { no: 2, name: 'anyOf', type: 'string', repeated: true },
+]);
+
+const PlacementRequirements = messageType([
+  { no: 1, name: 'signedBy', type: SignedBy },
+  { no: 2, name: 'attributes', type: Attribute, repeated: true },
+]);
+
+const ResourceValue = messageType([{ no: 1, name: 'val', type: 'bytes' }]);
+
+const CPU = messageType([
+  { no: 1, name: 'units', type: ResourceValue },
+  { no: 2, name: 'attributes', type: Attribute, repeated: true },
+]);
+
+const Memory = messageType([
+  { no: 1, name: 'quantity', type: ResourceValue },
+  { no: 2, name: 'attributes', type: Attribute, repeated: true },
+]);
+
+const Storage = messageType([
+  { no: 1, name: 'name', type: 'string' },
+  { no: 2, name: 'quantity', type: ResourceValue },
+  { no: 3, name: 'attributes', type: Attribute, repeated: true },
+]);
+
+const GPU = messageType([
+  { no: 1, name: 'units', type: ResourceValue },
+  { no: 2, name: 'attributes', type: Attribute, repeated: true },
+]);
+
+const Endpoint = messageType([
+  { no: 1, name: 'kind', type: 'int32' },
+  { no: 2, name: 'sequenceNumber', type: 'uint32' },
+]);
+
+const Resources = messageType([
+  { no: 1, name: 'id', type: 'uint32' },
+  { no: 2, name: 'cpu', type: CPU },
+  { no: 3, name: 'memory', type: Memory },
+  { no: 4, name: 'storage', type: Storage, repeated: true },
+  { no: 5, name: 'gpu', type: GPU },
+  { no: 6, name: 'endpoints', type: Endpoint, repeated: true },
+]);
+
+// ============================================================================
+// akash.deployment.v1beta3
+// ============================================================================
+
+const DeploymentID = messageType([
+  { no: 1, name: 'owner', type: 'string' },
+  { no: 2, name: 'dseq', type: 'uint64' },
+]);
+
+// The resources of a unit are held in `resources`, as in IResourceGroup
+const ResourceUnit = messageType([
+  { no: 1, name: 'resources', type: Resources },
+  { no: 2, name: 'count', type: 'uint32' },
+  { no: 3, name: 'price', type: DecCoin },
+]);
+
+const GroupSpec = messageType([
+  { no: 1, name: 'name', type: 'string' },
+  { no: 2, name: 'requirements', type: PlacementRequirements },
+  { no: 3, name: 'resources', type: ResourceUnit, repeated: true },
+]);
+
+const MsgCreateDeployment = messageType([
+  { no: 1, name: 'id', type: DeploymentID },
+  { no: 2, name: 'groups', type: GroupSpec, repeated: true },
+  { no: 3, name: 'version', type: 'bytes' },
+  { no: 4, name: 'deposit', type: CosmosCoin },
+  { no: 5, name: 'depositor', type: 'string' },
+]);
+
+const MsgDepositDeployment = messageType([
+  { no: 1, name: 'id', type: DeploymentID },
+  { no: 2, name: 'amount', type: CosmosCoin },
+  { no: 3, name: 'depositor', type: 'string' },
+]);
+
+const MsgUpdateDeployment = messageType([
+  { no: 1, name: 'id', type: DeploymentID },
+  { no: 3, name: 'version', type: 'bytes' },
+]);
+
+const MsgCloseDeployment = messageType([{ no: 1, name: 'id', type: DeploymentID }]);
+
+// ============================================================================
+// akash.market.v1beta4
+// ============================================================================
+
+// BidID and LeaseID have the same fields
+const LeaseID = messageType([
+  { no: 1, name: 'owner', type: 'string' },
+  { no: 2, name: 'dseq', type: 'uint64' },
+  { no: 3, name: 'gseq', type: 'uint32' },
+  { no: 4, name: 'oseq', type: 'uint32' },
+  { no: 5, name: 'provider', type: 'string' },
+]);
+
+const MsgCreateLease = messageType([{ no: 1, name: 'bidId', type: LeaseID }]);
+
+// The lease of MsgWithdrawLease is named bid_id in the proto
+const MsgWithdrawLease = messageType([{ no: 1, name: 'bidId', type: LeaseID }]);
+
+const MsgCloseLease = messageType([{ no: 1, name: 'leaseId', type: LeaseID }]);
+
+// ============================================================================
+// akash.cert.v1beta3
+// ============================================================================
+
+const CertificateID = messageType([
+  { no: 1, name: 'owner', type: 'string' },
+  { no: 2, name: 'serial', type: 'string' },
+]);
+
+const MsgCreateCertificate = messageType([
+  { no: 1, name: 'owner', type: 'string' },
+  { no: 2, name: 'cert', type: 'bytes' },
+  { no: 3, name: 'pubkey', type: 'bytes' },
+]);
+
+const MsgRevokeCertificate = messageType([{ no: 1, name: 'id', type: CertificateID }]);
+
+/**
+ * Akash message types by type URL
+ */
+export const akashRegistryTypes: ReadonlyArray<[string, GeneratedType]> = [
+  ['/akash.deployment.v1beta3.MsgCreateDeployment', MsgCreateDeployment],
+  ['/akash.deployment.v1beta3.MsgDepositDeployment', MsgDepositDeployment],
+  ['/akash.deployment.v1beta3.MsgUpdateDeployment', MsgUpdateDeployment],
+  ['/akash.deployment.v1beta3.MsgCloseDeployment', MsgCloseDeployment],
+  ['/akash.market.v1beta4.MsgCreateLease', MsgCreateLease],
+  ['/akash.market.v1beta4.MsgWithdrawLease', MsgWithdrawLease],
+  ['/akash.market.v1beta4.MsgCloseLease', MsgCloseLease],
+  ['/akash.cert.v1beta3.MsgCreateCertificate', MsgCreateCertificate],
+  ['/akash.cert.v1beta3.MsgRevokeCertificate', MsgRevokeCertificate],
+];
+
+/**
+ * Create a registry with the Cosmos SDK and Akash message types
+ */
+export function createAkashRegistry(): Registry {
+  return new Registry([...defaultRegistryTypes, ...akashRegistryTypes]);
+}
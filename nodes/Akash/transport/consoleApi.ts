@@ -12,6 +12,7 @@ import {
   ILease,
   ILeaseStatus,
   IOrder,
+  IOrderId,
   IBid,
   IProvider,
   IProviderStatus,
@@ -172,6 +173,20 @@ export class ConsoleApiClient {
     });
   }
 
+  /**
+   * Get every lease of a deployment, ordered by gseq/oseq
+   */
+  async getDeploymentLeases(owner: string, dseq: string): Promise<ILease[]> {
+    const leases = await this.request<ILease[]>({
+      method: 'GET',
+      url: `/leases`,
+      params: { owner, dseq },
+    });
+    return leases
+      .filter((lease) => String(lease.leaseId?.dseq) === dseq)
+      .sort((a, b) => compareOrderIds(a.leaseId, b.leaseId));
+  }
+
   /**
    * Get a specific lease
    */
@@ -239,6 +254,20 @@ export class ConsoleApiClient {
     });
   }
 
+  /**
+   * Get every order of a deployment, ordered by gseq/oseq
+   */
+  async getDeploymentOrders(owner: string, dseq: string): Promise<IOrder[]> {
+    const orders = await this.request<IOrder[]>({
+      method: 'GET',
+      url: `/orders`,
+      params: { owner, dseq },
+    });
+    return orders
+      .filter((order) => String(order.orderId?.dseq) === dseq)
+      .sort((a, b) => compareOrderIds(a.orderId, b.orderId));
+  }
+
   /**
    * Get a specific order
    */
@@ -420,6 +449,13 @@ export class ConsoleApiClient {
   }
 }
 
+/**
+ * Sort order and lease identifiers by gseq, then oseq
+ */
+function compareOrderIds(a: IOrderId, b: IOrderId): number {
+  return Number(a.gseq) - Number(b.gseq) || Number(a.oseq) - Number(b.oseq);
+}
+
 /**
  * Create Console API client from n8n context
  */
@@ -13,28 +13,66 @@ import {
   setupBankExtension,
   setupStakingExtension,
   setupDistributionExtension,
+  setupAuthzExtension,
+  setupFeegrantExtension,
+  setupGovExtension,
   GasPrice,
   DeliverTxResponse,
   StdFee,
+  calculateFee,
 } from '@cosmjs/stargate';
-import { DirectSecp256k1HdWallet, OfflineDirectSigner } from '@cosmjs/proto-signing';
+import { DirectSecp256k1HdWallet, EncodeObject, OfflineDirectSigner } from '@cosmjs/proto-signing';
 import { Tendermint37Client } from '@cosmjs/tendermint-rpc';
-import { fromHex, toBase64 } from '@cosmjs/encoding';
-import { Secp256k1, sha256, Random, Slip10, Slip10Curve, stringToPath } from '@cosmjs/crypto';
+import { fromBase64 } from '@cosmjs/encoding';
+import { stringToPath } from '@cosmjs/crypto';
+import { GenericAuthorization } from 'cosmjs-types/cosmos/authz/v1beta1/authz';
+import {
+  AllowedMsgAllowance,
+  BasicAllowance,
+  PeriodicAllowance,
+} from 'cosmjs-types/cosmos/feegrant/v1beta1/feegrant';
+import {
+  Proposal,
+  ProposalStatus,
+  TallyResult,
+  TextProposal,
+  VoteOption,
+} from 'cosmjs-types/cosmos/gov/v1beta1/gov';
+import { SoftwareUpgradeProposal } from 'cosmjs-types/cosmos/upgrade/v1beta1/upgrade';
+import { TxRaw } from 'cosmjs-types/cosmos/tx/v1beta1/tx';
+import { Timestamp } from 'cosmjs-types/google/protobuf/timestamp';
+import { Any } from 'cosmjs-types/google/protobuf/any';
 import {
   IAkashApiCredentials,
+  IAuthzGrant,
+  IFeeAllowance,
+  IFeeAllowanceParams,
+  IProposal,
+  IProposalTally,
+  ProposalStatusName,
+  VoteOptionName,
   IAkashRpcCredentials,
   ITransactionResult,
+  ITxOptions,
   IWalletBalance,
   IDelegation,
   IReward,
+  IValidator,
   ICoin,
   IDeploymentId,
   IGroupSpec,
+  ICertificateKeyPair,
 } from '../types';
 import { AKASH_ENDPOINTS, CHAIN_IDS, GAS_SETTINGS, TOKEN_DENOMINATIONS } from '../constants';
 import { generateVersionHash, sdlToGroups, sdlToManifest, parseSDL } from '../helpers/sdlParser';
 import { aktToUakt, createAktCoin } from '../helpers/amountConverter';
+import { generateCertificate } from '../helpers/certificate';
+import { buildHdPath } from '../helpers/hdPath';
+import { importKeystore } from '../helpers/keystore';
+import { createAkashRegistry } from './akashRegistry';
+import { createOfflineSigner, parsePublicKey } from './offlineSigner';
+import { createPrivateKeySigner } from './privateKeySigner';
+import { getSequenceManager } from './sequenceManager';
 
 /**
  * Cosmos Client
@@ -50,13 +88,46 @@ const MSG_TYPES = {
   updateDeployment: '/akash.deployment.v1beta3.MsgUpdateDeployment',
   depositDeployment: '/akash.deployment.v1beta3.MsgDepositDeployment',
   createLease: '/akash.market.v1beta4.MsgCreateLease',
-  closeLease: '/akash.market.v1beta4.MsgWithdrawLease',
+  closeLease: '/akash.market.v1beta4.MsgCloseLease',
   withdrawLease: '/akash.market.v1beta4.MsgWithdrawLease',
   createCertificate: '/akash.cert.v1beta3.MsgCreateCertificate',
   revokeCertificate: '/akash.cert.v1beta3.MsgRevokeCertificate',
   sendTokens: '/cosmos.bank.v1beta1.MsgSend',
+  grant: '/cosmos.authz.v1beta1.MsgGrant',
+  revoke: '/cosmos.authz.v1beta1.MsgRevoke',
+  exec: '/cosmos.authz.v1beta1.MsgExec',
+  grantAllowance: '/cosmos.feegrant.v1beta1.MsgGrantAllowance',
+  revokeAllowance: '/cosmos.feegrant.v1beta1.MsgRevokeAllowance',
+  delegate: '/cosmos.staking.v1beta1.MsgDelegate',
+  undelegate: '/cosmos.staking.v1beta1.MsgUndelegate',
+  redelegate: '/cosmos.staking.v1beta1.MsgBeginRedelegate',
+  withdrawRewards: '/cosmos.distribution.v1beta1.MsgWithdrawDelegatorReward',
+  setWithdrawAddress: '/cosmos.distribution.v1beta1.MsgSetWithdrawAddress',
+  vote: '/cosmos.gov.v1beta1.MsgVote',
+  voteWeighted: '/cosmos.gov.v1beta1.MsgVoteWeighted',
+  govDeposit: '/cosmos.gov.v1beta1.MsgDeposit',
 } as const;
 
+const PROPOSAL_STATUSES: Record<ProposalStatusName, ProposalStatus> = {
+  deposit: ProposalStatus.PROPOSAL_STATUS_DEPOSIT_PERIOD,
+  voting: ProposalStatus.PROPOSAL_STATUS_VOTING_PERIOD,
+  passed: ProposalStatus.PROPOSAL_STATUS_PASSED,
+  rejected: ProposalStatus.PROPOSAL_STATUS_REJECTED,
+  failed: ProposalStatus.PROPOSAL_STATUS_FAILED,
+};
+
+const VOTE_OPTIONS: Record<VoteOptionName, VoteOption> = {
+  yes: VoteOption.VOTE_OPTION_YES,
+  abstain: VoteOption.VOTE_OPTION_ABSTAIN,
+  no: VoteOption.VOTE_OPTION_NO,
+  noWithVeto: VoteOption.VOTE_OPTION_NO_WITH_VETO,
+};
+
+// Commission rates are 18-decimal fixed point integers on chain
+const DEC_PRECISION = 1e18;
+
+const GENERIC_AUTHORIZATION = '/cosmos.authz.v1beta1.GenericAuthorization';
+
 export class CosmosClient {
   private rpcEndpoint: string;
   private restEndpoint: string;
@@ -65,7 +136,10 @@ export class CosmosClient {
   private signer?: OfflineDirectSigner;
   private signingClient?: SigningStargateClient;
   private queryClient?: QueryClient;
+  private tendermint?: Tendermint37Client;
   private walletAddress?: string;
+  private pooled = false;
+  private offline = false;
 
   constructor(
     credentials: IAkashApiCredentials | IAkashRpcCredentials,
@@ -89,60 +163,70 @@ export class CosmosClient {
    * Initialize the client with wallet credentials
    */
   async initialize(credentials: IAkashApiCredentials): Promise<void> {
-    if (credentials.mnemonic) {
+    if (credentials.authMethod === 'external') {
+      const address = credentials.walletAddress;
+      this.offline = true;
+      this.signer = createOfflineSigner(address, async () => {
+        if (credentials.publicKey) {
+          return parsePublicKey(credentials.publicKey);
+        }
+        const account = await (await this.getQueryClient()).getAccount(address);
+        if (!account?.pubkey) {
+          throw new Error(
+            `The public key of ${address} is not on chain yet. Set Public Key in the credentials.`,
+          );
+        }
+        return fromBase64(account.pubkey.value);
+      });
+    } else if (credentials.authMethod === 'keystore') {
+      this.signer = await importKeystore(
+        credentials.keystore || '',
+        credentials.keystorePassphrase || '',
+        credentials.walletAddress,
+      );
+    } else if (credentials.mnemonic) {
+      const hdPath = buildHdPath(credentials.accountIndex || 0, credentials.hdPath || undefined);
       this.signer = await DirectSecp256k1HdWallet.fromMnemonic(credentials.mnemonic, {
         prefix: 'akash',
-        hdPaths: [stringToPath("m/44'/118'/0'/0/0")],
+        hdPaths: [stringToPath(hdPath)],
       });
     } else if (credentials.privateKey) {
-      // Handle private key (simplified - full implementation would need more)
-      const privateKeyBytes = fromHex(credentials.privateKey.replace('0x', ''));
-      const uncompressedPubkey = (await Secp256k1.makeKeypair(privateKeyBytes)).pubkey;
-      const pubkeyCompressed = Secp256k1.compressPubkey(uncompressedPubkey);
-      
-      // Create a simple signer from private key
-      this.signer = {
-        getAccounts: async () => [{
-          address: credentials.walletAddress,
-          algo: 'secp256k1' as const,
-          pubkey: pubkeyCompressed,
-        }],
-        signDirect: async (_signerAddress, signDoc) => {
-          const signBytes = signDoc.bodyBytes;
-          const messageHash = sha256(signBytes);
-          const signature = await Secp256k1.createSignature(messageHash, privateKeyBytes);
-          return {
-            signed: signDoc,
-            signature: {
-              pub_key: {
-                type: 'tendermint/PubKeySecp256k1',
-                value: toBase64(pubkeyCompressed),
-              },
-              signature: toBase64(signature.toFixedLength()),
-            },
-          };
-        },
-      } as OfflineDirectSigner;
+      this.signer = await createPrivateKeySigner(
+        credentials.privateKey,
+        credentials.walletAddress,
+      );
     }
 
     if (this.signer) {
-      const accounts = await this.signer.getAccounts();
+      // The external signer only looks up its public key once a transaction is built
+      const accounts =
+        credentials.authMethod === 'external' ? [] : await this.signer.getAccounts();
       this.walletAddress = accounts[0]?.address || credentials.walletAddress;
 
       this.signingClient = await SigningStargateClient.connectWithSigner(
         this.rpcEndpoint,
         this.signer,
-        { gasPrice: this.gasPrice },
+        { gasPrice: this.gasPrice, registry: createAkashRegistry() },
       );
     }
 
-    // Initialize query client
-    const tendermint = await Tendermint37Client.connect(this.rpcEndpoint);
+    await this.connect();
+  }
+
+  /**
+   * Connect the query client
+   * Enough on its own for read-only queries that need no wallet.
+   */
+  async connect(): Promise<void> {
+    this.tendermint = await Tendermint37Client.connect(this.rpcEndpoint);
     this.queryClient = QueryClient.withExtensions(
-      tendermint,
+      this.tendermint,
       setupBankExtension,
       setupStakingExtension,
       setupDistributionExtension,
+      setupAuthzExtension,
+      setupFeegrantExtension,
+      setupGovExtension,
     );
   }
 
@@ -156,6 +240,21 @@ export class CosmosClient {
     return this.walletAddress;
   }
 
+  /**
+   * Get the RPC endpoint the client connects to
+   */
+  getRpcEndpoint(): string {
+    return this.rpcEndpoint;
+  }
+
+  /**
+   * Address that owns the messages of a transaction
+   * This is the granter when acting through an AuthZ grant, otherwise the connected wallet.
+   */
+  getOwnerAddress(txOptions?: ITxOptions): string {
+    return txOptions?.authzGranter || this.getWalletAddress();
+  }
+
   /**
    * Get read-only Stargate client
    */
@@ -195,20 +294,26 @@ export class CosmosClient {
     amount: string,
     denom: string = TOKEN_DENOMINATIONS.uakt,
     memo?: string,
+    txOptions: ITxOptions = {},
   ): Promise<ITransactionResult> {
     if (!this.signingClient || !this.walletAddress) {
       throw new Error('Signing client not initialized');
     }
 
+    const owner = this.getOwnerAddress(txOptions);
+
     const sendAmount: ICoin = { denom, amount };
 
-    const result = await this.signingClient.sendTokens(
-      this.walletAddress,
-      recipient,
-      [sendAmount],
-      'auto',
-      memo,
-    );
+    const msg = {
+      typeUrl: MSG_TYPES.sendTokens,
+      value: {
+        fromAddress: owner,
+        toAddress: recipient,
+        amount: [sendAmount],
+      },
+    };
+
+    const result = await this.broadcast([msg], memo || '', txOptions);
 
     return this.formatTxResult(result);
   }
@@ -267,6 +372,196 @@ export class CosmosClient {
     }));
   }
 
+  /**
+   * Get the active validator set, most voting power first
+   * Voting power is the validator's share of all bonded tokens.
+   */
+  async getValidators(): Promise<IValidator[]> {
+    if (!this.queryClient) {
+      throw new Error('Query client not initialized');
+    }
+
+    const staking = (this.queryClient as unknown as ReturnType<typeof setupStakingExtension>)
+      .staking;
+    const validators: IValidator[] = [];
+    let paginationKey: Uint8Array | undefined;
+
+    do {
+      const response = await staking.validators('BOND_STATUS_BONDED', paginationKey);
+      for (const v of response.validators) {
+        validators.push({
+          operatorAddress: v.operatorAddress,
+          moniker: v.description.moniker,
+          commission: Number(v.commission.commissionRates.rate) / DEC_PRECISION,
+          tokens: v.tokens,
+          votingPower: 0,
+          jailed: v.jailed,
+        });
+      }
+      paginationKey = response.pagination?.nextKey;
+    } while (paginationKey && paginationKey.length > 0);
+
+    const bonded = validators.reduce((sum, v) => sum + Number(v.tokens), 0);
+    for (const validator of validators) {
+      validator.votingPower = bonded > 0 ? Number(validator.tokens) / bonded : 0;
+    }
+
+    return validators.sort((a, b) => b.votingPower - a.votingPower);
+  }
+
+  /**
+   * Delegate tokens to a validator
+   */
+  async delegate(
+    validator: string,
+    amount: string,
+    txOptions?: ITxOptions,
+  ): Promise<ITransactionResult> {
+    if (!this.signingClient || !this.walletAddress) {
+      throw new Error('Signing client not initialized');
+    }
+
+    const owner = this.getOwnerAddress(txOptions);
+
+    const msg = {
+      typeUrl: MSG_TYPES.delegate,
+      value: {
+        delegatorAddress: owner,
+        validatorAddress: validator,
+        amount: { denom: TOKEN_DENOMINATIONS.uakt, amount },
+      },
+    };
+
+    const result = await this.broadcast([msg], 'Delegated via n8n-nodes-akash', txOptions);
+
+    return this.formatTxResult(result);
+  }
+
+  /**
+   * Undelegate tokens from a validator
+   * The tokens unbond over the chain's unbonding period.
+   */
+  async undelegate(
+    validator: string,
+    amount: string,
+    txOptions?: ITxOptions,
+  ): Promise<ITransactionResult> {
+    if (!this.signingClient || !this.walletAddress) {
+      throw new Error('Signing client not initialized');
+    }
+
+    const owner = this.getOwnerAddress(txOptions);
+
+    const msg = {
+      typeUrl: MSG_TYPES.undelegate,
+      value: {
+        delegatorAddress: owner,
+        validatorAddress: validator,
+        amount: { denom: TOKEN_DENOMINATIONS.uakt, amount },
+      },
+    };
+
+    const result = await this.broadcast([msg], 'Undelegated via n8n-nodes-akash', txOptions);
+
+    return this.formatTxResult(result);
+  }
+
+  /**
+   * Move delegated tokens from one validator to another without unbonding
+   */
+  async redelegate(
+    sourceValidator: string,
+    destinationValidator: string,
+    amount: string,
+    txOptions?: ITxOptions,
+  ): Promise<ITransactionResult> {
+    if (!this.signingClient || !this.walletAddress) {
+      throw new Error('Signing client not initialized');
+    }
+
+    const owner = this.getOwnerAddress(txOptions);
+
+    const msg = {
+      typeUrl: MSG_TYPES.redelegate,
+      value: {
+        delegatorAddress: owner,
+        validatorSrcAddress: sourceValidator,
+        validatorDstAddress: destinationValidator,
+        amount: { denom: TOKEN_DENOMINATIONS.uakt, amount },
+      },
+    };
+
+    const result = await this.broadcast([msg], 'Redelegated via n8n-nodes-akash', txOptions);
+
+    return this.formatTxResult(result);
+  }
+
+  /**
+   * Withdraw staking rewards from every validator with pending rewards
+   */
+  async withdrawAllRewards(
+    txOptions?: ITxOptions,
+  ): Promise<{ result: ITransactionResult; validators: string[] }> {
+    if (!this.signingClient || !this.walletAddress) {
+      throw new Error('Signing client not initialized');
+    }
+
+    const owner = this.getOwnerAddress(txOptions);
+
+    const rewards = await this.getRewards(owner);
+    const validators = rewards
+      .filter((r) => r.reward.some((c) => parseFloat(c.amount) > 0))
+      .map((r) => r.validatorAddress);
+    if (validators.length === 0) {
+      throw new Error(`No staking rewards to withdraw for ${owner}`);
+    }
+
+    const msgs = validators.map((validatorAddress) => ({
+      typeUrl: MSG_TYPES.withdrawRewards,
+      value: {
+        delegatorAddress: owner,
+        validatorAddress,
+      },
+    }));
+
+    const result = await this.broadcast(msgs, 'Rewards withdrawn via n8n-nodes-akash', txOptions);
+
+    return {
+      result: this.formatTxResult(result),
+      validators,
+    };
+  }
+
+  /**
+   * Set the address staking rewards are paid to
+   */
+  async setWithdrawAddress(
+    withdrawAddress: string,
+    txOptions?: ITxOptions,
+  ): Promise<ITransactionResult> {
+    if (!this.signingClient || !this.walletAddress) {
+      throw new Error('Signing client not initialized');
+    }
+
+    const owner = this.getOwnerAddress(txOptions);
+
+    const msg = {
+      typeUrl: MSG_TYPES.setWithdrawAddress,
+      value: {
+        delegatorAddress: owner,
+        withdrawAddress,
+      },
+    };
+
+    const result = await this.broadcast(
+      [msg],
+      'Withdraw address set via n8n-nodes-akash',
+      txOptions,
+    );
+
+    return this.formatTxResult(result);
+  }
+
   // ============================================================================
   // Deployment Operations
   // ============================================================================
@@ -277,11 +572,14 @@ export class CosmosClient {
   async createDeployment(
     sdlContent: string,
     deposit: string,
+    txOptions?: ITxOptions,
   ): Promise<{ result: ITransactionResult; dseq: string }> {
     if (!this.signingClient || !this.walletAddress) {
       throw new Error('Signing client not initialized');
     }
 
+    const owner = this.getOwnerAddress(txOptions);
+
     const sdl = parseSDL(sdlContent);
     const groups = sdlToGroups(sdl);
     const version = generateVersionHash(sdl);
@@ -295,22 +593,17 @@ export class CosmosClient {
       typeUrl: MSG_TYPES.createDeployment,
       value: {
         id: {
-          owner: this.walletAddress,
+          owner,
           dseq,
         },
         groups,
         version,
         deposit: createAktCoin(deposit),
-        depositor: this.walletAddress,
+        depositor: owner,
       },
     };
 
-    const result = await this.signingClient.signAndBroadcast(
-      this.walletAddress,
-      [msg],
-      'auto',
-      'Created via n8n-nodes-akash',
-    );
+    const result = await this.broadcast([msg], 'Created via n8n-nodes-akash', txOptions);
 
     return {
       result: this.formatTxResult(result),
@@ -321,39 +614,49 @@ export class CosmosClient {
   /**
    * Close a deployment
    */
-  async closeDeployment(dseq: string): Promise<ITransactionResult> {
+  async closeDeployment(dseq: string, txOptions?: ITxOptions): Promise<ITransactionResult> {
     if (!this.signingClient || !this.walletAddress) {
       throw new Error('Signing client not initialized');
     }
 
-    const msg = {
+    const msg = this.closeDeploymentMessage(dseq, txOptions);
+
+    const result = await this.broadcast([msg], 'Closed via n8n-nodes-akash', txOptions);
+
+    return this.formatTxResult(result);
+  }
+
+  /**
+   * Message closing a deployment
+   */
+  closeDeploymentMessage(dseq: string, txOptions?: ITxOptions): EncodeObject {
+    const owner = this.getOwnerAddress(txOptions);
+
+    return {
       typeUrl: MSG_TYPES.closeDeployment,
       value: {
         id: {
-          owner: this.walletAddress,
+          owner,
           dseq,
         },
       },
     };
-
-    const result = await this.signingClient.signAndBroadcast(
-      this.walletAddress,
-      [msg],
-      'auto',
-      'Closed via n8n-nodes-akash',
-    );
-
-    return this.formatTxResult(result);
   }
 
   /**
    * Update deployment
    */
-  async updateDeployment(dseq: string, sdlContent: string): Promise<ITransactionResult> {
+  async updateDeployment(
+    dseq: string,
+    sdlContent: string,
+    txOptions?: ITxOptions,
+  ): Promise<ITransactionResult> {
     if (!this.signingClient || !this.walletAddress) {
       throw new Error('Signing client not initialized');
     }
 
+    const owner = this.getOwnerAddress(txOptions);
+
     const sdl = parseSDL(sdlContent);
     const version = generateVersionHash(sdl);
 
@@ -361,19 +664,14 @@ export class CosmosClient {
       typeUrl: MSG_TYPES.updateDeployment,
       value: {
         id: {
-          owner: this.walletAddress,
+          owner,
           dseq,
         },
         version,
       },
     };
 
-    const result = await this.signingClient.signAndBroadcast(
-      this.walletAddress,
-      [msg],
-      'auto',
-      'Updated via n8n-nodes-akash',
-    );
+    const result = await this.broadcast([msg], 'Updated via n8n-nodes-akash', txOptions);
 
     return this.formatTxResult(result);
   }
@@ -381,31 +679,40 @@ export class CosmosClient {
   /**
    * Deposit funds to deployment
    */
-  async depositDeployment(dseq: string, amount: string): Promise<ITransactionResult> {
+  async depositDeployment(
+    dseq: string,
+    amount: string,
+    txOptions?: ITxOptions,
+  ): Promise<ITransactionResult> {
     if (!this.signingClient || !this.walletAddress) {
       throw new Error('Signing client not initialized');
     }
 
-    const msg = {
+    const msg = this.depositDeploymentMessage(dseq, amount, txOptions);
+
+    const result = await this.broadcast([msg], 'Deposit via n8n-nodes-akash', txOptions);
+
+    return this.formatTxResult(result);
+  }
+
+  /**
+   * Message depositing AKT into a deployment escrow
+   * @param amount - Amount in AKT
+   */
+  depositDeploymentMessage(dseq: string, amount: string, txOptions?: ITxOptions): EncodeObject {
+    const owner = this.getOwnerAddress(txOptions);
+
+    return {
       typeUrl: MSG_TYPES.depositDeployment,
       value: {
         id: {
-          owner: this.walletAddress,
+          owner,
           dseq,
         },
         amount: createAktCoin(amount),
-        depositor: this.walletAddress,
+        depositor: owner,
       },
     };
-
-    const result = await this.signingClient.signAndBroadcast(
-      this.walletAddress,
-      [msg],
-      'auto',
-      'Deposit via n8n-nodes-akash',
-    );
-
-    return this.formatTxResult(result);
   }
 
   // ============================================================================
@@ -420,16 +727,36 @@ export class CosmosClient {
     gseq: number,
     oseq: number,
     provider: string,
+    txOptions?: ITxOptions,
   ): Promise<ITransactionResult> {
     if (!this.signingClient || !this.walletAddress) {
       throw new Error('Signing client not initialized');
     }
 
-    const msg = {
+    const msg = this.createLeaseMessage(dseq, gseq, oseq, provider, txOptions);
+
+    const result = await this.broadcast([msg], 'Lease created via n8n-nodes-akash', txOptions);
+
+    return this.formatTxResult(result);
+  }
+
+  /**
+   * Message creating a lease from a bid
+   */
+  createLeaseMessage(
+    dseq: string,
+    gseq: number,
+    oseq: number,
+    provider: string,
+    txOptions?: ITxOptions,
+  ): EncodeObject {
+    const owner = this.getOwnerAddress(txOptions);
+
+    return {
       typeUrl: MSG_TYPES.createLease,
       value: {
         bidId: {
-          owner: this.walletAddress,
+          owner,
           dseq,
           gseq,
           oseq,
@@ -437,15 +764,6 @@ export class CosmosClient {
         },
       },
     };
-
-    const result = await this.signingClient.signAndBroadcast(
-      this.walletAddress,
-      [msg],
-      'auto',
-      'Lease created via n8n-nodes-akash',
-    );
-
-    return this.formatTxResult(result);
   }
 
   /**
@@ -456,16 +774,36 @@ export class CosmosClient {
     gseq: number,
     oseq: number,
     provider: string,
+    txOptions?: ITxOptions,
   ): Promise<ITransactionResult> {
     if (!this.signingClient || !this.walletAddress) {
       throw new Error('Signing client not initialized');
     }
 
-    const msg = {
+    const msg = this.closeLeaseMessage(dseq, gseq, oseq, provider, txOptions);
+
+    const result = await this.broadcast([msg], 'Lease closed via n8n-nodes-akash', txOptions);
+
+    return this.formatTxResult(result);
+  }
+
+  /**
+   * Message closing a lease
+   */
+  closeLeaseMessage(
+    dseq: string,
+    gseq: number,
+    oseq: number,
+    provider: string,
+    txOptions?: ITxOptions,
+  ): EncodeObject {
+    const owner = this.getOwnerAddress(txOptions);
+
+    return {
       typeUrl: MSG_TYPES.closeLease,
       value: {
         leaseId: {
-          owner: this.walletAddress,
+          owner,
           dseq,
           gseq,
           oseq,
@@ -473,15 +811,6 @@ export class CosmosClient {
         },
       },
     };
-
-    const result = await this.signingClient.signAndBroadcast(
-      this.walletAddress,
-      [msg],
-      'auto',
-      'Lease closed via n8n-nodes-akash',
-    );
-
-    return this.formatTxResult(result);
   }
 
   /**
@@ -492,16 +821,19 @@ export class CosmosClient {
     gseq: number,
     oseq: number,
     provider: string,
+    txOptions?: ITxOptions,
   ): Promise<ITransactionResult> {
     if (!this.signingClient || !this.walletAddress) {
       throw new Error('Signing client not initialized');
     }
 
+    const owner = this.getOwnerAddress(txOptions);
+
     const msg = {
       typeUrl: MSG_TYPES.withdrawLease,
       value: {
-        leaseId: {
-          owner: this.walletAddress,
+        bidId: {
+          owner,
           dseq,
           gseq,
           oseq,
@@ -510,12 +842,7 @@ export class CosmosClient {
       },
     };
 
-    const result = await this.signingClient.signAndBroadcast(
-      this.walletAddress,
-      [msg],
-      'auto',
-      'Withdraw via n8n-nodes-akash',
-    );
+    const result = await this.broadcast([msg], 'Withdraw via n8n-nodes-akash', txOptions);
 
     return this.formatTxResult(result);
   }
@@ -528,124 +855,793 @@ export class CosmosClient {
    * Create a new certificate
    * Certificates are required for secure communication with providers
    */
-  async createCertificate(): Promise<{
+  async createCertificate(
+    validityDays: number = 365,
+    txOptions?: ITxOptions,
+  ): Promise<{
     result: ITransactionResult;
-    cert: string;
-    pubkey: string;
-    serial: string;
+    certificate: ICertificateKeyPair;
   }> {
     if (!this.signingClient || !this.walletAddress) {
       throw new Error('Signing client not initialized');
     }
 
-    // Generate certificate (simplified - real implementation needs proper X.509)
-    const entropy = Random.getBytes(32);
-    const slip10Result = Slip10.derivePath(
-      Slip10Curve.Secp256k1,
-      entropy,
-      stringToPath("m/44'/118'/0'/0/0"),
-    );
-    const keypair = await Secp256k1.makeKeypair(slip10Result.privkey);
+    const owner = this.getOwnerAddress(txOptions);
 
-    const cert = toBase64(keypair.pubkey);
-    const pubkey = toBase64(Secp256k1.compressPubkey(keypair.pubkey));
-    const serial = Date.now().toString();
+    const certificate = generateCertificate(owner, validityDays);
 
     const msg = {
       typeUrl: MSG_TYPES.createCertificate,
       value: {
-        owner: this.walletAddress,
-        cert: new Uint8Array(Buffer.from(cert)),
-        pubkey: new Uint8Array(Buffer.from(pubkey)),
+        owner,
+        cert: new Uint8Array(Buffer.from(certificate.cert)),
+        pubkey: new Uint8Array(Buffer.from(certificate.publicKey)),
       },
     };
 
-    const result = await this.signingClient.signAndBroadcast(
-      this.walletAddress,
-      [msg],
-      'auto',
-      'Certificate created via n8n-nodes-akash',
-    );
+    const result = await this.broadcast([msg], 'Certificate created via n8n-nodes-akash', txOptions);
 
     return {
       result: this.formatTxResult(result),
-      cert,
-      pubkey,
-      serial,
+      certificate,
     };
   }
 
   /**
    * Revoke a certificate
    */
-  async revokeCertificate(serial: string): Promise<ITransactionResult> {
+  async revokeCertificate(serial: string, txOptions?: ITxOptions): Promise<ITransactionResult> {
     if (!this.signingClient || !this.walletAddress) {
       throw new Error('Signing client not initialized');
     }
 
+    const owner = this.getOwnerAddress(txOptions);
+
     const msg = {
       typeUrl: MSG_TYPES.revokeCertificate,
       value: {
         id: {
-          owner: this.walletAddress,
+          owner,
           serial,
         },
       },
     };
 
-    const result = await this.signingClient.signAndBroadcast(
-      this.walletAddress,
-      [msg],
-      'auto',
-      'Certificate revoked via n8n-nodes-akash',
-    );
+    const result = await this.broadcast([msg], 'Certificate revoked via n8n-nodes-akash', txOptions);
 
     return this.formatTxResult(result);
   }
 
   // ============================================================================
-  // Helper Methods
+  // AuthZ Operations
   // ============================================================================
 
   /**
-   * Format transaction result
-   */
-  private formatTxResult(result: DeliverTxResponse): ITransactionResult {
-    return {
-      transactionHash: result.transactionHash,
-      code: result.code,
-      height: Number(result.height),
-      gasUsed: Number(result.gasUsed),
-      gasWanted: Number(result.gasWanted),
-      rawLog: result.rawLog,
-      events: result.events as any,
-    };
-  }
-
-  /**
-   * Estimate gas for a transaction
+   * Grant another wallet permission to send messages on behalf of this wallet
+   * One generic authorization is granted per message type.
    */
-  async estimateGas(messages: unknown[]): Promise<number> {
+  async grantAuthorization(
+    grantee: string,
+    msgTypeUrls: string[],
+    expiration?: Date,
+    txOptions?: ITxOptions,
+  ): Promise<ITransactionResult> {
     if (!this.signingClient || !this.walletAddress) {
       throw new Error('Signing client not initialized');
     }
 
-    const gasEstimate = await this.signingClient.simulate(
-      this.walletAddress,
-      messages as { typeUrl: string; value: unknown }[],
-      undefined,
-    );
+    const granter = this.getOwnerAddress(txOptions);
+
+    const msgs = msgTypeUrls.map((msg) => ({
+      typeUrl: MSG_TYPES.grant,
+      value: {
+        granter,
+        grantee,
+        grant: {
+          authorization: {
+            typeUrl: GENERIC_AUTHORIZATION,
+            value: GenericAuthorization.encode({ msg }).finish(),
+          },
+          expiration: expiration ? toTimestamp(expiration) : undefined,
+        },
+      },
+    }));
+
+    const result = await this.broadcast(msgs, 'Grant via n8n-nodes-akash', txOptions);
+
+    return this.formatTxResult(result);
+  }
+
+  /**
+   * Revoke permissions previously granted to another wallet
+   */
+  async revokeAuthorization(
+    grantee: string,
+    msgTypeUrls: string[],
+    txOptions?: ITxOptions,
+  ): Promise<ITransactionResult> {
+    if (!this.signingClient || !this.walletAddress) {
+      throw new Error('Signing client not initialized');
+    }
+
+    const granter = this.getOwnerAddress(txOptions);
+
+    const msgs = msgTypeUrls.map((msgTypeUrl) => ({
+      typeUrl: MSG_TYPES.revoke,
+      value: {
+        granter,
+        grantee,
+        msgTypeUrl,
+      },
+    }));
+
+    const result = await this.broadcast(msgs, 'Revoke via n8n-nodes-akash', txOptions);
+
+    return this.formatTxResult(result);
+  }
+
+  /**
+   * List AuthZ grants given by a granter, received by a grantee, or between the two
+   */
+  async getGrants(granter?: string, grantee?: string): Promise<IAuthzGrant[]> {
+    if (!this.queryClient) {
+      throw new Error('Query client not initialized');
+    }
+    if (!granter && !grantee) {
+      throw new Error('A granter or grantee address is required');
+    }
+
+    const authz = (this.queryClient as unknown as ReturnType<typeof setupAuthzExtension>).authz;
+    const grants: IAuthzGrant[] = [];
+    let paginationKey: Uint8Array | undefined;
+
+    do {
+      const response =
+        granter && grantee
+          ? await authz.grants(granter, grantee, '', paginationKey)
+          : granter
+            ? await authz.granterGrants(granter, paginationKey)
+            : await authz.granteeGrants(grantee as string, paginationKey);
+
+      for (const grant of response.grants) {
+        // Granter and grantee listings name the other party on each grant
+        const parties = grant as { granter?: string; grantee?: string };
+        const authorization = grant.authorization;
+        grants.push({
+          granter: parties.granter || (granter as string),
+          grantee: parties.grantee || (grantee as string),
+          authorization: authorization?.typeUrl || '',
+          msgTypeUrl:
+            authorization?.typeUrl === GENERIC_AUTHORIZATION
+              ? GenericAuthorization.decode(authorization.value).msg
+              : undefined,
+          expiration: grant.expiration ? fromTimestamp(grant.expiration) : undefined,
+        });
+      }
+
+      paginationKey = response.pagination?.nextKey;
+    } while (paginationKey && paginationKey.length > 0);
+
+    return grants;
+  }
+
+  // ============================================================================
+  // Fee Grant Operations
+  // ============================================================================
+
+  /**
+   * Allow another wallet to pay its transaction fees from this wallet
+   * @returns The transaction and the allowance as granted
+   */
+  async grantAllowance(
+    grantee: string,
+    params: IFeeAllowanceParams,
+    txOptions?: ITxOptions,
+  ): Promise<{ result: ITransactionResult; allowance: IFeeAllowance }> {
+    if (!this.signingClient || !this.walletAddress) {
+      throw new Error('Signing client not initialized');
+    }
+
+    const granter = this.getOwnerAddress(txOptions);
+
+    const basic: BasicAllowance = {
+      spendLimit: params.spendLimit || [],
+      expiration: params.expiration ? toTimestamp(params.expiration) : undefined,
+    };
+    let allowance: Any = {
+      typeUrl: BasicAllowance.typeUrl,
+      value: BasicAllowance.encode(basic).finish(),
+    };
+
+    if (params.type === 'periodic') {
+      if (!params.period || params.period <= 0) {
+        throw new Error('A periodic allowance needs a period');
+      }
+      const periodic: PeriodicAllowance = {
+        basic,
+        period: { seconds: BigInt(params.period), nanos: 0 },
+        periodSpendLimit: params.periodSpendLimit || [],
+        periodCanSpend: params.periodSpendLimit || [],
+        periodReset: toTimestamp(new Date(Date.now() + params.period * 1000)),
+      };
+      allowance = {
+        typeUrl: PeriodicAllowance.typeUrl,
+        value: PeriodicAllowance.encode(periodic).finish(),
+      };
+    }
+
+    const msg = {
+      typeUrl: MSG_TYPES.grantAllowance,
+      value: {
+        granter,
+        grantee,
+        allowance,
+      },
+    };
+
+    const result = await this.broadcast([msg], 'Fee allowance via n8n-nodes-akash', txOptions);
+
+    return {
+      result: this.formatTxResult(result),
+      allowance: { granter, grantee, ...decodeAllowance(allowance) },
+    };
+  }
+
+  /**
+   * Revoke the fee allowance given to another wallet
+   */
+  async revokeAllowance(grantee: string, txOptions?: ITxOptions): Promise<ITransactionResult> {
+    if (!this.signingClient || !this.walletAddress) {
+      throw new Error('Signing client not initialized');
+    }
+
+    const granter = this.getOwnerAddress(txOptions);
+
+    const msg = {
+      typeUrl: MSG_TYPES.revokeAllowance,
+      value: {
+        granter,
+        grantee,
+      },
+    };
+
+    const result = await this.broadcast(
+      [msg],
+      'Fee allowance revoked via n8n-nodes-akash',
+      txOptions,
+    );
+
+    return this.formatTxResult(result);
+  }
+
+  /**
+   * Get the fee allowance a granter gave to a grantee
+   * @returns The allowance, or null when there is none
+   */
+  async getAllowance(granter: string, grantee: string): Promise<IFeeAllowance | null> {
+    if (!this.queryClient) {
+      throw new Error('Query client not initialized');
+    }
+
+    const feegrant = (this.queryClient as unknown as ReturnType<typeof setupFeegrantExtension>)
+      .feegrant;
+    try {
+      const response = await feegrant.allowance(granter, grantee);
+      return response.allowance?.allowance
+        ? { granter, grantee, ...decodeAllowance(response.allowance.allowance) }
+        : null;
+    } catch (error) {
+      if (/not found|no allowance/i.test((error as Error).message)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * List the fee allowances received by a grantee
+   */
+  async getAllowances(grantee: string): Promise<IFeeAllowance[]> {
+    if (!this.queryClient) {
+      throw new Error('Query client not initialized');
+    }
+
+    const feegrant = (this.queryClient as unknown as ReturnType<typeof setupFeegrantExtension>)
+      .feegrant;
+    const allowances: IFeeAllowance[] = [];
+    let paginationKey: Uint8Array | undefined;
+
+    do {
+      const response = await feegrant.allowances(grantee, paginationKey);
+      for (const grant of response.allowances) {
+        if (grant.allowance) {
+          allowances.push({
+            granter: grant.granter,
+            grantee: grant.grantee,
+            ...decodeAllowance(grant.allowance),
+          });
+        }
+      }
+      paginationKey = response.pagination?.nextKey;
+    } while (paginationKey && paginationKey.length > 0);
+
+    return allowances;
+  }
+
+  // ============================================================================
+  // Governance Operations
+  // ============================================================================
+
+  /**
+   * List governance proposals, newest first
+   * @param status - Only proposals in this stage; all proposals when omitted
+   */
+  async getProposals(status?: ProposalStatusName): Promise<IProposal[]> {
+    if (!this.queryClient) {
+      throw new Error('Query client not initialized');
+    }
+
+    const gov = (this.queryClient as unknown as ReturnType<typeof setupGovExtension>).gov;
+    const proposals: IProposal[] = [];
+    let paginationKey: Uint8Array | undefined;
+
+    do {
+      const response = await gov.proposals(
+        status ? PROPOSAL_STATUSES[status] : ProposalStatus.PROPOSAL_STATUS_UNSPECIFIED,
+        '',
+        '',
+        paginationKey,
+      );
+      proposals.push(...response.proposals.map(formatProposal));
+      paginationKey = response.pagination?.nextKey;
+    } while (paginationKey && paginationKey.length > 0);
+
+    return proposals.sort((a, b) => Number(b.id) - Number(a.id));
+  }
+
+  /**
+   * Get a governance proposal
+   */
+  async getProposal(proposalId: string): Promise<IProposal> {
+    if (!this.queryClient) {
+      throw new Error('Query client not initialized');
+    }
+
+    const gov = (this.queryClient as unknown as ReturnType<typeof setupGovExtension>).gov;
+    const response = await gov.proposal(proposalId);
+    return formatProposal(response.proposal);
+  }
+
+  /**
+   * Get the current tally of a proposal in its voting period
+   */
+  async getTally(proposalId: string): Promise<IProposalTally> {
+    if (!this.queryClient) {
+      throw new Error('Query client not initialized');
+    }
+
+    const gov = (this.queryClient as unknown as ReturnType<typeof setupGovExtension>).gov;
+    const response = await gov.tally(proposalId);
+    return formatTally(response.tally);
+  }
+
+  /**
+   * Vote on a proposal
+   */
+  async vote(
+    proposalId: string,
+    option: VoteOptionName,
+    txOptions?: ITxOptions,
+  ): Promise<ITransactionResult> {
+    if (!this.signingClient || !this.walletAddress) {
+      throw new Error('Signing client not initialized');
+    }
+
+    const owner = this.getOwnerAddress(txOptions);
+
+    const msg = {
+      typeUrl: MSG_TYPES.vote,
+      value: {
+        proposalId: BigInt(proposalId),
+        voter: owner,
+        option: VOTE_OPTIONS[option],
+      },
+    };
+
+    const result = await this.broadcast([msg], 'Voted via n8n-nodes-akash', txOptions);
+
+    return this.formatTxResult(result);
+  }
+
+  /**
+   * Split a vote across several options
+   * @param weights - Weight per option; the weights must add up to 1
+   */
+  async voteWeighted(
+    proposalId: string,
+    weights: { option: VoteOptionName; weight: number }[],
+    txOptions?: ITxOptions,
+  ): Promise<ITransactionResult> {
+    if (!this.signingClient || !this.walletAddress) {
+      throw new Error('Signing client not initialized');
+    }
+
+    const owner = this.getOwnerAddress(txOptions);
+
+    const msg = {
+      typeUrl: MSG_TYPES.voteWeighted,
+      value: {
+        proposalId: BigInt(proposalId),
+        voter: owner,
+        options: weights.map(({ option, weight }) => ({
+          option: VOTE_OPTIONS[option],
+          weight: toDecAtomics(weight),
+        })),
+      },
+    };
+
+    const result = await this.broadcast([msg], 'Voted via n8n-nodes-akash', txOptions);
+
+    return this.formatTxResult(result);
+  }
+
+  /**
+   * Add to the deposit of a proposal
+   */
+  async depositToProposal(
+    proposalId: string,
+    amount: string,
+    txOptions?: ITxOptions,
+  ): Promise<ITransactionResult> {
+    if (!this.signingClient || !this.walletAddress) {
+      throw new Error('Signing client not initialized');
+    }
+
+    const owner = this.getOwnerAddress(txOptions);
+
+    const msg = {
+      typeUrl: MSG_TYPES.govDeposit,
+      value: {
+        proposalId: BigInt(proposalId),
+        depositor: owner,
+        amount: [{ denom: TOKEN_DENOMINATIONS.uakt, amount }],
+      },
+    };
+
+    const result = await this.broadcast([msg], 'Proposal deposit via n8n-nodes-akash', txOptions);
+
+    return this.formatTxResult(result);
+  }
+
+  // ============================================================================
+  // Helper Methods
+  // ============================================================================
+
+  /**
+   * Sign and broadcast messages
+   * @param defaultMemo - Memo used when the options do not set one
+   */
+  private async broadcast(
+    messages: EncodeObject[],
+    defaultMemo: string,
+    txOptions: ITxOptions = {},
+  ): Promise<DeliverTxResponse> {
+    if (!this.signingClient || !this.walletAddress) {
+      throw new Error('Signing client not initialized');
+    }
+
+    messages = this.wrapAuthz(messages, txOptions);
+
+    const memo = txOptions.memo || defaultMemo;
+    const fee = await this.buildFee(messages, memo, txOptions);
+
+    // Broadcasts of the wallet are queued and get their sequences assigned locally
+    const signingClient = this.signingClient;
+    const address = this.walletAddress;
+    const chainId = await signingClient.getChainId();
+    return getSequenceManager(chainId, address).broadcast(
+      async (signerData) => {
+        const txRaw = await signingClient.sign(address, messages, fee, memo, signerData);
+        return signingClient.broadcastTx(TxRaw.encode(txRaw).finish());
+      },
+      async () => ({ ...(await signingClient.getSequence(address)), chainId }),
+    );
+  }
+
+  /**
+   * Execute messages owned by a granter through the AuthZ grant
+   * Each message gets its own MsgExec, so the events of a message stay apart.
+   */
+  private wrapAuthz(messages: EncodeObject[], txOptions: ITxOptions): EncodeObject[] {
+    const granter = txOptions.authzGranter;
+    if (!granter || !this.signingClient || granter === this.walletAddress) {
+      return messages;
+    }
+
+    const registry = this.signingClient.registry;
+    return messages.map((msg) => ({
+      typeUrl: MSG_TYPES.exec,
+      value: {
+        grantee: this.walletAddress,
+        msgs: [registry.encodeAsAny(msg)],
+      },
+    }));
+  }
+
+  /**
+   * Sign and broadcast messages as one transaction
+   */
+  async broadcastMessages(
+    messages: EncodeObject[],
+    defaultMemo: string,
+    txOptions?: ITxOptions,
+  ): Promise<ITransactionResult> {
+    return this.formatTxResult(await this.broadcast(messages, defaultMemo, txOptions));
+  }
+
+  /**
+   * Split messages into transactions that stay under a gas ceiling
+   * The gas of a message is estimated by simulating all messages together. Transactions
+   * for an external signer are not split: each one needs the sequence of the previous.
+   * @param maxGas - Gas limit no transaction may exceed
+   */
+  async chunkMessages(
+    messages: EncodeObject[],
+    maxGas: number,
+    txOptions: ITxOptions = {},
+  ): Promise<EncodeObject[][]> {
+    if (messages.length <= 1 || this.offline) {
+      return [messages];
+    }
+
+    const fee = await this.buildFee(this.wrapAuthz(messages, txOptions), txOptions.memo, {
+      ...txOptions,
+      gasLimit: undefined,
+    });
+    const gasPerMessage = Number(fee.gas) / messages.length;
+    const size = Math.max(1, Math.floor(maxGas / gasPerMessage));
+
+    const chunks: EncodeObject[][] = [];
+    for (let i = 0; i < messages.length; i += size) {
+      chunks.push(messages.slice(i, i + size));
+    }
+    return chunks;
+  }
+
+  /**
+   * Build the fee for a transaction
+   * Gas is simulated and scaled by the multiplier unless an explicit limit is given.
+   */
+  async buildFee(
+    messages: EncodeObject[],
+    memo: string = '',
+    txOptions: ITxOptions = {},
+  ): Promise<StdFee> {
+    if (!this.signingClient || !this.walletAddress) {
+      throw new Error('Signing client not initialized');
+    }
+
+    let gasLimit = txOptions.gasLimit;
+    if (!gasLimit) {
+      const simulated = await this.signingClient.simulate(this.walletAddress, messages, memo);
+      gasLimit = Math.ceil(simulated * (txOptions.gasMultiplier || GAS_SETTINGS.gasMultiplier));
+    }
+
+    const denom = txOptions.feeDenom || this.gasPrice.denom;
+    const price = txOptions.gasPrice ?? this.gasPrice.amount.toString();
+    const fee = calculateFee(gasLimit, GasPrice.fromString(`${price}${denom}`));
+
+    return {
+      ...fee,
+      granter: txOptions.feeGranter || undefined,
+      payer: txOptions.feePayer || undefined,
+    };
+  }
+
+  /**
+   * Format transaction result
+   */
+  private formatTxResult(result: DeliverTxResponse): ITransactionResult {
+    return {
+      transactionHash: result.transactionHash,
+      code: result.code,
+      height: Number(result.height),
+      gasUsed: Number(result.gasUsed),
+      gasWanted: Number(result.gasWanted),
+      rawLog: result.rawLog,
+      events: result.events as any,
+    };
+  }
+
+  /**
+   * Broadcast a signed transaction and wait for it to be included in a block
+   * @param txBytes - Serialized TxRaw
+   */
+  async broadcastSigned(txBytes: Uint8Array): Promise<ITransactionResult> {
+    const client = await this.getQueryClient();
+    try {
+      return this.formatTxResult(await client.broadcastTx(txBytes));
+    } finally {
+      client.disconnect();
+    }
+  }
+
+  /**
+   * Estimate gas for a transaction
+   */
+  async estimateGas(messages: unknown[]): Promise<number> {
+    if (!this.signingClient || !this.walletAddress) {
+      throw new Error('Signing client not initialized');
+    }
+
+    const gasEstimate = await this.signingClient.simulate(
+      this.walletAddress,
+      messages as { typeUrl: string; value: unknown }[],
+      undefined,
+    );
 
     return Math.ceil(gasEstimate * GAS_SETTINGS.simulationGasMultiplier);
   }
 
   /**
    * Disconnect client
+   * Pooled clients stay connected for the next item until the pool is closed.
    */
   async disconnect(): Promise<void> {
+    if (!this.pooled) {
+      await this.close();
+    }
+  }
+
+  /**
+   * Keep the client connected on disconnect(), until close() is called
+   */
+  keepConnected(): void {
+    this.pooled = true;
+  }
+
+  /**
+   * Disconnect client, even when it is pooled
+   */
+  async close(): Promise<void> {
     if (this.signingClient) {
       this.signingClient.disconnect();
     }
+    if (this.tendermint) {
+      this.tendermint.disconnect();
+    }
+  }
+}
+
+function toTimestamp(date: Date): Timestamp {
+  return { seconds: BigInt(Math.floor(date.getTime() / 1000)), nanos: 0 };
+}
+
+function fromTimestamp(timestamp: Timestamp): string {
+  return new Date(Number(timestamp.seconds) * 1000).toISOString();
+}
+
+/**
+ * Weight as an 18 decimal fixed point integer, rounded to 6 decimals
+ */
+function toDecAtomics(weight: number): string {
+  return (BigInt(Math.round(weight * 1e6)) * BigInt(1e12)).toString();
+}
+
+function formatTally(tally?: TallyResult): IProposalTally {
+  return {
+    yes: tally?.yes || '0',
+    abstain: tally?.abstain || '0',
+    no: tally?.no || '0',
+    noWithVeto: tally?.noWithVeto || '0',
+  };
+}
+
+/**
+ * Flatten a proposal
+ * Every legacy proposal type stores its title and description in the first two fields,
+ * so they are read with the text proposal layout; software upgrades also carry their plan.
+ */
+function formatProposal(proposal: Proposal): IProposal {
+  const statuses = Object.entries(PROPOSAL_STATUSES) as [ProposalStatusName, ProposalStatus][];
+  const content = proposal.content;
+  const text = content ? TextProposal.decode(content.value) : undefined;
+
+  const formatted: IProposal = {
+    id: proposal.proposalId.toString(),
+    title: text?.title || '',
+    description: text?.description || '',
+    type: content?.typeUrl || '',
+    status: statuses.find(([, status]) => status === proposal.status)?.[0] || 'unspecified',
+    submitTime: proposal.submitTime ? fromTimestamp(proposal.submitTime) : undefined,
+    depositEndTime: proposal.depositEndTime ? fromTimestamp(proposal.depositEndTime) : undefined,
+    votingStartTime: proposal.votingStartTime ? fromTimestamp(proposal.votingStartTime) : undefined,
+    votingEndTime: proposal.votingEndTime ? fromTimestamp(proposal.votingEndTime) : undefined,
+    totalDeposit: proposal.totalDeposit,
+    finalTally: formatTally(proposal.finalTallyResult),
+  };
+
+  if (content?.typeUrl === SoftwareUpgradeProposal.typeUrl) {
+    const { plan } = SoftwareUpgradeProposal.decode(content.value);
+    formatted.upgradePlan = {
+      name: plan.name,
+      height: plan.height.toString(),
+      info: plan.info,
+    };
+  }
+
+  return formatted;
+}
+
+/**
+ * Decode a fee allowance
+ * Allowed-message allowances are unwrapped; the message list is kept on the result.
+ */
+function decodeAllowance(allowance: Any): Omit<IFeeAllowance, 'granter' | 'grantee'> {
+  switch (allowance.typeUrl) {
+    case BasicAllowance.typeUrl: {
+      const basic = BasicAllowance.decode(allowance.value);
+      return {
+        type: 'basic',
+        spendLimit: basic.spendLimit,
+        expiration: basic.expiration ? fromTimestamp(basic.expiration) : undefined,
+      };
+    }
+    case PeriodicAllowance.typeUrl: {
+      const periodic = PeriodicAllowance.decode(allowance.value);
+      return {
+        type: 'periodic',
+        spendLimit: periodic.basic.spendLimit,
+        expiration: periodic.basic.expiration
+          ? fromTimestamp(periodic.basic.expiration)
+          : undefined,
+        period: Number(periodic.period.seconds),
+        periodSpendLimit: periodic.periodSpendLimit,
+        periodCanSpend: periodic.periodCanSpend,
+        periodReset: fromTimestamp(periodic.periodReset),
+      };
+    }
+    case AllowedMsgAllowance.typeUrl: {
+      const allowed = AllowedMsgAllowance.decode(allowance.value);
+      const inner = allowed.allowance
+        ? decodeAllowance(allowed.allowance)
+        : { type: 'basic', spendLimit: [] };
+      return { ...inner, allowedMessages: allowed.allowedMessages };
+    }
+    default:
+      return { type: allowance.typeUrl, spendLimit: [] };
+  }
+}
+
+// Clients shared by the items of one node execution, by credential name
+const clientPools = new WeakMap<object, Map<string, Promise<CosmosClient>>>();
+
+/**
+ * Share Cosmos clients between the items of an execution
+ * Until closeClientPool is called, createCosmosClient returns the same connected
+ * client for every item and disconnect() leaves it open.
+ */
+export function openClientPool(context: IExecuteFunctions): void {
+  if (!clientPools.has(context)) {
+    clientPools.set(context, new Map());
+  }
+}
+
+/**
+ * Disconnect the clients shared during an execution
+ */
+export async function closeClientPool(context: IExecuteFunctions): Promise<void> {
+  const pool = clientPools.get(context);
+  clientPools.delete(context);
+  if (!pool) {
+    return;
+  }
+
+  const clients = await Promise.allSettled(pool.values());
+  for (const client of clients) {
+    if (client.status === 'fulfilled') {
+      await client.value.close();
+    }
   }
 }
 
@@ -656,8 +1652,31 @@ export async function createCosmosClient(
   context: IExecuteFunctions | ILoadOptionsFunctions | IHookFunctions,
   credentialName: string = 'akashApi',
 ): Promise<CosmosClient> {
-  const credentials = await context.getCredentials(credentialName) as IAkashApiCredentials;
-  const client = new CosmosClient(credentials, credentials.network || 'mainnet');
-  await client.initialize(credentials);
-  return client;
+  const pool = clientPools.get(context);
+  const pooled = pool?.get(credentialName);
+  if (pooled) {
+    return pooled;
+  }
+
+  const creating = (async () => {
+    const credentials = await context.getCredentials(credentialName) as IAkashApiCredentials;
+    const client = new CosmosClient(credentials, credentials.network || 'mainnet');
+    await client.initialize(credentials);
+    if (pool) {
+      client.keepConnected();
+    }
+    return client;
+  })();
+  if (!pool) {
+    return creating;
+  }
+
+  pool.set(credentialName, creating);
+  try {
+    return await creating;
+  } catch (error) {
+    // The next item tries again, e.g. after a network error
+    pool.delete(credentialName);
+    throw error;
+  }
 }
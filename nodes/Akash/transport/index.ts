@@ -5,6 +5,11 @@
  * See LICENSE file for details.
  */
 
+export * from './akashRegistry';
 export * from './consoleApi';
 export * from './cosmosClient';
+export * from './offlineSigner';
+export * from './providerClient';
+export * from './rpcClient';
+export * from './sequenceManager';
 export * from './websocket';
@@ -0,0 +1,130 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import {
+  AccountData,
+  DirectSignResponse,
+  makeSignBytes,
+  OfflineDirectSigner,
+} from '@cosmjs/proto-signing';
+import { fromBase64, fromHex, toBase64 } from '@cosmjs/encoding';
+import { AuthInfo, SignDoc, TxRaw } from 'cosmjs-types/cosmos/tx/v1beta1/tx';
+import { IUnsignedTransaction } from '../types';
+import { decodeTransaction } from '../helpers/transactions';
+
+/**
+ * Offline Signer
+ *
+ * Signer for wallets whose keys never enter n8n. Transactions are built as usual,
+ * with account number, sequence and fee filled in from the chain, but signing stops
+ * with an UnsignedTransaction that carries the SignDoc for an external signer.
+ * The signed bytes are sent later with Transaction > Broadcast.
+ */
+
+/**
+ * Thrown in place of a signature when the wallet signs offline
+ * The node outputs the transaction instead of failing the item.
+ */
+export class UnsignedTransaction extends Error {
+  readonly transaction: IUnsignedTransaction;
+
+  constructor(transaction: IUnsignedTransaction) {
+    super(
+      'Transaction must be signed by the external signer and sent with Transaction > Broadcast',
+    );
+    this.name = 'UnsignedTransaction';
+    this.transaction = transaction;
+  }
+}
+
+/**
+ * Create a signer that returns unsigned transactions
+ * @param address - Wallet address the transactions are built for
+ * @param getPubkey - Compressed secp256k1 public key, needed for the signer info
+ */
+export function createOfflineSigner(
+  address: string,
+  getPubkey: () => Promise<Uint8Array>,
+): OfflineDirectSigner {
+  return {
+    getAccounts: async (): Promise<readonly AccountData[]> => [
+      {
+        address,
+        algo: 'secp256k1',
+        pubkey: await getPubkey(),
+      },
+    ],
+    signDirect: async (signerAddress: string, signDoc: SignDoc): Promise<DirectSignResponse> => {
+      throw new UnsignedTransaction(describeSignDoc(signerAddress, signDoc));
+    },
+  };
+}
+
+/**
+ * Parse a compressed secp256k1 public key given as hex or base64
+ */
+export function parsePublicKey(publicKey: string): Uint8Array {
+  const value = publicKey.trim();
+  const pubkey = /^(0x)?[0-9a-fA-F]{66}$/.test(value)
+    ? fromHex(value.replace(/^0x/, ''))
+    : fromBase64(value);
+  if (pubkey.length !== 33) {
+    throw new Error('Public key must be a 33 byte compressed secp256k1 key in hex or base64');
+  }
+  return pubkey;
+}
+
+/**
+ * Everything an external signer needs, base64 encoded
+ * The signature is made over sha256(signBytes); txRaw is the transaction without it.
+ */
+export function describeSignDoc(signer: string, signDoc: SignDoc): IUnsignedTransaction {
+  const txRaw = TxRaw.encode(
+    TxRaw.fromPartial({
+      bodyBytes: signDoc.bodyBytes,
+      authInfoBytes: signDoc.authInfoBytes,
+      signatures: [],
+    }),
+  ).finish();
+  const authInfo = AuthInfo.decode(signDoc.authInfoBytes);
+  const decoded = decodeTransaction(toBase64(txRaw));
+
+  return {
+    unsigned: true,
+    signer,
+    chainId: signDoc.chainId,
+    accountNumber: signDoc.accountNumber.toString(),
+    sequence: (authInfo.signerInfos[0]?.sequence ?? BigInt(0)).toString(),
+    gasLimit: (authInfo.fee?.gasLimit ?? BigInt(0)).toString(),
+    fee: decoded.fee,
+    feeAkt: decoded.feeAkt,
+    memo: decoded.memo,
+    summary: decoded.summary,
+    messages: decoded.messages,
+    signDoc: {
+      bodyBytes: toBase64(signDoc.bodyBytes),
+      authInfoBytes: toBase64(signDoc.authInfoBytes),
+      chainId: signDoc.chainId,
+      accountNumber: signDoc.accountNumber.toString(),
+    },
+    signBytes: toBase64(makeSignBytes(signDoc)),
+    txRaw: toBase64(txRaw),
+  };
+}
+
+/**
+ * Attach a signature to an unsigned transaction
+ * @param txBytes - TxRaw without signatures, as output by offline signing
+ * @param signature - 64 byte secp256k1 signature (r || s)
+ */
+export function attachSignature(txBytes: Uint8Array, signature: Uint8Array): Uint8Array {
+  if (signature.length !== 64) {
+    throw new Error(`Signature must be 64 bytes, got ${signature.length}`);
+  }
+  const txRaw = TxRaw.decode(txBytes);
+  return TxRaw.encode({ ...txRaw, signatures: [signature] }).finish();
+}
@@ -0,0 +1,41 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { DirectSecp256k1Wallet } from '@cosmjs/proto-signing';
+import { fromHex } from '@cosmjs/encoding';
+
+/**
+ * Private Key Signer
+ *
+ * Signs with a raw secp256k1 private key. The address is derived from the key,
+ * never taken from the credentials, and the full serialized SignDoc is signed.
+ */
+
+/**
+ * Create a signer from a hex private key
+ * @param privateKey - 32 byte key in hex, with or without 0x
+ * @param expectedAddress - Wallet address from the credentials; must match the derived one
+ */
+export async function createPrivateKeySigner(
+  privateKey: string,
+  expectedAddress?: string,
+): Promise<DirectSecp256k1Wallet> {
+  const hex = privateKey.trim().replace(/^0x/i, '');
+  if (!/^[0-9a-fA-F]{64}$/.test(hex)) {
+    throw new Error('Private key must be 32 bytes in hex (64 characters)');
+  }
+
+  const signer = await DirectSecp256k1Wallet.fromKey(fromHex(hex), 'akash');
+  const [{ address }] = await signer.getAccounts();
+  if (expectedAddress && expectedAddress.trim() !== address) {
+    throw new Error(
+      `Wallet address ${expectedAddress} does not match the address ${address} derived from the private key`,
+    );
+  }
+
+  return signer;
+}
@@ -0,0 +1,312 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import axios, { AxiosInstance, AxiosRequestConfig, AxiosError } from 'axios';
+import { Agent } from 'https';
+import WebSocket from 'ws';
+import { IExecuteFunctions, ILoadOptionsFunctions, IHookFunctions } from 'n8n-workflow';
+import {
+  IAkashApiCredentials,
+  IForwardedPort,
+  ILeaseStatus,
+  ILogEntry,
+  IProviderCertificate,
+  IServiceStatus,
+} from '../types';
+import { TIMEOUTS } from '../constants';
+import { serializeManifest } from '../helpers/sdlParser';
+import { createConsoleApiClient } from './consoleApi';
+
+/**
+ * Provider Client
+ *
+ * Talks directly to a provider's gateway (its on-chain hostUri) over mutual TLS.
+ * The tenant authenticates with the certificate it published via MsgCreateCertificate;
+ * providers present self-signed server certificates, so server verification is skipped.
+ */
+
+interface ProviderServiceStatus {
+  name: string;
+  available: number;
+  total: number;
+  uris?: string[] | null;
+  observed_generation: number;
+  replicas: number;
+  updated_replicas: number;
+  ready_replicas: number;
+  available_replicas: number;
+}
+
+interface ProviderForwardedPort {
+  host: string;
+  port: number;
+  externalPort: number;
+  proto: string;
+  name: string;
+}
+
+interface ProviderLeaseStatus {
+  services?: Record<string, ProviderServiceStatus> | null;
+  forwarded_ports?: Record<string, ProviderForwardedPort[]> | null;
+  ips?: Record<string, unknown> | null;
+}
+
+export class ProviderClient {
+  private client: AxiosInstance;
+  private hostUri: string;
+  private certificate: IProviderCertificate;
+  private agent: Agent;
+
+  constructor(hostUri: string, certificate: IProviderCertificate) {
+    this.hostUri = hostUri.replace(/\/+$/, '');
+    this.certificate = certificate;
+
+    this.agent = new Agent({
+      cert: certificate.cert,
+      key: certificate.privateKey,
+      rejectUnauthorized: false,
+    });
+
+    this.client = axios.create({
+      baseURL: this.hostUri,
+      timeout: TIMEOUTS.api,
+      httpsAgent: this.agent,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+
+    this.client.interceptors.response.use(
+      (response) => response,
+      (error: AxiosError) => this.handleError(error),
+    );
+  }
+
+  /**
+   * Handle provider errors with descriptive messages
+   */
+  private handleError(error: AxiosError): never {
+    if (error.response) {
+      const status = error.response.status;
+      const data = error.response.data;
+      const message =
+        typeof data === 'string' && data
+          ? data.trim()
+          : (data as Record<string, unknown>)?.message || error.message;
+
+      switch (status) {
+        case 400:
+          throw new Error(`Provider rejected request: ${message}`);
+        case 401:
+        case 403:
+          throw new Error(
+            `Provider refused the client certificate: ${message}. Make sure the certificate is published on-chain and not revoked.`,
+          );
+        case 404:
+          throw new Error(`Lease not found on provider: ${message}`);
+        default:
+          throw new Error(`Provider error (${status}): ${message}`);
+      }
+    } else if (error.request) {
+      throw new Error(`No response from provider at ${this.hostUri}`);
+    } else {
+      throw new Error(`Request error: ${error.message}`);
+    }
+  }
+
+  private async request<T>(config: AxiosRequestConfig): Promise<T> {
+    const response = await this.client.request<T>(config);
+    return response.data;
+  }
+
+  /**
+   * Get the provider gateway URI
+   */
+  getHostUri(): string {
+    return this.hostUri;
+  }
+
+  /**
+   * Send deployment manifest to the provider
+   * The canonical serialization is sent so the provider hashes the same bytes
+   * that produced the on-chain version.
+   */
+  async sendManifest(dseq: string, manifest: object): Promise<void> {
+    await this.request<unknown>({
+      method: 'PUT',
+      url: `/deployment/${dseq}/manifest`,
+      data: serializeManifest(manifest),
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  /**
+   * Get lease status from the provider
+   */
+  async getLeaseStatus(dseq: string, gseq: number, oseq: number): Promise<ILeaseStatus> {
+    const status = await this.request<ProviderLeaseStatus>({
+      method: 'GET',
+      url: `/lease/${dseq}/${gseq}/${oseq}/status`,
+    });
+
+    return normalizeLeaseStatus(status);
+  }
+
+  /**
+   * Get lease logs from the provider
+   * The provider streams logs over a websocket; with follow disabled it closes
+   * the stream once the requested tail has been sent.
+   */
+  async getLeaseLogs(
+    dseq: string,
+    gseq: number,
+    oseq: number,
+    options?: {
+      service?: string;
+      tail?: number;
+    },
+  ): Promise<ILogEntry[]> {
+    const url = new URL(`${this.hostUri}/lease/${dseq}/${gseq}/${oseq}/logs`);
+    url.protocol = url.protocol === 'http:' ? 'ws:' : 'wss:';
+    url.searchParams.set('follow', 'false');
+    url.searchParams.set('tail', String(options?.tail ?? 100));
+    if (options?.service) {
+      url.searchParams.set('service', options.service);
+    }
+
+    return new Promise((resolve, reject) => {
+      const entries: ILogEntry[] = [];
+      const ws = new WebSocket(url.toString(), {
+        cert: this.certificate.cert,
+        key: this.certificate.privateKey,
+        rejectUnauthorized: false,
+        handshakeTimeout: TIMEOUTS.api,
+      });
+
+      const timeout = setTimeout(() => {
+        ws.terminate();
+        resolve(entries);
+      }, TIMEOUTS.api);
+
+      ws.on('message', (data: WebSocket.Data) => {
+        try {
+          const line = JSON.parse(data.toString()) as { name?: string; message?: string };
+          entries.push({
+            timestamp: new Date().toISOString(),
+            service: line.name || '',
+            message: line.message || '',
+          });
+        } catch {
+          entries.push({
+            timestamp: new Date().toISOString(),
+            service: '',
+            message: data.toString(),
+          });
+        }
+      });
+
+      ws.on('unexpected-response', (_request, response) => {
+        clearTimeout(timeout);
+        reject(new Error(`Provider error (${response.statusCode}) while fetching logs`));
+      });
+
+      ws.on('error', (error: Error) => {
+        clearTimeout(timeout);
+        reject(new Error(`Provider log stream failed: ${error.message}`));
+      });
+
+      ws.on('close', () => {
+        clearTimeout(timeout);
+        resolve(entries);
+      });
+    });
+  }
+
+  /**
+   * Release pooled TLS connections
+   */
+  disconnect(): void {
+    this.agent.destroy();
+  }
+}
+
+/**
+ * Convert the provider's snake_case lease status into ILeaseStatus
+ */
+function normalizeLeaseStatus(status: ProviderLeaseStatus): ILeaseStatus {
+  const services: Record<string, IServiceStatus> = {};
+  for (const [name, service] of Object.entries(status.services || {})) {
+    services[name] = {
+      name: service.name || name,
+      available: service.available,
+      total: service.total,
+      uris: service.uris || [],
+      observedGeneration: service.observed_generation,
+      replicas: service.replicas,
+      updatedReplicas: service.updated_replicas,
+      readyReplicas: service.ready_replicas,
+      availableReplicas: service.available_replicas,
+    };
+  }
+
+  const forwardedPorts: Record<string, IForwardedPort[]> = {};
+  for (const [name, ports] of Object.entries(status.forwarded_ports || {})) {
+    forwardedPorts[name] = ports.map((p) => ({
+      host: p.host,
+      port: p.port,
+      externalPort: p.externalPort,
+      proto: p.proto,
+      name: p.name,
+    }));
+  }
+
+  return {
+    services,
+    forwardedPorts,
+    ips: status.ips || {},
+  };
+}
+
+/**
+ * Create provider client from n8n context
+ * Resolves the provider's hostUri on-chain and authenticates with the given certificate,
+ * falling back to the certificate stored in the credentials.
+ */
+export async function createProviderClient(
+  context: IExecuteFunctions | ILoadOptionsFunctions | IHookFunctions,
+  provider: string,
+  certificate?: Partial<IProviderCertificate>,
+  credentialName: string = 'akashApi',
+): Promise<ProviderClient> {
+  const credentials = (await context.getCredentials(credentialName)) as IAkashApiCredentials;
+
+  const cert = certificate?.cert || credentials.clientCertificate;
+  const privateKey = certificate?.privateKey || credentials.clientCertificateKey;
+  if (!cert || !privateKey) {
+    throw new Error(
+      'A client certificate and private key are required to talk to providers. Create one with Certificate > Create and add it to the Akash API credentials.',
+    );
+  }
+
+  const consoleClient = await createConsoleApiClient(context, credentialName);
+  const providerInfo = await consoleClient.getProvider(provider);
+  if (!providerInfo?.hostUri) {
+    throw new Error(`Provider ${provider} has no hostUri registered on-chain`);
+  }
+
+  return new ProviderClient(providerInfo.hostUri, {
+    cert: normalizePem(cert),
+    privateKey: normalizePem(privateKey),
+  });
+}
+
+/**
+ * Restore newlines in PEM values pasted into single-line fields
+ */
+function normalizePem(pem: string): string {
+  return pem.replace(/\\n/g, '\n').trim() + '\n';
+}
@@ -0,0 +1,282 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import axios, { AxiosInstance, AxiosError } from 'axios';
+import { IAkashEvent, IAkashRpcCredentials, ITendermintEvent } from '../types';
+import { TIMEOUTS } from '../constants';
+import { convertTendermintEvent } from '../helpers/events';
+
+/**
+ * Tendermint RPC Client
+ *
+ * Reads blocks and searches transactions over plain HTTP JSON-RPC.
+ * Used by the trigger's polling mode where long-lived WebSockets are not an option.
+ */
+
+const TX_SEARCH_PAGE_SIZE = 100;
+const BLOCKCHAIN_PAGE_SIZE = 20;
+
+interface RpcResponse<T> {
+  jsonrpc: string;
+  id: number | string;
+  result?: T;
+  error?: {
+    code: number;
+    message: string;
+    data?: string;
+  };
+}
+
+export interface RpcTx {
+  hash: string;
+  height: string;
+  index: number;
+  tx: string;
+  tx_result: {
+    code: number;
+    log?: string;
+    gas_wanted: string;
+    gas_used: string;
+    events: ITendermintEvent[];
+  };
+}
+
+interface RpcBlockMeta {
+  header: {
+    height: string;
+    time: string;
+  };
+}
+
+export class AkashRpcClient {
+  private client: AxiosInstance;
+  private rpcEndpoint: string;
+
+  constructor(rpcEndpoint: string, headers: Record<string, string> = {}) {
+    this.rpcEndpoint = rpcEndpoint.replace(/\/+$/, '');
+
+    this.client = axios.create({
+      baseURL: this.rpcEndpoint,
+      timeout: TIMEOUTS.api,
+      headers,
+    });
+  }
+
+  /**
+   * Call an RPC method and unwrap the JSON-RPC envelope
+   */
+  private async call<T>(method: string, params: Record<string, string | number>): Promise<T> {
+    let data: RpcResponse<T>;
+    try {
+      const response = await this.client.get<RpcResponse<T>>(`/${method}`, { params });
+      data = response.data;
+    } catch (error) {
+      const axiosError = error as AxiosError<RpcResponse<T>>;
+      if (axiosError.response?.data?.error) {
+        data = axiosError.response.data;
+      } else if (axiosError.response) {
+        throw new Error(`RPC error (${axiosError.response.status}) calling ${method}`);
+      } else {
+        throw new Error(`No response from RPC endpoint ${this.rpcEndpoint}`);
+      }
+    }
+
+    if (data.error) {
+      throw new Error(`RPC ${method} failed: ${data.error.data || data.error.message}`);
+    }
+    return data.result as T;
+  }
+
+  /**
+   * Get the latest block height
+   */
+  async getLatestHeight(): Promise<number> {
+    const status = await this.call<{ sync_info: { latest_block_height: string } }>('status', {});
+    return parseInt(status.sync_info.latest_block_height, 10);
+  }
+
+  /**
+   * Find the first block produced at or after a time
+   * Binary searches block headers between the earliest stored block and the latest one.
+   * @returns The height, or the next height to be produced when the time is in the future
+   */
+  async getHeightAt(time: Date): Promise<number> {
+    const status = await this.call<{
+      sync_info: {
+        latest_block_height: string;
+        latest_block_time: string;
+        earliest_block_height: string;
+        earliest_block_time: string;
+      };
+    }>('status', {});
+    let low = parseInt(status.sync_info.earliest_block_height, 10) || 1;
+    let high = parseInt(status.sync_info.latest_block_height, 10);
+
+    if (time.getTime() <= new Date(status.sync_info.earliest_block_time).getTime()) {
+      return low;
+    }
+    if (time.getTime() > new Date(status.sync_info.latest_block_time).getTime()) {
+      return high + 1;
+    }
+
+    while (low < high) {
+      const mid = Math.floor((low + high) / 2);
+      const blockTime = (await this.getBlockTimes(mid, mid)).get(mid);
+      if (blockTime && new Date(blockTime).getTime() < time.getTime()) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    return low;
+  }
+
+  /**
+   * Get block times for a height range
+   */
+  async getBlockTimes(minHeight: number, maxHeight: number): Promise<Map<number, string>> {
+    const times = new Map<number, string>();
+    for (let start = minHeight; start <= maxHeight; start += BLOCKCHAIN_PAGE_SIZE) {
+      const end = Math.min(start + BLOCKCHAIN_PAGE_SIZE - 1, maxHeight);
+      const result = await this.call<{ block_metas: RpcBlockMeta[] }>('blockchain', {
+        minHeight: start,
+        maxHeight: end,
+      });
+      for (const meta of result.block_metas) {
+        times.set(parseInt(meta.header.height, 10), meta.header.time);
+      }
+    }
+    return times;
+  }
+
+  /**
+   * Get one block event per height in a range
+   */
+  async getBlockEvents(minHeight: number, maxHeight: number): Promise<IAkashEvent[]> {
+    const times = await this.getBlockTimes(minHeight, maxHeight);
+    return [...times.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([height, time]) => ({
+        type: 'block',
+        attributes: [],
+        height,
+        timestamp: new Date(time).toISOString(),
+      }));
+  }
+
+  /**
+   * Search transactions, following pagination
+   * @param query - Tendermint event query without quotes
+   * @param order - Height order; with a limit, desc returns the newest transactions
+   * @param limit - Stop paging once this many transactions were read
+   */
+  async searchTxs(
+    query: string,
+    order: 'asc' | 'desc' = 'asc',
+    limit: number = Infinity,
+  ): Promise<RpcTx[]> {
+    const txs: RpcTx[] = [];
+    let page = 1;
+    let total = 0;
+
+    do {
+      const result = await this.call<{ txs: RpcTx[]; total_count: string }>('tx_search', {
+        query: `"${query}"`,
+        page,
+        per_page: TX_SEARCH_PAGE_SIZE,
+        order_by: `"${order}"`,
+      });
+      txs.push(...result.txs);
+      total = parseInt(result.total_count, 10);
+      page++;
+    } while (txs.length < total && txs.length < limit);
+
+    return txs.slice(0, limit);
+  }
+
+  /**
+   * Find the newest transactions matching any of the queries
+   * Transactions matched by more than one query are only returned once.
+   * @param queries - Tendermint event queries without quotes
+   * @param limit - Maximum number of transactions to return
+   */
+  async getTransactions(queries: string[], limit: number): Promise<RpcTx[]> {
+    const txs = new Map<string, RpcTx>();
+    for (const query of queries) {
+      for (const tx of await this.searchTxs(query, 'desc', limit)) {
+        txs.set(tx.hash, tx);
+      }
+    }
+
+    return [...txs.values()]
+      .sort((a, b) => parseInt(b.height, 10) - parseInt(a.height, 10) || b.index - a.index)
+      .slice(0, limit);
+  }
+
+  /**
+   * Find Akash events in successful transactions within a height range
+   * Events from several queries are merged in chain order; a transaction matched
+   * by more than one query is only read once.
+   */
+  async getEvents(queries: string[], minHeight: number, maxHeight: number): Promise<IAkashEvent[]> {
+    const txs = new Map<string, RpcTx>();
+    for (const query of queries) {
+      const found = await this.searchTxs(
+        `${query} AND tx.height>=${minHeight} AND tx.height<=${maxHeight}`,
+      );
+      for (const tx of found) {
+        txs.set(tx.hash, tx);
+      }
+    }
+
+    const ordered = [...txs.values()]
+      .filter((tx) => tx.tx_result.code === 0)
+      .sort((a, b) => parseInt(a.height, 10) - parseInt(b.height, 10) || a.index - b.index);
+    if (ordered.length === 0) {
+      return [];
+    }
+
+    // Only fetch block headers around heights that produced events
+    const times = new Map<number, string>();
+    for (const height of ordered.map((tx) => parseInt(tx.height, 10))) {
+      if (!times.has(height)) {
+        const window = await this.getBlockTimes(
+          height,
+          Math.min(height + BLOCKCHAIN_PAGE_SIZE - 1, maxHeight),
+        );
+        window.forEach((time, h) => times.set(h, time));
+      }
+    }
+
+    const events: IAkashEvent[] = [];
+    for (const tx of ordered) {
+      const height = parseInt(tx.height, 10);
+      const time = times.get(height);
+      const timestamp = time ? new Date(time).toISOString() : new Date().toISOString();
+      tx.tx_result.events.forEach((event, eventIndex) => {
+        const akashEvent = convertTendermintEvent(event, height, timestamp, tx.hash, eventIndex);
+        if (akashEvent) {
+          events.push(akashEvent);
+        }
+      });
+    }
+    return events;
+  }
+}
+
+/**
+ * Create RPC client from Akash RPC credentials
+ */
+export function createRpcClient(credentials: IAkashRpcCredentials): AkashRpcClient {
+  const headers: Record<string, string> = {};
+  for (const header of credentials.customHeaders?.header || []) {
+    if (header.name) {
+      headers[header.name] = header.value;
+    }
+  }
+  return new AkashRpcClient(credentials.rpcEndpoint, headers);
+}
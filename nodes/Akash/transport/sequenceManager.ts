@@ -0,0 +1,111 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { SignerData } from '@cosmjs/stargate';
+
+/**
+ * Sequence Manager
+ *
+ * Every transaction of a wallet must carry the next account sequence. Items and
+ * executions that broadcast for the same wallet at the same time would all read the
+ * same sequence from the chain, so broadcasts are queued per wallet and sequences are
+ * assigned locally. A broadcast rejected with "account sequence mismatch" (another
+ * wallet user got in between) is retried once with the sequence re-queried from chain.
+ */
+
+// Locally assigned sequences are trusted for this long after the last broadcast
+const SEQUENCE_TTL = 60 * 1000;
+
+const managers = new Map<string, SequenceManager>();
+
+export class SequenceManager {
+  private queue: Promise<unknown> = Promise.resolve();
+  private signerData?: SignerData;
+  private updatedAt = 0;
+
+  /**
+   * Run a broadcast once the previous broadcasts of the wallet are done
+   * @param send - Sign with the given signer data and broadcast
+   * @param fetchSignerData - Query the account number and sequence from chain
+   */
+  async broadcast<T>(
+    send: (signerData: SignerData) => Promise<T>,
+    fetchSignerData: () => Promise<SignerData>,
+  ): Promise<T> {
+    const run = this.queue.then(() => this.send(send, fetchSignerData));
+    // A failed broadcast must not stop the ones queued after it
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Forget the local sequence; the next broadcast queries it from chain
+   */
+  reset(): void {
+    this.signerData = undefined;
+  }
+
+  private async send<T>(
+    send: (signerData: SignerData) => Promise<T>,
+    fetchSignerData: () => Promise<SignerData>,
+  ): Promise<T> {
+    try {
+      return await this.attempt(send, fetchSignerData);
+    } catch (error) {
+      if (!isSequenceMismatch(error)) {
+        throw error;
+      }
+      this.reset();
+      return this.attempt(send, fetchSignerData);
+    }
+  }
+
+  private async attempt<T>(
+    send: (signerData: SignerData) => Promise<T>,
+    fetchSignerData: () => Promise<SignerData>,
+  ): Promise<T> {
+    if (!this.signerData || Date.now() - this.updatedAt > SEQUENCE_TTL) {
+      this.signerData = await fetchSignerData();
+    }
+
+    let result: T;
+    try {
+      result = await send(this.signerData);
+    } catch (error) {
+      // The sequence is not known to be used or unused, e.g. after a timeout
+      this.reset();
+      throw error;
+    }
+
+    // Included transactions use up the sequence, whether they succeeded or not
+    this.signerData = { ...this.signerData, sequence: this.signerData.sequence + 1 };
+    this.updatedAt = Date.now();
+    return result;
+  }
+}
+
+/**
+ * Get the sequence manager of a wallet
+ * Managers live for the whole process so parallel executions share them.
+ */
+export function getSequenceManager(chainId: string, address: string): SequenceManager {
+  const key = `${chainId}/${address}`;
+  let manager = managers.get(key);
+  if (!manager) {
+    manager = new SequenceManager();
+    managers.set(key, manager);
+  }
+  return manager;
+}
+
+/**
+ * Whether a broadcast was rejected because of a wrong account sequence
+ */
+export function isSequenceMismatch(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return /account sequence mismatch|incorrect account sequence/i.test(message);
+}
@@ -7,23 +7,25 @@
 
 import WebSocket from 'ws';
 import { EventEmitter } from 'events';
-import { IAkashEvent, IAttribute, AkashEventType, IAkashApiCredentials } from '../types';
+import { createHash } from 'crypto';
+import { IAkashEvent, IAkashApiCredentials, ITendermintEvent } from '../types';
 import { AKASH_ENDPOINTS, TIMEOUTS } from '../constants';
+import { convertTendermintEvent, getEventKey } from '../helpers/events';
+import { AkashRpcClient } from './rpcClient';
 
 /**
  * WebSocket Client for Akash Network
  *
  * Handles real-time event subscriptions via Tendermint WebSocket.
  * Used by the trigger node to monitor blockchain events.
+ *
+ * After a reconnect, subscriptions are replayed and events from blocks
+ * produced while disconnected are fetched over RPC, so listeners see each
+ * event once and in chain order.
  */
 
-interface TendermintEvent {
-  type: string;
-  attributes: Array<{
-    key: string;
-    value: string;
-  }>;
-}
+const BACKFILL_WINDOW_BLOCKS = 500;
+const MAX_SEEN_EVENTS = 10000;
 
 interface TendermintMessage {
   id?: string;
@@ -37,7 +39,7 @@ interface TendermintMessage {
           height: string;
           tx: string;
           result: {
-            events: TendermintEvent[];
+            events: ITendermintEvent[];
           };
         };
         block?: {
@@ -63,12 +65,23 @@ export class AkashWebSocketClient extends EventEmitter {
   private reconnectAttempts: number = 0;
   private maxReconnectAttempts: number = 5;
   private reconnectDelay: number = 1000;
-  private subscriptions: Map<string, string> = new Map();
+  private subscriptions: Map<string, { id: string; query: string }> = new Map();
   private messageId: number = 0;
   private isConnected: boolean = false;
+  private isClosing: boolean = false;
   private pingInterval?: NodeJS.Timeout;
+  private rpcClient: AkashRpcClient;
+  private lastHeight: number = 0;
+  private disconnectHeight?: Promise<number>;
+  private seenEvents: Map<string, number> = new Map();
+  private backfilling: boolean = false;
+  private pendingEvents: IAkashEvent[] = [];
 
-  constructor(endpointOrCredentials: string | IAkashApiCredentials) {
+  /**
+   * @param endpointOrCredentials - WebSocket URL, or credentials to use the network's endpoint
+   * @param rpcClient - RPC client for backfilling missed blocks; defaults to the WebSocket's host
+   */
+  constructor(endpointOrCredentials: string | IAkashApiCredentials, rpcClient?: AkashRpcClient) {
     super();
 
     if (typeof endpointOrCredentials === 'string') {
@@ -77,12 +90,22 @@ export class AkashWebSocketClient extends EventEmitter {
       const network = endpointOrCredentials.network || 'mainnet';
       this.wsEndpoint = AKASH_ENDPOINTS[network].websocket;
     }
+
+    this.rpcClient =
+      rpcClient ||
+      new AkashRpcClient(this.wsEndpoint.replace(/^ws/, 'http').replace(/\/websocket\/?$/, ''));
   }
 
   /**
    * Connect to WebSocket
    */
   async connect(): Promise<void> {
+    this.isClosing = false;
+    if (!this.lastHeight) {
+      // Without a starting height a reconnect cannot tell which blocks were missed
+      this.lastHeight = await this.rpcClient.getLatestHeight().catch(() => 0);
+    }
+
     return new Promise((resolve, reject) => {
       try {
         this.ws = new WebSocket(this.wsEndpoint);
@@ -110,7 +133,10 @@ export class AkashWebSocketClient extends EventEmitter {
           this.isConnected = false;
           this.stopPing();
           this.emit('disconnected');
-          this.attemptReconnect();
+          if (!this.isClosing) {
+            this.recordDisconnectHeight();
+            this.attemptReconnect();
+          }
         });
 
         // Set connection timeout
@@ -129,8 +155,11 @@ export class AkashWebSocketClient extends EventEmitter {
    * Disconnect from WebSocket
    */
   disconnect(): void {
+    this.isClosing = true;
     this.stopPing();
     this.subscriptions.clear();
+    this.seenEvents.clear();
+    this.pendingEvents = [];
 
     if (this.ws) {
       this.ws.close();
@@ -209,7 +238,7 @@ export class AkashWebSocketClient extends EventEmitter {
     }
 
     const id = this.getNextMessageId();
-    this.subscriptions.set(name, id);
+    this.subscriptions.set(name, { id, query });
 
     const subscribeMessage = {
       jsonrpc: '2.0',
@@ -231,8 +260,8 @@ export class AkashWebSocketClient extends EventEmitter {
       return;
     }
 
-    const id = this.subscriptions.get(name);
-    if (!id) {
+    const subscription = this.subscriptions.get(name);
+    if (!subscription) {
       return;
     }
 
@@ -241,7 +270,7 @@ export class AkashWebSocketClient extends EventEmitter {
       method: 'unsubscribe',
       id: this.getNextMessageId(),
       params: {
-        query: id,
+        query: subscription.query,
       },
     };
 
@@ -263,9 +292,11 @@ export class AkashWebSocketClient extends EventEmitter {
 
       if (message.result?.data) {
         const events = this.parseEvents(message);
-        for (const event of events) {
-          this.emit('event', event);
-          this.emitTypedEvent(event);
+        if (this.backfilling) {
+          // Hold live events until the missed blocks have been emitted
+          this.pendingEvents.push(...events);
+        } else {
+          events.forEach((event) => this.dispatchEvent(event));
         }
       }
     } catch (error) {
@@ -278,63 +309,123 @@ export class AkashWebSocketClient extends EventEmitter {
    */
   private parseEvents(message: TendermintMessage): IAkashEvent[] {
     const events: IAkashEvent[] = [];
+    const value = message.result?.data?.value;
+
+    if (value?.block) {
+      events.push({
+        type: 'block',
+        attributes: [],
+        height: parseInt(value.block.header.height, 10),
+        timestamp: new Date(value.block.header.time).toISOString(),
+      });
+      return events;
+    }
 
-    if (!message.result?.data?.value?.TxResult) {
+    if (!value?.TxResult) {
       return events;
     }
 
-    const txResult = message.result.data.value.TxResult;
+    const txResult = value.TxResult;
     const height = parseInt(txResult.height, 10);
     const timestamp = new Date().toISOString();
+    const txHash = createHash('sha256')
+      .update(Buffer.from(txResult.tx, 'base64'))
+      .digest('hex')
+      .toUpperCase();
 
-    for (const event of txResult.result.events) {
-      const akashEvent = this.convertEvent(event, height, timestamp);
+    txResult.result.events.forEach((event, eventIndex) => {
+      const akashEvent = convertTendermintEvent(event, height, timestamp, txHash, eventIndex);
       if (akashEvent) {
         events.push(akashEvent);
       }
-    }
+    });
 
     return events;
   }
 
   /**
-   * Convert Tendermint event to Akash event
+   * Emit an event unless it was already emitted
    */
-  private convertEvent(
-    event: TendermintEvent,
-    height: number,
-    timestamp: string,
-  ): IAkashEvent | null {
-    const eventTypeMap: Record<string, AkashEventType> = {
-      'akash.deployment.v1beta3.EventDeploymentCreated': 'deployment.created',
-      'akash.deployment.v1beta3.EventDeploymentUpdated': 'deployment.updated',
-      'akash.deployment.v1beta3.EventDeploymentClosed': 'deployment.closed',
-      'akash.market.v1beta4.EventLeaseCreated': 'lease.created',
-      'akash.market.v1beta4.EventLeaseClosed': 'lease.closed',
-      'akash.market.v1beta4.EventBidCreated': 'bid.created',
-      'akash.market.v1beta4.EventBidClosed': 'bid.closed',
-      'akash.market.v1beta4.EventOrderCreated': 'order.created',
-      'akash.market.v1beta4.EventOrderClosed': 'order.closed',
-      'akash.provider.v1beta3.EventProviderCreated': 'provider.created',
-      'akash.provider.v1beta3.EventProviderUpdated': 'provider.updated',
-    };
+  private dispatchEvent(event: IAkashEvent): void {
+    const key = getEventKey(event);
+    if (this.seenEvents.has(key)) {
+      return;
+    }
+    this.seenEvents.set(key, event.height);
+    this.lastHeight = Math.max(this.lastHeight, event.height);
 
-    const akashEventType = eventTypeMap[event.type];
-    if (!akashEventType) {
-      return null;
+    if (this.seenEvents.size > MAX_SEEN_EVENTS) {
+      // Keys are kept in insertion order, so the oldest are dropped first
+      const excess = this.seenEvents.size - MAX_SEEN_EVENTS;
+      [...this.seenEvents.keys()].slice(0, excess).forEach((k) => this.seenEvents.delete(k));
     }
 
-    const attributes: IAttribute[] = event.attributes.map((attr) => ({
-      key: Buffer.from(attr.key, 'base64').toString(),
-      value: Buffer.from(attr.value, 'base64').toString(),
-    }));
+    this.emit('event', event);
+    this.emitTypedEvent(event);
+  }
 
-    return {
-      type: akashEventType,
-      attributes,
-      height,
-      timestamp,
-    };
+  /**
+   * Replay subscriptions and emit events from blocks missed while disconnected
+   */
+  private async restoreSubscriptions(): Promise<void> {
+    const subscriptions = [...this.subscriptions.entries()];
+    for (const [name, { query }] of subscriptions) {
+      this.subscribe(name, query);
+    }
+
+    if (subscriptions.length === 0) {
+      return;
+    }
+
+    this.backfilling = true;
+    try {
+      // Events of earlier blocks were received before the connection dropped
+      const fromHeight = Math.max(this.lastHeight, (await this.disconnectHeight) || 0);
+      this.disconnectHeight = undefined;
+      if (!fromHeight) {
+        return;
+      }
+
+      const latest = await this.rpcClient.getLatestHeight();
+      const txQueries = subscriptions
+        .map(([, { query }]) => query)
+        .filter((query) => !query.includes('tm.event'));
+      const includeBlocks = txQueries.length < subscriptions.length;
+
+      // The last seen height is scanned again in case it was only partly received
+      for (let start = fromHeight; start <= latest; start += BACKFILL_WINDOW_BLOCKS) {
+        const end = Math.min(start + BACKFILL_WINDOW_BLOCKS - 1, latest);
+        const events = txQueries.length
+          ? await this.rpcClient.getEvents(txQueries, start, end)
+          : [];
+        if (includeBlocks) {
+          events.push(...(await this.rpcClient.getBlockEvents(start, end)));
+          events.sort((a, b) => a.height - b.height);
+        }
+        events.forEach((event) => this.dispatchEvent(event));
+      }
+      this.lastHeight = Math.max(this.lastHeight, latest);
+      this.emit('backfilled', { fromHeight, toHeight: latest });
+    } catch (error) {
+      this.emit('error', error);
+    } finally {
+      this.backfilling = false;
+      const pending = this.pendingEvents;
+      this.pendingEvents = [];
+      pending.forEach((event) => this.dispatchEvent(event));
+    }
+  }
+
+  /**
+   * Query the chain height when the connection drops
+   * Events only arrive for subscribed queries, so the last event seen can be far behind
+   * the chain; the backfill starts from this height instead. Failed reconnects keep the
+   * height of the first disconnect.
+   */
+  private recordDisconnectHeight(): void {
+    if (!this.disconnectHeight) {
+      this.disconnectHeight = this.rpcClient.getLatestHeight().catch(() => 0);
+    }
   }
 
   /**
@@ -380,9 +471,11 @@ export class AkashWebSocketClient extends EventEmitter {
 
     setTimeout(() => {
       this.emit('reconnecting', this.reconnectAttempts);
-      this.connect().catch((error) => {
-        this.emit('error', error);
-      });
+      this.connect()
+        .then(() => this.restoreSubscriptions())
+        .catch((error) => {
+          this.emit('error', error);
+        });
     }, delay);
   }
 
@@ -21,16 +21,27 @@ import { IDataObject } from 'n8n-workflow';
 export interface IAkashApiCredentials {
   apiEndpoint: string;
   walletAddress: string;
+  authMethod?: 'mnemonic' | 'privateKey' | 'keystore' | 'external';
   mnemonic?: string;
+  accountIndex?: number;
+  hdPath?: string;
   privateKey?: string;
+  keystore?: string;
+  keystorePassphrase?: string;
+  publicKey?: string;
   network: 'mainnet' | 'testnet';
   chainId?: string;
+  clientCertificate?: string;
+  clientCertificateKey?: string;
 }
 
 export interface IAkashRpcCredentials {
   rpcEndpoint: string;
   restEndpoint: string;
   websocketEndpoint?: string;
+  customHeaders?: {
+    header?: Array<{ name: string; value: string }>;
+  };
 }
 
 // ============================================================================
@@ -38,7 +49,7 @@ export interface IAkashRpcCredentials {
 // ============================================================================
 
 /**
- * SDL v2.0 Manifest structure
+ * SDL v2.0/v2.1 Manifest structure
  * SDL is the YAML format used to define deployments on Akash
  */
 export interface ISDLManifest {
@@ -49,6 +60,7 @@ export interface ISDLManifest {
     placement: Record<string, ISDLPlacementProfile>;
   };
   deployment: Record<string, ISDLDeploymentConfig>;
+  endpoints?: Record<string, ISDLEndpoint>;
 }
 
 export interface ISDLService {
@@ -58,6 +70,17 @@ export interface ISDLService {
   env?: string[];
   expose?: ISDLExpose[];
   params?: ISDLServiceParams;
+  credentials?: ISDLCredentials;
+}
+
+/**
+ * Private registry credentials (SDL v2.1)
+ */
+export interface ISDLCredentials {
+  host: string;
+  username: string;
+  password: string;
+  email?: string;
 }
 
 export interface ISDLExpose {
@@ -66,11 +89,32 @@ export interface ISDLExpose {
   proto?: 'tcp' | 'udp';
   to?: ISDLExposeTo[];
   accept?: string[];
+  http_options?: ISDLHttpOptions;
 }
 
 export interface ISDLExposeTo {
   global?: boolean;
   service?: string;
+  ip?: string;
+}
+
+/**
+ * Ingress overrides for HTTP exposes; timeouts are in milliseconds
+ */
+export interface ISDLHttpOptions {
+  max_body_size?: number;
+  read_timeout?: number;
+  send_timeout?: number;
+  next_tries?: number;
+  next_timeout?: number;
+  next_cases?: string[];
+}
+
+/**
+ * Leased IP endpoint (SDL v2.1)
+ */
+export interface ISDLEndpoint {
+  kind: 'ip';
 }
 
 export interface ISDLServiceParams {
@@ -101,13 +145,20 @@ export interface ISDLStorage {
   size: string;
   name?: string;
   class?: string;
+  attributes?: {
+    persistent?: boolean | string;
+    class?: SDLStorageClass;
+  };
 }
 
+export type SDLStorageClass = 'default' | 'beta1' | 'beta2' | 'beta3' | 'ram';
+
 export interface ISDLGpu {
   units: number;
   attributes?: {
     vendor?: {
       nvidia?: ISDLGpuModel[];
+      amd?: ISDLGpuModel[];
     };
   };
 }
@@ -115,7 +166,7 @@ export interface ISDLGpu {
 export interface ISDLGpuModel {
   model: string;
   ram?: string;
-  interface?: string;
+  interface?: 'pcie' | 'sxm';
 }
 
 export interface ISDLPlacementProfile {
@@ -139,6 +190,29 @@ export interface ISDLDeploymentConfig {
   };
 }
 
+export type SDLChangeScope = 'service' | 'profile' | 'placement' | 'deployment' | 'endpoint';
+
+/**
+ * A single difference between two SDLs
+ */
+export interface ISDLChange {
+  scope: SDLChangeScope;
+  name: string;
+  field: string;
+  from?: unknown;
+  to?: unknown;
+  inPlace: boolean;
+  reason?: string;
+}
+
+export interface ISDLDiff {
+  classification: 'unchanged' | 'inPlace' | 'redeploy';
+  services: Record<string, ISDLChange[]>;
+  profiles: Record<string, ISDLChange[]>;
+  changes: ISDLChange[];
+  reasons: string[];
+}
+
 // ============================================================================
 // Deployment Types
 // ============================================================================
@@ -195,6 +269,7 @@ export interface IPlacementRequirements {
 export interface IAttribute {
   key: string;
   value: string;
+  auditedBy?: string[];
 }
 
 export interface ISignedBy {
@@ -255,6 +330,20 @@ export interface ICoin {
   amount: string;
 }
 
+export interface IEscrowRunway {
+  dseq: string;
+  denom: string;
+  balance: number;
+  funds: number;
+  unsettled: number;
+  available: number;
+  pricePerBlock: number;
+  leaseCount: number;
+  blocksRemaining: number | null;
+  hoursRemaining: number | null;
+  depletesAt: string | null;
+}
+
 export type DeploymentState = 'active' | 'closed' | 'insufficient_funds';
 export type GroupState = 'open' | 'paused' | 'closed' | 'insufficient_funds';
 export type EscrowState = 'active' | 'closed' | 'overdrawn';
@@ -337,6 +426,35 @@ export interface IBid {
 
 export type BidState = 'open' | 'active' | 'lost' | 'closed';
 
+export type BidSelectionStrategy = 'cheapest' | 'audited' | 'uptime' | 'region' | 'weighted';
+
+export interface IBidSelectionWeights {
+  price: number;
+  uptime: number;
+  audit: number;
+  gpu: number;
+}
+
+export interface IBidSelectionOptions {
+  strategy?: BidSelectionStrategy;
+  maxPrice?: number;
+  maxPriceDenom?: string;
+  preferredProvider?: string;
+  region?: string;
+  gpuModels?: string[];
+  auditors?: string[];
+  weights?: Partial<IBidSelectionWeights>;
+}
+
+export interface IRankedBid {
+  rank: number;
+  bid: IBid;
+  provider: string;
+  eligible: boolean;
+  score: number;
+  reasons: string[];
+}
+
 // ============================================================================
 // Provider Types
 // ============================================================================
@@ -348,7 +466,12 @@ export interface IProvider {
   attributes: IAttribute[];
   info: IProviderInfo;
   isActive?: boolean;
+  isAudited?: boolean;
   leaseCount?: number;
+  ipRegion?: string;
+  uptime1d?: number;
+  uptime7d?: number;
+  uptime30d?: number;
 }
 
 export interface IProviderInfo {
@@ -426,6 +549,20 @@ export interface ICertificate {
 
 export type CertificateState = 'valid' | 'revoked';
 
+export interface ICertificateKeyPair {
+  cert: string;
+  publicKey: string;
+  privateKey: string;
+  serial: string;
+  notBefore: string;
+  notAfter: string;
+}
+
+export interface IProviderCertificate {
+  cert: string;
+  privateKey: string;
+}
+
 // ============================================================================
 // Wallet Types
 // ============================================================================
@@ -444,19 +581,49 @@ export interface IDelegation {
   balance: ICoin;
 }
 
+/**
+ * Validator summary
+ * Commission and voting power are fractions between 0 and 1.
+ */
+export interface IValidator {
+  operatorAddress: string;
+  moniker: string;
+  commission: number;
+  tokens: string;
+  votingPower: number;
+  jailed: boolean;
+}
+
 export interface IReward {
   validatorAddress: string;
   reward: ICoin[];
 }
 
+/**
+ * Transaction message with a readable summary
+ */
+export interface ITxMessage {
+  typeUrl: string;
+  summary: string;
+  data: IDataObject;
+}
+
 export interface ITransaction {
   txhash: string;
   height: string;
   timestamp: string;
+  success: boolean;
+  code: number;
   gasWanted: string;
   gasUsed: string;
-  tx: IDataObject;
-  logs?: IDataObject[];
+  fee: ICoin[];
+  feeAkt: string;
+  feeGranter?: string;
+  feePayer?: string;
+  memo: string;
+  summary: string;
+  messages: ITxMessage[];
+  rawLog?: string;
 }
 
 // ============================================================================
@@ -577,6 +744,118 @@ export interface ITransactionResult {
   events?: IDataObject[];
 }
 
+/**
+ * Transaction built for an external signer
+ * Byte fields are base64. The signer signs sha256(signBytes) and the signature is
+ * attached to txRaw before broadcasting.
+ */
+export interface IUnsignedTransaction {
+  unsigned: true;
+  signer: string;
+  chainId: string;
+  accountNumber: string;
+  sequence: string;
+  gasLimit: string;
+  fee: ICoin[];
+  feeAkt: string;
+  memo: string;
+  summary: string;
+  messages: ITxMessage[];
+  signDoc: {
+    bodyBytes: string;
+    authInfoBytes: string;
+    chainId: string;
+    accountNumber: string;
+  };
+  signBytes: string;
+  txRaw: string;
+}
+
+/**
+ * Fee and memo settings for a signed transaction
+ * Gas is simulated when no limit is given. The fee granter pays through a feegrant allowance;
+ * the fee payer must co-sign the transaction. With an AuthZ granter, messages are owned by the
+ * granter and executed by the connected wallet.
+ */
+export interface ITxOptions {
+  gasLimit?: number;
+  gasMultiplier?: number;
+  gasPrice?: number;
+  feeDenom?: string;
+  memo?: string;
+  feeGranter?: string;
+  feePayer?: string;
+  authzGranter?: string;
+}
+
+export type FeeAllowanceType = 'basic' | 'periodic';
+
+/**
+ * Fee allowance to grant
+ * Empty spend limits mean no limit; the period is in seconds.
+ */
+export interface IFeeAllowanceParams {
+  type: FeeAllowanceType;
+  spendLimit?: ICoin[];
+  expiration?: Date;
+  period?: number;
+  periodSpendLimit?: ICoin[];
+}
+
+export interface IFeeAllowance {
+  granter: string;
+  grantee: string;
+  type: string;
+  spendLimit: ICoin[];
+  expiration?: string;
+  period?: number;
+  periodSpendLimit?: ICoin[];
+  periodCanSpend?: ICoin[];
+  periodReset?: string;
+  allowedMessages?: string[];
+}
+
+export type ProposalStatusName = 'deposit' | 'voting' | 'passed' | 'rejected' | 'failed';
+
+export type VoteOptionName = 'yes' | 'abstain' | 'no' | 'noWithVeto';
+
+/**
+ * Vote totals of a proposal in uakt
+ */
+export interface IProposalTally {
+  yes: string;
+  abstain: string;
+  no: string;
+  noWithVeto: string;
+}
+
+export interface IProposal {
+  id: string;
+  title: string;
+  description: string;
+  type: string;
+  status: ProposalStatusName | 'unspecified';
+  submitTime?: string;
+  depositEndTime?: string;
+  votingStartTime?: string;
+  votingEndTime?: string;
+  totalDeposit: ICoin[];
+  finalTally: IProposalTally;
+  upgradePlan?: {
+    name: string;
+    height: string;
+    info: string;
+  };
+}
+
+export interface IAuthzGrant {
+  granter: string;
+  grantee: string;
+  authorization: string;
+  msgTypeUrl?: string;
+  expiration?: string;
+}
+
 export interface IMsgCreateDeployment {
   owner: string;
   version: Uint8Array;
@@ -635,6 +914,7 @@ export interface IAkashEvent {
   timestamp: string;
   height: number;
   txHash?: string;
+  eventIndex?: number;
 }
 
 export type AkashEventType =
@@ -648,17 +928,54 @@ export type AkashEventType =
   | 'order.created'
   | 'order.closed'
   | 'provider.created'
-  | 'provider.updated';
+  | 'provider.updated'
+  | 'block';
+
+/**
+ * Raw ABCI event as returned by Tendermint RPC
+ * Attribute keys and values are base64 encoded on Tendermint 0.34 and plain on CometBFT.
+ */
+export interface ITendermintEvent {
+  type: string;
+  attributes: Array<{
+    key: string;
+    value: string;
+    index?: boolean;
+  }>;
+}
+
+/**
+ * Akash event with the identifiers most workflows filter on pulled out of its attributes
+ */
+export interface IParsedAkashEvent extends IAkashEvent {
+  owner?: string;
+  provider?: string;
+  dseq?: number;
+  gseq?: number;
+  oseq?: number;
+  id?: IDeploymentId | IOrderId | ILeaseId | IBidId;
+  state?: string;
+  price?: ICoin;
+  reason?: string;
+  data?: Record<string, unknown>;
+}
 
 export interface IDeploymentEvent extends IAkashEvent {
   deploymentId: IDeploymentId;
   state?: DeploymentState;
+  version?: string;
+}
+
+export interface IOrderEvent extends IAkashEvent {
+  orderId: IOrderId;
+  state?: OrderState;
 }
 
 export interface ILeaseEvent extends IAkashEvent {
   leaseId: ILeaseId;
   state?: LeaseState;
   price?: ICoin;
+  reason?: string;
 }
 
 export interface IBidEvent extends IAkashEvent {
@@ -667,6 +984,18 @@ export interface IBidEvent extends IAkashEvent {
   price?: ICoin;
 }
 
+export interface IProviderEvent extends IAkashEvent {
+  owner: string;
+}
+
+export type TypedAkashEvent =
+  | IDeploymentEvent
+  | IOrderEvent
+  | ILeaseEvent
+  | IBidEvent
+  | IProviderEvent
+  | IAkashEvent;
+
 // ============================================================================
 // Utility Types
 // ============================================================================
@@ -713,10 +1042,13 @@ export type AkashResource =
   | 'provider'
   | 'certificate'
   | 'wallet'
-  | 'marketplace';
+  | 'marketplace'
+  | 'governance'
+  | 'transaction';
 
 export type DeploymentOperation =
   | 'create'
+  | 'deploy'
   | 'get'
   | 'getMany'
   | 'update'
@@ -725,7 +1057,9 @@ export type DeploymentOperation =
   | 'logs'
   | 'deposit'
   | 'groups'
-  | 'escrow';
+  | 'escrow'
+  | 'runway'
+  | 'redeploy';
 
 export type LeaseOperation =
   | 'create'
@@ -736,7 +1070,8 @@ export type LeaseOperation =
   | 'events'
   | 'withdraw'
   | 'shell'
-  | 'sendManifest';
+  | 'sendManifest'
+  | 'logs';
 
 export type OrderOperation = 'get' | 'getMany' | 'bids' | 'close';
 
@@ -757,9 +1092,26 @@ export type WalletOperation =
   | 'balance'
   | 'escrowBalances'
   | 'history'
+  | 'deriveAddresses'
+  | 'exportKeystore'
   | 'send'
   | 'delegations'
-  | 'rewards';
+  | 'rewards'
+  | 'grant'
+  | 'revoke'
+  | 'listGrants'
+  | 'grantAllowance'
+  | 'revokeAllowance'
+  | 'allowances'
+  | 'delegate'
+  | 'undelegate'
+  | 'redelegate'
+  | 'withdrawRewards'
+  | 'setWithdrawAddress';
+
+export type GovernanceOperation = 'get' | 'getMany' | 'vote' | 'deposit';
+
+export type TransactionOperation = 'batch' | 'broadcast';
 
 export type MarketplaceOperation =
   | 'capacity'
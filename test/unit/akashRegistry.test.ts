@@ -0,0 +1,126 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { toHex } from '@cosmjs/encoding';
+import { MsgExec } from 'cosmjs-types/cosmos/authz/v1beta1/tx';
+import { createAkashRegistry } from '../../nodes/Akash/transport/akashRegistry';
+import { generateVersionHash, parseSDL, sdlToGroups } from '../../nodes/Akash/helpers/sdlParser';
+
+const SDL = `
+version: "2.0"
+services:
+  web:
+    image: nginx:1.25
+    expose:
+      - port: 80
+        to:
+          - global: true
+profiles:
+  compute:
+    web:
+      resources:
+        cpu:
+          units: 0.5
+        memory:
+          size: 512Mi
+        storage:
+          size: 1Gi
+  placement:
+    dcloud:
+      pricing:
+        web:
+          denom: uakt
+          amount: 1000
+deployment:
+  dcloud:
+    web:
+      profile: web
+      count: 1
+`;
+
+const OWNER = 'akash1owner';
+
+describe('Akash Registry', () => {
+	const registry = createAkashRegistry();
+
+	it('should wrap a MsgCreateDeployment in a MsgExec', () => {
+		const sdl = parseSDL(SDL);
+		const message = {
+			typeUrl: '/akash.deployment.v1beta3.MsgCreateDeployment',
+			value: {
+				id: { owner: OWNER, dseq: '123' },
+				groups: sdlToGroups(sdl),
+				version: generateVersionHash(sdl),
+				deposit: { denom: 'uakt', amount: '5000000' },
+				depositor: OWNER,
+			},
+		};
+
+		const exec = registry.encode({
+			typeUrl: '/cosmos.authz.v1beta1.MsgExec',
+			value: { grantee: 'akash1grantee', msgs: [registry.encodeAsAny(message)] },
+		});
+
+		const [any] = MsgExec.decode(exec).msgs;
+		expect(any.typeUrl).toBe(message.typeUrl);
+
+		const decoded = registry.decode(any);
+		expect(decoded.id).toEqual({ owner: OWNER, dseq: '123' });
+		expect(decoded.depositor).toBe(OWNER);
+		expect(decoded.deposit).toEqual({ denom: 'uakt', amount: '5000000' });
+		expect(decoded.version).toEqual(message.value.version);
+
+		const [group] = decoded.groups;
+		expect(group.name).toBe('dcloud');
+		const [unit] = group.resources;
+		expect(unit.count).toBe(1);
+		expect(unit.price).toEqual({ denom: 'uakt', amount: '1000000000' });
+		expect(Buffer.from(unit.resources.cpu.units.val).toString()).toBe('500');
+		// The shared HTTP endpoint only has default fields, which are left out
+		expect(unit.resources.endpoints).toEqual([{}]);
+	});
+
+	it('should encode messages as the Akash protos do', () => {
+		// Bytes from @akashnetwork/akash-api
+		const lease = registry.encode({
+			typeUrl: '/akash.market.v1beta4.MsgCreateLease',
+			value: {
+				bidId: { owner: OWNER, dseq: '123', gseq: 1, oseq: 1, provider: 'akash1provider' },
+			},
+		});
+
+		expect(toHex(lease)).toBe(
+			'0a230a0b616b617368316f776e6572107b180120012a0e616b6173683170726f7669646572',
+		);
+	});
+
+	it('should send decimal coin amounts in units of 10^-18', () => {
+		const deployment = registry.encode({
+			typeUrl: '/akash.deployment.v1beta3.MsgCreateDeployment',
+			value: {
+				groups: [
+					{ name: 'a', resources: [{ count: 1, price: { denom: 'uakt', amount: '1000.5' } }] },
+				],
+			},
+		});
+
+		// The resource unit from @akashnetwork/akash-api is embedded as is
+		expect(toHex(deployment)).toContain(
+			'10011a1e0a0475616b74121631303030353030303030303030303030303030303030',
+		);
+		const decoded = registry.decode({
+			typeUrl: '/akash.deployment.v1beta3.MsgCreateDeployment',
+			value: deployment,
+		});
+		expect(decoded.groups[0].resources[0].price.amount).toBe('1000.5');
+	});
+
+	it('should still know the Cosmos SDK messages', () => {
+		expect(registry.lookupType('/cosmos.bank.v1beta1.MsgSend')).toBeDefined();
+		expect(registry.lookupType('/akash.market.v1beta4.MsgCloseLease')).toBeDefined();
+	});
+});
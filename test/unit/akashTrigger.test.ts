@@ -0,0 +1,103 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { IDataObject, ITriggerFunctions, ITriggerResponse } from 'n8n-workflow';
+import { AkashTrigger } from '../../nodes/Akash/AkashTrigger.node';
+import { createRpcClient } from '../../nodes/Akash/transport/rpcClient';
+import { IAkashEvent } from '../../nodes/Akash/types';
+
+jest.mock('../../nodes/Akash/transport/rpcClient', () => ({
+	createRpcClient: jest.fn(),
+}));
+
+const EVENT: IAkashEvent = {
+	type: 'deployment.created',
+	attributes: [
+		{ key: 'owner', value: 'akash1owner' },
+		{ key: 'dseq', value: '42' },
+	],
+	timestamp: '2024-01-01T00:00:00.000Z',
+	height: 101,
+	txHash: 'ABC',
+};
+
+function context(staticData: IDataObject, emit: jest.Mock): ITriggerFunctions {
+	const parameters: Record<string, unknown> = {
+		eventType: 'all',
+		mode: 'polling',
+		filters: {},
+		pollInterval: 30,
+		pollingOptions: { startHeight: 101 },
+	};
+	return {
+		getNodeParameter: (name: string, fallback?: unknown) => parameters[name] ?? fallback,
+		getCredentials: async () => ({ rpcEndpoint: 'http://localhost:26657' }),
+		getWorkflowStaticData: () => staticData,
+		getMode: () => 'trigger',
+		emit,
+		helpers: { returnJsonArray: (items: IDataObject[]) => items.map((json) => ({ json })) },
+		logger: { error: jest.fn() },
+	} as unknown as ITriggerFunctions;
+}
+
+async function pollOnce(staticData: IDataObject, emit: jest.Mock): Promise<void> {
+	const response = (await new AkashTrigger().trigger.call(
+		context(staticData, emit),
+	)) as ITriggerResponse;
+	await new Promise((resolve) => setImmediate(resolve));
+	await response.closeFunction!();
+}
+
+describe('Akash Trigger', () => {
+	const getEvents = jest.fn();
+
+	beforeAll(() => {
+		jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+	});
+
+	beforeEach(() => {
+		getEvents.mockReset();
+		getEvents.mockImplementation(
+			async (_queries: string[], minHeight: number, maxHeight: number) =>
+				EVENT.height >= minHeight && EVENT.height <= maxHeight ? [EVENT] : [],
+		);
+		(createRpcClient as jest.Mock).mockReturnValue({
+			getLatestHeight: async () => 102,
+			getEvents,
+			getBlockEvents: async () => [],
+		});
+	});
+
+	it('should save the polled height before emitting the events', async () => {
+		const staticData: IDataObject = {};
+		const heights: unknown[] = [];
+		const emit = jest.fn(() => heights.push(staticData.lastHeight));
+
+		await pollOnce(staticData, emit);
+
+		expect(emit).toHaveBeenCalledTimes(1);
+		expect(heights).toEqual([102]);
+		expect(emit).toHaveBeenCalledWith([
+			[{ json: expect.objectContaining({ eventType: 'deployment.created', dseq: 42 }) }],
+		]);
+	});
+
+	it('should not emit the same events again on the next poll after a restart', async () => {
+		// n8n saves the static data as it is when the events are emitted
+		let saved: IDataObject = {};
+		const staticData: IDataObject = {};
+		const emit = jest.fn(() => {
+			saved = { ...staticData };
+		});
+
+		await pollOnce(staticData, emit);
+		await pollOnce(saved, emit);
+
+		expect(emit).toHaveBeenCalledTimes(1);
+		expect(getEvents).toHaveBeenCalledTimes(1);
+	});
+});
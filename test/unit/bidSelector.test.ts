@@ -0,0 +1,152 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { rankBids, selectBid, getSdlGpuModels } from '../../nodes/Akash/helpers/bidSelector';
+import { parseSDL } from '../../nodes/Akash/helpers/sdlParser';
+import { AUDITORS } from '../../nodes/Akash/constants';
+import { IBid, IProvider } from '../../nodes/Akash/types';
+
+function makeBid(provider: string, amount: string, denom: string = 'uakt'): IBid {
+	return {
+		bidId: { owner: 'akash1owner', dseq: '100', gseq: 1, oseq: 1, provider },
+		state: 'open',
+		price: { denom, amount },
+		createdAt: '1',
+		resourcesOffer: [],
+	};
+}
+
+function makeProvider(owner: string, extra: Partial<IProvider> = {}): IProvider {
+	return {
+		owner,
+		hostUri: `https://${owner}.example.com:8443`,
+		attributes: [],
+		info: {},
+		...extra,
+	};
+}
+
+describe('Bid Selector', () => {
+	const bids = [
+		makeBid('akash1cheap', '1.5'),
+		makeBid('akash1audited', '3'),
+		makeBid('akash1reliable', '5'),
+	];
+	const providers = [
+		makeProvider('akash1cheap', {
+			uptime7d: 0.8,
+			attributes: [{ key: 'region', value: 'eu-west' }],
+		}),
+		makeProvider('akash1audited', {
+			uptime7d: 0.95,
+			attributes: [
+				{ key: 'region', value: 'us-west', auditedBy: [AUDITORS.mainnet.akash] },
+				{ key: 'capabilities/gpu/vendor/nvidia/model/a100', value: 'true' },
+			],
+		}),
+		makeProvider('akash1reliable', { uptime7d: 99.9 }),
+	];
+
+	it('should rank by decimal price with the cheapest strategy', () => {
+		const ranking = rankBids(bids, providers, { strategy: 'cheapest' });
+		expect(ranking.map((r) => r.provider)).toEqual([
+			'akash1cheap',
+			'akash1audited',
+			'akash1reliable',
+		]);
+		expect(ranking[0].score).toBe(1);
+		expect(ranking[0].reasons[0]).toContain('ranked #1 by cheapest strategy');
+	});
+
+	it('should exclude unaudited providers with the audited strategy', () => {
+		const ranking = rankBids(bids, providers, { strategy: 'audited' });
+		expect(ranking[0].provider).toBe('akash1audited');
+		expect(ranking.filter((r) => r.eligible)).toHaveLength(1);
+		expect(ranking[1].reasons).toContain('excluded: provider not audited by a trusted auditor');
+	});
+
+	it('should prefer the highest uptime, accepting percentages', () => {
+		const best = selectBid(bids, providers, { strategy: 'uptime' });
+		expect(best?.provider).toBe('akash1reliable');
+		expect(best?.reasons).toContain('uptime 99.90%');
+	});
+
+	it('should put providers in the preferred region first', () => {
+		const best = selectBid(bids, providers, { strategy: 'region', region: 'US-West' });
+		expect(best?.provider).toBe('akash1audited');
+	});
+
+	it('should combine factors with the weighted strategy', () => {
+		const best = selectBid(bids, providers, {
+			strategy: 'weighted',
+			gpuModels: ['a100'],
+			weights: { price: 0.2, uptime: 0.2, audit: 0.3, gpu: 0.3 },
+		});
+		expect(best?.provider).toBe('akash1audited');
+		expect(best?.reasons).toContain('requested GPU model offered');
+	});
+
+	it('should apply max price on decimal amounts and skip other denoms', () => {
+		const ranking = rankBids([...bids, makeBid('akash1usdc', '0.1', 'ibc/USDC')], providers, {
+			maxPrice: 3,
+		});
+		const eligible = ranking.filter((r) => r.eligible).map((r) => r.provider);
+		expect(eligible).toEqual(['akash1cheap', 'akash1audited']);
+		expect(ranking.find((r) => r.provider === 'akash1usdc')?.eligible).toBe(false);
+	});
+
+	it('should rank the preferred provider first when eligible', () => {
+		const best = selectBid(bids, providers, { preferredProvider: 'akash1reliable' });
+		expect(best?.provider).toBe('akash1reliable');
+		expect(best?.reasons).toContain('preferred provider');
+	});
+
+	it('should return undefined when no bid qualifies', () => {
+		expect(selectBid(bids, providers, { maxPrice: 1 })).toBeUndefined();
+	});
+
+	it('should read GPU models from the SDL', () => {
+		const sdl = parseSDL(`
+version: "2.0"
+services:
+  web:
+    image: nginx
+    expose:
+      - port: 80
+        to:
+          - global: true
+profiles:
+  compute:
+    web:
+      resources:
+        cpu:
+          units: 1
+        memory:
+          size: 1Gi
+        storage:
+          size: 1Gi
+        gpu:
+          units: 1
+          attributes:
+            vendor:
+              nvidia:
+                - model: A100
+  placement:
+    dcloud:
+      pricing:
+        web:
+          denom: uakt
+          amount: 1000
+deployment:
+  web:
+    dcloud:
+      profile: web
+      count: 1
+`);
+		expect(getSdlGpuModels(sdl)).toEqual(['a100']);
+	});
+});
@@ -0,0 +1,88 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { X509Certificate, createPrivateKey } from 'crypto';
+import { generateCertificate, toPem } from '../../nodes/Akash/helpers/certificate';
+
+const OWNER = 'akash1365yvmc4s7awdyj3n2sav7xfx76adc6dnmlx63';
+
+describe('Certificate Helper', () => {
+	describe('generateCertificate', () => {
+		it('should produce a parseable PEM X.509 certificate', () => {
+			const { cert } = generateCertificate(OWNER);
+
+			expect(cert.startsWith('-----BEGIN CERTIFICATE-----\n')).toBe(true);
+			expect(() => new X509Certificate(cert)).not.toThrow();
+		});
+
+		it('should use the owner address as subject and issuer CN', () => {
+			const x509 = new X509Certificate(generateCertificate(OWNER).cert);
+
+			expect(x509.subject).toContain(`CN=${OWNER}`);
+			expect(x509.issuer).toContain(`CN=${OWNER}`);
+		});
+
+		it('should be self-signed with the returned private key', () => {
+			const { cert, privateKey } = generateCertificate(OWNER);
+			const x509 = new X509Certificate(cert);
+
+			expect(x509.verify(x509.publicKey)).toBe(true);
+			expect(x509.checkPrivateKey(createPrivateKey(privateKey))).toBe(true);
+			expect(x509.publicKey.asymmetricKeyDetails?.namedCurve).toBe('prime256v1');
+		});
+
+		it('should report the certificate serial in decimal', () => {
+			const { cert, serial } = generateCertificate(OWNER);
+			const x509 = new X509Certificate(cert);
+
+			expect(BigInt(`0x${x509.serialNumber}`).toString()).toBe(serial);
+		});
+
+		it('should generate random serials', () => {
+			const first = generateCertificate(OWNER);
+			const second = generateCertificate(OWNER);
+
+			expect(first.serial).not.toBe(second.serial);
+		});
+
+		it('should honour the validity period', () => {
+			const { cert, notBefore, notAfter } = generateCertificate(OWNER, 30);
+			const x509 = new X509Certificate(cert);
+			const days = (new Date(notAfter).getTime() - new Date(notBefore).getTime()) / 86400000;
+
+			expect(days).toBe(30);
+			expect(new Date(x509.validTo).toISOString()).toBe(notAfter);
+		});
+
+		it('should mark the certificate for client authentication', () => {
+			const x509 = new X509Certificate(generateCertificate(OWNER).cert);
+
+			expect(x509.keyUsage).toContain('1.3.6.1.5.5.7.3.2');
+		});
+
+		it('should return the public key as an EC PUBLIC KEY PEM', () => {
+			const { publicKey } = generateCertificate(OWNER);
+
+			expect(publicKey.startsWith('-----BEGIN EC PUBLIC KEY-----\n')).toBe(true);
+		});
+
+		it('should reject a missing owner', () => {
+			expect(() => generateCertificate('')).toThrow('Certificate owner address is required');
+		});
+	});
+
+	describe('toPem', () => {
+		it('should wrap base64 body at 64 characters', () => {
+			const pem = toPem('TEST', Buffer.alloc(100, 1));
+			const lines = pem.trim().split('\n');
+
+			expect(lines[0]).toBe('-----BEGIN TEST-----');
+			expect(lines[1]).toHaveLength(64);
+			expect(lines[lines.length - 1]).toBe('-----END TEST-----');
+		});
+	});
+});
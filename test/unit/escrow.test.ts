@@ -0,0 +1,96 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { calculateEscrowRunway, calculateTopUpAmount } from '../../nodes/Akash/helpers/escrow';
+import { IDeployment, ILease } from '../../nodes/Akash/types';
+
+function makeDeployment(balance: string, funds: string = '0', settledAt: string = '1000'): IDeployment {
+	return {
+		deploymentId: { owner: 'akash1owner', dseq: '42' },
+		state: 'active',
+		version: '',
+		createdAt: '900',
+		escrowAccount: {
+			id: { scope: 'deployment', xid: 'akash1owner/42' },
+			owner: 'akash1owner',
+			state: 'active',
+			balance: { denom: 'uakt', amount: balance },
+			transferred: { denom: 'uakt', amount: '0' },
+			settledAt,
+			depositor: 'akash1owner',
+			funds: { denom: 'uakt', amount: funds },
+		},
+	};
+}
+
+function makeLease(gseq: number, amount: string, state: ILease['state'] = 'active'): ILease {
+	return {
+		leaseId: { owner: 'akash1owner', dseq: '42', gseq, oseq: 1, provider: 'akash1provider' },
+		state,
+		price: { denom: 'uakt', amount },
+		createdAt: '1000',
+	};
+}
+
+describe('Escrow', () => {
+	describe('calculateEscrowRunway', () => {
+		it('should sum active lease prices across groups', () => {
+			const runway = calculateEscrowRunway(
+				makeDeployment('6000000'),
+				[makeLease(1, '60.5'), makeLease(2, '39.5'), makeLease(3, '100', 'closed')],
+				6,
+			);
+			expect(runway.pricePerBlock).toBe(100);
+			expect(runway.leaseCount).toBe(2);
+			expect(runway.blocksRemaining).toBe(60000);
+			expect(runway.hoursRemaining).toBe(100);
+		});
+
+		it('should include authorized funds and deduct unsettled blocks', () => {
+			const runway = calculateEscrowRunway(
+				makeDeployment('1000000', '500000', '1000'),
+				[makeLease(1, '100')],
+				6,
+				2000,
+			);
+			expect(runway.unsettled).toBe(100000);
+			expect(runway.available).toBe(1400000);
+			expect(runway.blocksRemaining).toBe(14000);
+		});
+
+		it('should report no depletion without active leases', () => {
+			const runway = calculateEscrowRunway(makeDeployment('1000000'), [], 6);
+			expect(runway.hoursRemaining).toBeNull();
+			expect(runway.depletesAt).toBeNull();
+		});
+
+		it('should estimate the depletion time', () => {
+			const now = new Date('2026-01-01T00:00:00Z');
+			const runway = calculateEscrowRunway(
+				makeDeployment('600'),
+				[makeLease(1, '1')],
+				6,
+				undefined,
+				now,
+			);
+			expect(runway.depletesAt).toBe('2026-01-01T01:00:00.000Z');
+		});
+	});
+
+	describe('calculateTopUpAmount', () => {
+		it('should return the amount needed to reach the target runway', () => {
+			const runway = calculateEscrowRunway(makeDeployment('600000'), [makeLease(1, '100')], 6);
+			// 10 hours of runway, 72 hours targeted: 62 hours at 60000 uakt/hour
+			expect(calculateTopUpAmount(runway, 72, 6)).toBe(3720000);
+		});
+
+		it('should return 0 when the runway already suffices', () => {
+			const runway = calculateEscrowRunway(makeDeployment('60000000'), [makeLease(1, '100')], 6);
+			expect(calculateTopUpAmount(runway, 72, 6)).toBe(0);
+		});
+	});
+});
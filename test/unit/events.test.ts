@@ -0,0 +1,180 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import {
+	convertTendermintEvent,
+	decodeAkashEvent,
+	decodeEventAttribute,
+	getEventKey,
+	getFailedMessageIndex,
+	groupEventsByMessage,
+	parseAkashEvent,
+} from '../../nodes/Akash/helpers/events';
+import { IBidEvent, ILeaseEvent } from '../../nodes/Akash/types';
+
+function base64(value: string): string {
+	return Buffer.from(value).toString('base64');
+}
+
+describe('Event Helpers', () => {
+	it('should decode base64 attributes and keep plain ones', () => {
+		expect(decodeEventAttribute(base64('owner'))).toBe('owner');
+		expect(decodeEventAttribute('akash1owner')).toBe('akash1owner');
+		expect(decodeEventAttribute('1234')).toBe('1234');
+	});
+
+	it('should convert Akash events and ignore others', () => {
+		const event = convertTendermintEvent(
+			{
+				type: 'akash.market.v1beta4.EventLeaseCreated',
+				attributes: [{ key: base64('dseq'), value: base64('42') }],
+			},
+			100,
+			'2024-01-01T00:00:00.000Z',
+			'ABC',
+		);
+		expect(event).toEqual({
+			type: 'lease.created',
+			attributes: [{ key: 'dseq', value: '42' }],
+			height: 100,
+			timestamp: '2024-01-01T00:00:00.000Z',
+			txHash: 'ABC',
+		});
+		expect(convertTendermintEvent({ type: 'transfer', attributes: [] }, 1, '')).toBeNull();
+	});
+
+	it('should extract owner, provider and sequences', () => {
+		const parsed = parseAkashEvent({
+			type: 'lease.created',
+			attributes: [
+				{ key: 'owner', value: 'akash1owner' },
+				{ key: 'provider', value: 'akash1provider' },
+				{ key: 'dseq', value: '42' },
+				{ key: 'gseq', value: '1' },
+				{ key: 'oseq', value: '2' },
+			],
+			height: 100,
+			timestamp: '2024-01-01T00:00:00.000Z',
+		});
+		expect(parsed.owner).toBe('akash1owner');
+		expect(parsed.provider).toBe('akash1provider');
+		expect([parsed.dseq, parsed.gseq, parsed.oseq]).toEqual([42, 1, 2]);
+		expect(parsed.data).toMatchObject({ owner: 'akash1owner', dseq: '42' });
+	});
+
+	it('should key transaction events by hash and index, block events by height', () => {
+		const event = { type: 'lease.created' as const, attributes: [], height: 7, timestamp: '' };
+		expect(getEventKey({ ...event, txHash: 'ABC', eventIndex: 3 })).toBe('ABC:3');
+		expect(getEventKey({ ...event, type: 'block' })).toBe('block:7');
+	});
+
+	it('should decode typed bid events with price', () => {
+		const event = decodeAkashEvent({
+			type: 'bid.created',
+			attributes: [
+				{
+					key: 'id',
+					value:
+						'{"owner":"akash1owner","dseq":"42","gseq":1,"oseq":2,"provider":"akash1provider"}',
+				},
+				{ key: 'price', value: '{"denom":"uakt","amount":"1.250000000000000000"}' },
+			],
+			height: 100,
+			timestamp: '',
+		}) as IBidEvent;
+		expect(event.bidId).toEqual({
+			owner: 'akash1owner',
+			dseq: '42',
+			gseq: 1,
+			oseq: 2,
+			provider: 'akash1provider',
+		});
+		expect(event.state).toBe('open');
+		expect(event.price).toEqual({ denom: 'uakt', amount: '1.250000000000000000' });
+	});
+
+	it('should decode lease close reasons and legacy flat attributes', () => {
+		const event = decodeAkashEvent({
+			type: 'lease.closed',
+			attributes: [
+				{ key: 'owner', value: 'akash1owner' },
+				{ key: 'dseq', value: '42' },
+				{ key: 'gseq', value: '1' },
+				{ key: 'oseq', value: '1' },
+				{ key: 'provider', value: 'akash1provider' },
+				{ key: 'price-denom', value: 'uakt' },
+				{ key: 'price-amount', value: '3' },
+				{ key: 'reason', value: '"lease_closed_insufficient_funds"' },
+			],
+			height: 100,
+			timestamp: '',
+		}) as ILeaseEvent;
+		expect(event.leaseId.dseq).toBe('42');
+		expect(event.leaseId.provider).toBe('akash1provider');
+		expect(event.state).toBe('closed');
+		expect(event.price).toEqual({ denom: 'uakt', amount: '3' });
+		expect(event.reason).toBe('lease_closed_insufficient_funds');
+	});
+
+	it('should group tagged transaction events by message', () => {
+		const events = [
+			{ type: 'tx', attributes: [{ key: 'fee', value: '5000uakt' }] },
+			{
+				type: 'akash.deployment.v1beta3.EventDeploymentClosed',
+				attributes: [
+					{ key: 'id', value: '{"dseq":"1"}' },
+					{ key: 'msg_index', value: '0' },
+				],
+			},
+			{
+				type: 'akash.deployment.v1beta3.EventDeploymentClosed',
+				attributes: [
+					{ key: base64('id'), value: base64('{"dseq":"2"}') },
+					{ key: base64('msg_index'), value: base64('1') },
+				],
+			},
+		];
+
+		const groups = groupEventsByMessage(events, '', 2);
+
+		expect(groups).toEqual([
+			[
+				{
+					type: 'akash.deployment.v1beta3.EventDeploymentClosed',
+					attributes: [{ key: 'id', value: '{"dseq":"1"}' }],
+				},
+			],
+			[
+				{
+					type: 'akash.deployment.v1beta3.EventDeploymentClosed',
+					attributes: [{ key: 'id', value: '{"dseq":"2"}' }],
+				},
+			],
+		]);
+	});
+
+	it('should group events by message from the raw log of older chains', () => {
+		const closed = { type: 'message', attributes: [{ key: 'action', value: 'close' }] };
+		const rawLog = JSON.stringify([
+			{ msg_index: 0, events: [closed] },
+			{ msg_index: 1, events: [closed, closed] },
+		]);
+
+		const groups = groupEventsByMessage([], rawLog, 2);
+
+		expect(groups.map((group) => group.length)).toEqual([1, 2]);
+		expect(groupEventsByMessage([], 'out of gas', 2)).toEqual([[], []]);
+	});
+
+	it('should find the message that failed a transaction', () => {
+		const rawLog =
+			'failed to execute message; message index: 3: deployment closed: invalid request';
+
+		expect(getFailedMessageIndex(rawLog)).toBe(3);
+		expect(getFailedMessageIndex('out of gas')).toBeUndefined();
+	});
+});
@@ -0,0 +1,61 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { DirectSecp256k1HdWallet } from '@cosmjs/proto-signing';
+import { stringToPath } from '@cosmjs/crypto';
+import { buildHdPath, deriveAddresses } from '../../nodes/Akash/helpers/hdPath';
+
+const MNEMONIC = 'enlist hip relief stomach skate base shallow young switch frequent cry park';
+
+async function addressAt(path: string): Promise<string> {
+	const wallet = await DirectSecp256k1HdWallet.fromMnemonic(MNEMONIC, {
+		prefix: 'akash',
+		hdPaths: [stringToPath(path)],
+	});
+	return (await wallet.getAccounts())[0].address;
+}
+
+describe('HD Path', () => {
+	describe('buildHdPath', () => {
+		it('should default to the Cosmos path', () => {
+			expect(buildHdPath()).toBe("m/44'/118'/0'/0/0");
+			expect(buildHdPath(3)).toBe("m/44'/118'/0'/0/3");
+		});
+
+		it('should fill the index into a custom path', () => {
+			expect(buildHdPath(2, "m/44'/118'/{index}'/0/0")).toBe("m/44'/118'/2'/0/0");
+		});
+
+		it('should use a path without {index} as-is', () => {
+			expect(buildHdPath(5, "m/44'/118'/1'/0/7")).toBe("m/44'/118'/1'/0/7");
+		});
+
+		it('should reject invalid paths and indexes', () => {
+			expect(() => buildHdPath(0, "44'/118'/0'/0/0")).toThrow('Invalid HD path');
+			expect(() => buildHdPath(-1)).toThrow('Account index');
+			expect(() => buildHdPath(1.5)).toThrow('Account index');
+		});
+	});
+
+	describe('deriveAddresses', () => {
+		it('should derive consecutive accounts from the start index', async () => {
+			const accounts = await deriveAddresses(MNEMONIC, 1, 2);
+
+			expect(accounts).toEqual([
+				{ index: 1, path: "m/44'/118'/0'/0/1", address: await addressAt("m/44'/118'/0'/0/1") },
+				{ index: 2, path: "m/44'/118'/0'/0/2", address: await addressAt("m/44'/118'/0'/0/2") },
+			]);
+			expect(accounts[0].address).not.toBe(accounts[1].address);
+		});
+
+		it('should require {index} in the path', async () => {
+			await expect(deriveAddresses(MNEMONIC, 0, 2, "m/44'/118'/0'/0/0")).rejects.toThrow(
+				'must contain {index}',
+			);
+		});
+	});
+});
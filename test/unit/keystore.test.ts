@@ -0,0 +1,75 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { DirectSecp256k1HdWallet } from '@cosmjs/proto-signing';
+import { stringToPath } from '@cosmjs/crypto';
+import { exportKeystore, importKeystore } from '../../nodes/Akash/helpers/keystore';
+
+const MNEMONIC = 'enlist hip relief stomach skate base shallow young switch frequent cry park';
+const PASSPHRASE = 'correct horse battery';
+const HD_PATH = "m/44'/118'/0'/0/2";
+
+// Argon2 key derivation takes about a second per call
+jest.setTimeout(30000);
+
+describe('Keystore', () => {
+	let exported: { address: string; keystore: string };
+
+	beforeAll(async () => {
+		exported = await exportKeystore(MNEMONIC, PASSPHRASE, HD_PATH);
+	});
+
+	describe('exportKeystore', () => {
+		it('should export the account at the given path', async () => {
+			const wallet = await DirectSecp256k1HdWallet.fromMnemonic(MNEMONIC, {
+				prefix: 'akash',
+				hdPaths: [stringToPath(HD_PATH)],
+			});
+
+			expect(exported.address).toBe((await wallet.getAccounts())[0].address);
+		});
+
+		it('should not contain the mnemonic in plain text', () => {
+			expect(JSON.parse(exported.keystore).type).toBe('directsecp256k1hdwallet-v1');
+			expect(exported.keystore).not.toContain('enlist');
+		});
+
+		it('should reject short passphrases', async () => {
+			await expect(exportKeystore(MNEMONIC, 'short', HD_PATH)).rejects.toThrow(
+				'at least 8 characters',
+			);
+		});
+	});
+
+	describe('importKeystore', () => {
+		it('should restore the exported account', async () => {
+			const wallet = await importKeystore(exported.keystore, PASSPHRASE, exported.address);
+
+			expect((await wallet.getAccounts())[0].address).toBe(exported.address);
+			expect(wallet.mnemonic).toBe(MNEMONIC);
+		});
+
+		it('should reject a wrong passphrase', async () => {
+			await expect(importKeystore(exported.keystore, 'wrong passphrase')).rejects.toThrow(
+				'Could not decrypt the keystore',
+			);
+		});
+
+		it('should reject a wallet address that is not in the keystore', async () => {
+			const other = 'akash1w508d6qejxtdg4y5r3zarvary0c5xw7khx6akz';
+
+			await expect(importKeystore(exported.keystore, PASSPHRASE, other)).rejects.toThrow(
+				'does not match the address',
+			);
+		});
+
+		it('should reject input that is not a keystore', async () => {
+			await expect(importKeystore('', PASSPHRASE)).rejects.toThrow('Keystore is required');
+			await expect(importKeystore('not json', PASSPHRASE)).rejects.toThrow('not valid JSON');
+		});
+	});
+});
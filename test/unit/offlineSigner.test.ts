@@ -0,0 +1,140 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { fromBase64, toBase64, toHex } from '@cosmjs/encoding';
+import { makeAuthInfoBytes, makeSignDoc, Registry } from '@cosmjs/proto-signing';
+import { defaultRegistryTypes } from '@cosmjs/stargate';
+import { TxRaw } from 'cosmjs-types/cosmos/tx/v1beta1/tx';
+import {
+	attachSignature,
+	createOfflineSigner,
+	describeSignDoc,
+	parsePublicKey,
+	UnsignedTransaction,
+} from '../../nodes/Akash/transport/offlineSigner';
+
+const ADDRESS = 'akash1sender';
+const PUBKEY = new Uint8Array(33).fill(2);
+
+function makeTestSignDoc() {
+	const registry = new Registry(defaultRegistryTypes);
+	const bodyBytes = registry.encodeTxBody({
+		messages: [
+			{
+				typeUrl: '/cosmos.bank.v1beta1.MsgSend',
+				value: {
+					fromAddress: ADDRESS,
+					toAddress: 'akash1recipient',
+					amount: [{ denom: 'uakt', amount: '1000000' }],
+				},
+			},
+		],
+		memo: 'offline',
+	});
+	const authInfoBytes = makeAuthInfoBytes(
+		[
+			{
+				pubkey: {
+					typeUrl: '/cosmos.crypto.secp256k1.PubKey',
+					value: new Uint8Array([10, 33, ...PUBKEY]),
+				},
+				sequence: 7,
+			},
+		],
+		[{ denom: 'uakt', amount: '5000' }],
+		200000,
+		undefined,
+		undefined,
+	);
+	return makeSignDoc(bodyBytes, authInfoBytes, 'akashnet-2', 42);
+}
+
+describe('Offline Signer', () => {
+	describe('describeSignDoc', () => {
+		it('should fill in the chain, account and sequence', () => {
+			const unsigned = describeSignDoc(ADDRESS, makeTestSignDoc());
+
+			expect(unsigned).toMatchObject({
+				unsigned: true,
+				signer: ADDRESS,
+				chainId: 'akashnet-2',
+				accountNumber: '42',
+				sequence: '7',
+				gasLimit: '200000',
+				fee: [{ denom: 'uakt', amount: '5000' }],
+				feeAkt: '0.005000',
+				memo: 'offline',
+				summary: 'Send 1.000000 AKT from akash1sender to akash1recipient',
+			});
+		});
+
+		it('should output an unsigned TxRaw with the SignDoc bytes', () => {
+			const signDoc = makeTestSignDoc();
+			const unsigned = describeSignDoc(ADDRESS, signDoc);
+			const txRaw = TxRaw.decode(fromBase64(unsigned.txRaw));
+
+			expect(txRaw.signatures).toHaveLength(0);
+			expect(toBase64(txRaw.bodyBytes)).toBe(unsigned.signDoc.bodyBytes);
+			expect(toBase64(txRaw.authInfoBytes)).toBe(unsigned.signDoc.authInfoBytes);
+			expect(unsigned.signBytes.length).toBeGreaterThan(unsigned.signDoc.bodyBytes.length);
+		});
+	});
+
+	describe('createOfflineSigner', () => {
+		it('should report the account with its public key', async () => {
+			const signer = createOfflineSigner(ADDRESS, async () => PUBKEY);
+
+			const [account] = await signer.getAccounts();
+
+			expect(account.address).toBe(ADDRESS);
+			expect(account.pubkey).toEqual(PUBKEY);
+		});
+
+		it('should stop signing with the unsigned transaction', async () => {
+			const signer = createOfflineSigner(ADDRESS, async () => PUBKEY);
+
+			const signing = signer.signDirect(ADDRESS, makeTestSignDoc());
+
+			await expect(signing).rejects.toBeInstanceOf(UnsignedTransaction);
+			await expect(signing).rejects.toMatchObject({
+				transaction: { accountNumber: '42', sequence: '7' },
+			});
+		});
+	});
+
+	describe('attachSignature', () => {
+		it('should add the signature to the unsigned transaction', () => {
+			const unsigned = describeSignDoc(ADDRESS, makeTestSignDoc());
+			const signature = new Uint8Array(64).fill(9);
+
+			const signed = TxRaw.decode(attachSignature(fromBase64(unsigned.txRaw), signature));
+
+			expect(signed.signatures).toEqual([signature]);
+			expect(toBase64(signed.bodyBytes)).toBe(unsigned.signDoc.bodyBytes);
+		});
+
+		it('should reject signatures of the wrong length', () => {
+			const unsigned = describeSignDoc(ADDRESS, makeTestSignDoc());
+
+			expect(() => attachSignature(fromBase64(unsigned.txRaw), new Uint8Array(65))).toThrow(
+				'Signature must be 64 bytes',
+			);
+		});
+	});
+
+	describe('parsePublicKey', () => {
+		it('should accept hex and base64 keys', () => {
+			expect(parsePublicKey(toHex(PUBKEY))).toEqual(PUBKEY);
+			expect(parsePublicKey(`0x${toHex(PUBKEY)}`)).toEqual(PUBKEY);
+			expect(parsePublicKey(toBase64(PUBKEY))).toEqual(PUBKEY);
+		});
+
+		it('should reject keys that are not compressed secp256k1 keys', () => {
+			expect(() => parsePublicKey(toBase64(new Uint8Array(65)))).toThrow('33 byte');
+		});
+	});
+});
@@ -0,0 +1,127 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import {
+	Bip39,
+	EnglishMnemonic,
+	Secp256k1,
+	Secp256k1Signature,
+	sha256,
+	Slip10,
+	Slip10Curve,
+	stringToPath,
+} from '@cosmjs/crypto';
+import { fromBase64, fromBech32, toHex } from '@cosmjs/encoding';
+import { DirectSecp256k1HdWallet, makeSignBytes, makeSignDoc } from '@cosmjs/proto-signing';
+import { createPrivateKeySigner } from '../../nodes/Akash/transport/privateKeySigner';
+
+// secp256k1 private key 1: its compressed public key is the generator point G
+const KEY_ONE = `0x${'0'.repeat(63)}1`;
+const KEY_ONE_PUBKEY = '0279be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798';
+const KEY_ONE_HASH160 = '751e76e8199196d454941c45d1b3a323f1433bd6';
+const KEY_ONE_ADDRESS = 'akash1w508d6qejxtdg4y5r3zarvary0c5xw7khx6akz';
+
+// RFC 6979 signatures are deterministic, so a fixed SignDoc always gets this signature
+const SIGN_DOC_SIGNATURE =
+	'FbSyGSKLZ+JuCKPzVUkAUrzR0pOib1B7CQubQnEKnLBdMoKEWQE9m4cQPgwj84ZP7X/8jz/sMuReNs8FqBY85g==';
+
+const MNEMONIC = 'enlist hip relief stomach skate base shallow young switch frequent cry park';
+
+async function mnemonicPrivateKey(): Promise<string> {
+	const seed = await Bip39.mnemonicToSeed(new EnglishMnemonic(MNEMONIC));
+	const path = stringToPath("m/44'/118'/0'/0/0");
+	const { privkey } = Slip10.derivePath(Slip10Curve.Secp256k1, seed, path);
+	return toHex(privkey);
+}
+
+describe('Private Key Signer', () => {
+	describe('address derivation', () => {
+		it('should derive the akash address of a known key', async () => {
+			const signer = await createPrivateKeySigner(KEY_ONE);
+			const [account] = await signer.getAccounts();
+
+			expect(toHex(account.pubkey)).toBe(KEY_ONE_PUBKEY);
+			expect(fromBech32(account.address).prefix).toBe('akash');
+			expect(toHex(fromBech32(account.address).data)).toBe(KEY_ONE_HASH160);
+			expect(account.address).toBe(KEY_ONE_ADDRESS);
+		});
+
+		it('should derive the same account as the mnemonic it came from', async () => {
+			const signer = await createPrivateKeySigner(await mnemonicPrivateKey());
+			const wallet = await DirectSecp256k1HdWallet.fromMnemonic(MNEMONIC, { prefix: 'akash' });
+
+			expect((await signer.getAccounts())[0]).toEqual((await wallet.getAccounts())[0]);
+		});
+
+		it('should accept keys with and without 0x', async () => {
+			const withPrefix = await createPrivateKeySigner(KEY_ONE);
+			const withoutPrefix = await createPrivateKeySigner(KEY_ONE.slice(2));
+
+			expect((await withoutPrefix.getAccounts())[0].address).toBe(
+				(await withPrefix.getAccounts())[0].address,
+			);
+		});
+	});
+
+	describe('credential checks', () => {
+		it('should accept a matching wallet address', async () => {
+			const [account] = await (await createPrivateKeySigner(KEY_ONE)).getAccounts();
+
+			await expect(createPrivateKeySigner(KEY_ONE, account.address)).resolves.toBeDefined();
+		});
+
+		it('should reject a wallet address that does not belong to the key', async () => {
+			const [other] = await (await createPrivateKeySigner(`${'0'.repeat(63)}2`)).getAccounts();
+
+			await expect(createPrivateKeySigner(KEY_ONE, other.address)).rejects.toThrow(
+				'does not match the address',
+			);
+		});
+
+		it('should reject malformed keys', async () => {
+			await expect(createPrivateKeySigner('0x1234')).rejects.toThrow('64 characters');
+			await expect(createPrivateKeySigner('z'.repeat(64))).rejects.toThrow('64 characters');
+		});
+	});
+
+	describe('signDirect', () => {
+		const bodyBytes = new Uint8Array([10, 3, 1, 2, 3]);
+		const authInfoBytes = new Uint8Array([18, 2, 4, 5]);
+
+		it('should sign the full serialized SignDoc', async () => {
+			const signer = await createPrivateKeySigner(KEY_ONE);
+			const [account] = await signer.getAccounts();
+			const signDoc = makeSignDoc(bodyBytes, authInfoBytes, 'akashnet-2', 42);
+
+			const { signature } = await signer.signDirect(account.address, signDoc);
+
+			const valid = await Secp256k1.verifySignature(
+				Secp256k1Signature.fromFixedLength(fromBase64(signature.signature)),
+				sha256(makeSignBytes(signDoc)),
+				account.pubkey,
+			);
+			expect(valid).toBe(true);
+			expect(signature.signature).toBe(SIGN_DOC_SIGNATURE);
+		});
+
+		it('should bind the signature to the chain and account number', async () => {
+			const signer = await createPrivateKeySigner(KEY_ONE);
+			const [account] = await signer.getAccounts();
+
+			const signDocs = [
+				makeSignDoc(bodyBytes, authInfoBytes, 'akashnet-2', 42),
+				makeSignDoc(bodyBytes, authInfoBytes, 'sandbox-01', 42),
+				makeSignDoc(bodyBytes, authInfoBytes, 'akashnet-2', 43),
+			];
+			const signatures = await Promise.all(
+				signDocs.map(async (doc) => (await signer.signDirect(account.address, doc)).signature),
+			);
+
+			expect(new Set(signatures.map((s) => s.signature)).size).toBe(3);
+		});
+	});
+});
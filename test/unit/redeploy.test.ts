@@ -0,0 +1,66 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { IExecuteFunctions } from 'n8n-workflow';
+import { execute } from '../../nodes/Akash/actions/deployment/redeploy.operation';
+import { deploySdl } from '../../nodes/Akash/actions/deployment/deploy.operation';
+import { createCosmosClient } from '../../nodes/Akash/transport';
+
+jest.mock('../../nodes/Akash/actions/deployment/deploy.operation', () => ({
+	deployOptions: [],
+	deploySdl: jest.fn(),
+}));
+jest.mock('../../nodes/Akash/transport', () => ({
+	createCosmosClient: jest.fn(),
+}));
+
+function context(options: Record<string, unknown> = {}): IExecuteFunctions {
+	const parameters: Record<string, unknown> = {
+		dseq: '100',
+		sdl: 'version: "2.0"',
+		deposit: 5,
+		options,
+		transactionOptions: {},
+	};
+	return {
+		getNodeParameter: (name: string, _index: number, fallback?: unknown) =>
+			parameters[name] ?? fallback,
+	} as unknown as IExecuteFunctions;
+}
+
+describe('Redeploy', () => {
+	const closeDeployment = jest.fn(async (dseq: string) => ({
+		code: 0,
+		transactionHash: `CLOSE${dseq}`,
+	}));
+
+	beforeEach(() => {
+		closeDeployment.mockClear();
+		(deploySdl as jest.Mock).mockResolvedValue({ dseq: '200', uris: [] });
+		(createCosmosClient as jest.Mock).mockResolvedValue({
+			closeDeployment,
+			disconnect: async () => undefined,
+		});
+	});
+
+	it('should roll back when the new deployment has no URI to health check', async () => {
+		await expect(execute.call(context(), 0)).rejects.toThrow(
+			'Redeploy rolled back: the new deployment has no URI to health check. New deployment 200 was closed; deployment 100 is still running.',
+		);
+
+		expect(closeDeployment).toHaveBeenCalledTimes(1);
+		expect(closeDeployment).toHaveBeenCalledWith('200', expect.anything());
+	});
+
+	it('should close the old deployment without URIs when the health check is skipped', async () => {
+		const [result] = await execute.call(context({ skipHealthCheck: true }), 0);
+
+		expect(result.json).toMatchObject({ success: true, healthChecked: false, oldClosed: true });
+		expect(closeDeployment).toHaveBeenCalledTimes(1);
+		expect(closeDeployment).toHaveBeenCalledWith('100', expect.anything());
+	});
+});
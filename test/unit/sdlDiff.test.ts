@@ -0,0 +1,148 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { diffSDL } from '../../nodes/Akash/helpers/sdlDiff';
+import { parseSDL } from '../../nodes/Akash/helpers/sdlParser';
+import { ISDLManifest } from '../../nodes/Akash/types';
+
+const SDL = `
+version: "2.0"
+services:
+  web:
+    image: nginx:1.25
+    env:
+      - MODE=production
+    expose:
+      - port: 80
+        as: 80
+        to:
+          - global: true
+profiles:
+  compute:
+    web:
+      resources:
+        cpu:
+          units: 0.5
+        memory:
+          size: 512Mi
+        storage:
+          - size: 1Gi
+  placement:
+    dcloud:
+      pricing:
+        web:
+          denom: uakt
+          amount: 1000
+deployment:
+  dcloud:
+    web:
+      profile: web
+      count: 1
+`;
+
+function modified(change: (sdl: ISDLManifest) => void): ISDLManifest {
+	const sdl = parseSDL(SDL);
+	change(sdl);
+	return sdl;
+}
+
+describe('SDL Diff', () => {
+	it('should report identical SDLs as unchanged', () => {
+		const diff = diffSDL(parseSDL(SDL), parseSDL(SDL));
+		expect(diff.classification).toBe('unchanged');
+		expect(diff.changes).toEqual([]);
+	});
+
+	it('should allow image, env and expose detail changes in place', () => {
+		const next = modified((sdl) => {
+			sdl.services.web.image = 'nginx:1.26';
+			sdl.services.web.env = ['MODE=staging'];
+			sdl.services.web.expose![0].accept = ['www.example.com'];
+		});
+
+		const diff = diffSDL(parseSDL(SDL), next);
+
+		expect(diff.classification).toBe('inPlace');
+		expect(diff.services.web.map((c) => c.field)).toEqual(['image', 'env', 'expose']);
+		expect(diff.services.web[0]).toMatchObject({ from: 'nginx:1.25', to: 'nginx:1.26' });
+		expect(diff.reasons).toEqual([]);
+	});
+
+	it('should require a redeploy for resource, pricing and count changes', () => {
+		const next = modified((sdl) => {
+			sdl.profiles.compute.web.resources.memory.size = '1Gi';
+			sdl.profiles.placement.dcloud.pricing.web.amount = 2000;
+			sdl.deployment.dcloud.web.count = 2;
+		});
+
+		const diff = diffSDL(parseSDL(SDL), next);
+
+		expect(diff.classification).toBe('redeploy');
+		expect(diff.profiles.web).toEqual([
+			expect.objectContaining({ field: 'memory', inPlace: false }),
+		]);
+		expect(diff.services.web).toEqual([
+			expect.objectContaining({ scope: 'deployment', field: 'dcloud.count', from: 1, to: 2 }),
+		]);
+		expect(diff.reasons).toContain(
+			"Compute profile 'web' memory changed: resources are fixed by the order providers bid on",
+		);
+		expect(diff.reasons).toHaveLength(3);
+	});
+
+	it('should require a redeploy when exposes change the group endpoints', () => {
+		const next = modified((sdl) => {
+			sdl.services.web.expose!.push({ port: 443, to: [{ global: true }] });
+		});
+
+		const diff = diffSDL(parseSDL(SDL), next);
+
+		expect(diff.classification).toBe('redeploy');
+		expect(diff.services.web[0]).toMatchObject({ field: 'expose', inPlace: false });
+	});
+
+	it('should require a redeploy when services are added', () => {
+		const next = modified((sdl) => {
+			sdl.services.worker = { image: 'busybox' };
+		});
+
+		const diff = diffSDL(parseSDL(SDL), next);
+
+		expect(diff.classification).toBe('redeploy');
+		expect(diff.reasons[0]).toContain("Service 'worker' added");
+	});
+
+	it('should not put environment values or registry credentials in the plan', () => {
+		const next = modified((sdl) => {
+			sdl.services.web.env = ['MODE=production', 'DB_PASSWORD=hunter2'];
+			sdl.services.web.credentials = {
+				host: 'ghcr.io',
+				username: 'deploy-bot',
+				password: 's3cr3t-registry-token',
+			};
+		});
+
+		const diff = diffSDL(parseSDL(SDL), next);
+
+		const plan = JSON.stringify(diff);
+		expect(plan).not.toContain('hunter2');
+		expect(plan).not.toContain('s3cr3t-registry-token');
+		expect(plan).not.toContain('deploy-bot');
+		expect(diff.services.web).toEqual([
+			expect.objectContaining({
+				field: 'env',
+				from: ['MODE=***'],
+				to: ['MODE=***', 'DB_PASSWORD=***'],
+			}),
+			expect.objectContaining({
+				field: 'credentials',
+				from: undefined,
+				to: { host: 'ghcr.io', username: '***', password: '***' },
+			}),
+		]);
+	});
+});
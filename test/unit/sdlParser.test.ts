@@ -5,12 +5,17 @@
  * See LICENSE file for details.
  */
 
+import { readFileSync } from 'fs';
+import { join } from 'path';
 import {
 	parseSDL,
 	validateSDL,
 	generateVersionHash,
 	createSimpleSDL,
 	calculateSDLPrice,
+	sdlToGroups,
+	sdlToManifest,
+	serializeManifest,
 } from '../../nodes/Akash/helpers/sdlParser';
 
 const VALID_SDL = `
@@ -100,6 +105,83 @@ deployment:
       count: 1
 `;
 
+const SDL_V21 = `
+version: "2.1"
+endpoints:
+  myip:
+    kind: ip
+services:
+  db:
+    image: registry.example.com/team/postgres:16
+    credentials:
+      host: registry.example.com
+      username: deployer
+      password: secret
+    expose:
+      - port: 80
+        as: 80
+        http_options:
+          max_body_size: 10485760
+          read_timeout: 30000
+          next_cases:
+            - error
+            - "502"
+        to:
+          - global: true
+            ip: myip
+    params:
+      storage:
+        data:
+          mount: /var/lib/postgresql/data
+        cache:
+          mount: /dev/shm
+profiles:
+  compute:
+    db:
+      resources:
+        cpu:
+          units: 2
+        memory:
+          size: 4Gi
+        storage:
+          - size: 1Gi
+          - name: data
+            size: 20Gi
+            attributes:
+              persistent: true
+              class: beta3
+          - name: cache
+            size: 1Gi
+            attributes:
+              class: ram
+        gpu:
+          units: 1
+          attributes:
+            vendor:
+              nvidia:
+                - model: a100
+                  ram: 80Gi
+                  interface: sxm
+              amd:
+  placement:
+    dcloud:
+      pricing:
+        db:
+          denom: uakt
+          amount: 1000
+deployment:
+  dcloud:
+    db:
+      profile: db
+      count: 1
+`;
+
+const MANIFEST_FIXTURES = join(__dirname, 'fixtures', 'manifest');
+
+function readFixture(name: string): string {
+	return readFileSync(join(MANIFEST_FIXTURES, name), 'utf8');
+}
+
 describe('SDL Parser', () => {
 	describe('parseSDL', () => {
 		it('should parse valid SDL', () => {
@@ -188,6 +270,129 @@ describe('SDL Parser', () => {
 			expect(result.valid).toBe(false);
 			expect(result.errors).toContain('Missing required field: version');
 		});
+
+		it('should validate SDL v2.1 features', () => {
+			const result = validateSDL(parseSDL(SDL_V21));
+
+			expect(result.errors).toEqual([]);
+			expect(result.valid).toBe(true);
+		});
+
+		it('should report invalid SDL v2.1 features', () => {
+			const sdl = parseSDL(SDL_V21);
+			sdl.version = '2.0';
+			sdl.endpoints!.unused = { kind: 'ip' };
+			sdl.services.db.credentials!.password = '';
+			sdl.services.db.expose![0].to = [{ ip: 'missing' }];
+			sdl.services.db.expose![0].http_options!.next_cases = ['off', 'error'];
+			delete sdl.services.db.params!.storage!.data;
+			const storage = sdl.profiles.compute.db.resources.storage as any[];
+			storage[2].attributes.persistent = true;
+			sdl.profiles.compute.db.resources.gpu!.attributes!.vendor!.nvidia![0].interface =
+				'nvlink' as any;
+
+			const result = validateSDL(sdl);
+
+			expect(result.valid).toBe(false);
+			expect(result.errors).toEqual(
+				expect.arrayContaining([
+					'Endpoints require SDL version 2.1',
+					"Endpoint 'unused' is declared but not used",
+					"Endpoint 'myip' is declared but not used",
+					"Service 'db': credentials missing required field 'password'",
+					"Service 'db': expose[0] references undefined endpoint 'missing'",
+					"Service 'db': expose[0] IP endpoint 'missing' requires global: true",
+					"Service 'db': expose[0] http_options.next_cases 'off' cannot be combined with other cases",
+					"Service 'db': persistent volume 'data' must be mounted in params.storage",
+					"Compute profile 'db': storage 'cache' of class ram cannot be persistent",
+					"Compute profile 'db': gpu nvidia interface 'nvlink' must be one of pcie, sxm",
+				]),
+			);
+		});
+	});
+
+	describe('sdlToGroups', () => {
+		it('should carry storage classes, GPU constraints and leased IPs', () => {
+			const [group] = sdlToGroups(parseSDL(SDL_V21));
+			const resources = group.resources[0].resources;
+
+			expect(resources.storage.map((s) => [s.name, s.attributes])).toEqual([
+				['default', undefined],
+				[
+					'data',
+					[
+						{ key: 'class', value: 'beta3' },
+						{ key: 'persistent', value: 'true' },
+					],
+				],
+				['cache', [{ key: 'class', value: 'ram' }]],
+			]);
+			expect(resources.gpu?.attributes).toEqual([
+				{ key: 'vendor/amd/model/*', value: 'true' },
+				{ key: 'vendor/nvidia/model/a100/ram/80Gi/interface/sxm', value: 'true' },
+			]);
+			// Global port 80 is shared HTTP, followed by the leased IP
+			expect(resources.endpoints).toEqual([
+				{ kind: 0, sequenceNumber: 0 },
+				{ kind: 2, sequenceNumber: 1 },
+			]);
+		});
+
+		it('should request endpoints for global exposes only', () => {
+			const [group] = sdlToGroups(parseSDL(readFixture('web.yaml')));
+			const web = group.resources.find((r) => r.count === 2);
+			const cache = group.resources.find((r) => r.count === 1);
+
+			expect(web?.resources.endpoints).toEqual([{ kind: 0, sequenceNumber: 0 }]);
+			expect(cache?.resources.endpoints).toBeUndefined();
+		});
+
+		it('should request a random port for global exposes other than HTTP on 80', () => {
+			const [group] = sdlToGroups(parseSDL(MULTI_SERVICE_SDL));
+			const kinds = group.resources.map((r) => r.resources.endpoints);
+
+			expect(kinds).toEqual(
+				expect.arrayContaining([
+					[{ kind: 0, sequenceNumber: 0 }],
+					[{ kind: 1, sequenceNumber: 0 }],
+				]),
+			);
+		});
+	});
+
+	describe('sdlToManifest', () => {
+		it('should include credentials, http options and IP endpoints', () => {
+			const [group] = sdlToManifest(parseSDL(SDL_V21)) as any[];
+			const service = group.services[0];
+
+			expect(service.credentials).toEqual({
+				host: 'registry.example.com',
+				email: '',
+				username: 'deployer',
+				password: 'secret',
+			});
+			expect(service.expose[0].httpOptions).toEqual({
+				maxBodySize: 10485760,
+				readTimeout: 30000,
+				sendTimeout: 60000,
+				nextTries: 3,
+				nextTimeout: 0,
+				nextCases: ['error', '502'],
+			});
+			expect(service.expose[0].ip).toBe('myip');
+			expect(service.expose[0].endpointSequenceNumber).toBe(1);
+			expect(service.resources.storage[1].attributes).toEqual([
+				{ key: 'class', value: 'beta3' },
+				{ key: 'persistent', value: 'true' },
+			]);
+		});
+
+		it('should use default http options when none are set', () => {
+			const [group] = sdlToManifest(parseSDL(VALID_SDL)) as any[];
+
+			expect(group.services[0].expose[0].httpOptions.maxBodySize).toBe(1048576);
+			expect(group.services[0].expose[0].ip).toBe('');
+		});
 	});
 
 	describe('generateVersionHash', () => {
@@ -210,6 +415,36 @@ describe('SDL Parser', () => {
 		});
 	});
 
+	describe('manifest version', () => {
+		it.each(['web', 'ip-gpu'])('should match the golden manifest and version for %s', (name) => {
+			const sdl = parseSDL(readFixture(`${name}.yaml`));
+
+			expect(serializeManifest(sdlToManifest(sdl))).toBe(readFixture(`${name}.manifest.json`).trim());
+			expect(Buffer.from(generateVersionHash(sdl)).toString('hex')).toBe(
+				readFixture(`${name}.version`).trim(),
+			);
+		});
+
+		it('should not depend on the key order of the SDL', () => {
+			const sdl = parseSDL(readFixture('web.yaml'));
+			const reordered = parseSDL(readFixture('web.yaml'));
+			reordered.services = { cache: sdl.services.cache, web: sdl.services.web };
+			reordered.deployment = {
+				dcloud: { cache: sdl.deployment.dcloud.cache, web: sdl.deployment.dcloud.web },
+			};
+
+			expect(Array.from(generateVersionHash(reordered))).toEqual(
+				Array.from(generateVersionHash(sdl)),
+			);
+		});
+
+		it('should sort keys and escape HTML characters like the Go encoder', () => {
+			expect(serializeManifest({ b: [1, { d: '<&>', c: null }], a: undefined })).toBe(
+				'{"b":[1,{"c":null,"d":"\\u003c\\u0026\\u003e"}]}',
+			);
+		});
+	});
+
 	describe('createSimpleSDL', () => {
 		it('should create valid SDL string for simple service', () => {
 			const sdlString = createSimpleSDL({
@@ -0,0 +1,122 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { BroadcastTxError, SignerData } from '@cosmjs/stargate';
+import {
+	getSequenceManager,
+	isSequenceMismatch,
+	SequenceManager,
+} from '../../nodes/Akash/transport/sequenceManager';
+
+const MISMATCH_LOG = 'account sequence mismatch, expected 8, got 7: incorrect account sequence';
+
+const mismatch = () => new BroadcastTxError(32, 'sdk', MISMATCH_LOG);
+
+function chainAccount(sequences: number[]) {
+	return jest.fn(async (): Promise<SignerData> => ({
+		accountNumber: 42,
+		sequence: sequences.shift() ?? 0,
+		chainId: 'akashnet-2',
+	}));
+}
+
+describe('Sequence Manager', () => {
+	describe('broadcast', () => {
+		it('should assign consecutive sequences without querying the chain again', async () => {
+			const manager = new SequenceManager();
+			const fetchSignerData = chainAccount([5]);
+			const send = async (signerData: SignerData) => signerData.sequence;
+
+			const sequences = await Promise.all([
+				manager.broadcast(send, fetchSignerData),
+				manager.broadcast(send, fetchSignerData),
+				manager.broadcast(send, fetchSignerData),
+			]);
+
+			expect(sequences).toEqual([5, 6, 7]);
+			expect(fetchSignerData).toHaveBeenCalledTimes(1);
+		});
+
+		it('should run one broadcast at a time', async () => {
+			const manager = new SequenceManager();
+			const fetchSignerData = chainAccount([0]);
+			const events: string[] = [];
+			const send = (name: string) => async () => {
+				events.push(`${name} start`);
+				await new Promise((resolve) => setTimeout(resolve, 5));
+				events.push(`${name} end`);
+			};
+
+			await Promise.all([
+				manager.broadcast(send('first'), fetchSignerData),
+				manager.broadcast(send('second'), fetchSignerData),
+			]);
+
+			expect(events).toEqual(['first start', 'first end', 'second start', 'second end']);
+		});
+
+		it('should retry once with the sequence from chain on a mismatch', async () => {
+			const manager = new SequenceManager();
+			const fetchSignerData = chainAccount([7, 8]);
+			const send = jest.fn(async (signerData: SignerData) => {
+				if (signerData.sequence === 7) {
+					throw mismatch();
+				}
+				return signerData.sequence;
+			});
+
+			await expect(manager.broadcast(send, fetchSignerData)).resolves.toBe(8);
+			expect(fetchSignerData).toHaveBeenCalledTimes(2);
+			expect(send).toHaveBeenCalledTimes(2);
+		});
+
+		it('should give up after the second mismatch', async () => {
+			const manager = new SequenceManager();
+			const fetchSignerData = chainAccount([7, 7]);
+			const send = jest.fn(async () => {
+				throw mismatch();
+			});
+
+			await expect(manager.broadcast(send, fetchSignerData)).rejects.toThrow(
+				'account sequence mismatch',
+			);
+			expect(send).toHaveBeenCalledTimes(2);
+		});
+
+		it('should query the chain again after a failed broadcast', async () => {
+			const manager = new SequenceManager();
+			const fetchSignerData = chainAccount([3, 3]);
+			const failing = jest.fn(async () => {
+				throw new Error('timed out');
+			});
+
+			await expect(manager.broadcast(failing, fetchSignerData)).rejects.toThrow('timed out');
+			await expect(
+				manager.broadcast(async (signerData) => signerData.sequence, fetchSignerData),
+			).resolves.toBe(3);
+			expect(failing).toHaveBeenCalledTimes(1);
+			expect(fetchSignerData).toHaveBeenCalledTimes(2);
+		});
+	});
+
+	describe('getSequenceManager', () => {
+		it('should share one manager per wallet and chain', () => {
+			const manager = getSequenceManager('akashnet-2', 'akash1wallet');
+
+			expect(getSequenceManager('akashnet-2', 'akash1wallet')).toBe(manager);
+			expect(getSequenceManager('sandbox-01', 'akash1wallet')).not.toBe(manager);
+			expect(getSequenceManager('akashnet-2', 'akash1other')).not.toBe(manager);
+		});
+	});
+
+	describe('isSequenceMismatch', () => {
+		it('should recognize sequence errors from the chain', () => {
+			expect(isSequenceMismatch(mismatch())).toBe(true);
+			expect(isSequenceMismatch(new Error('insufficient funds'))).toBe(false);
+		});
+	});
+});
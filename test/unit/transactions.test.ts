@@ -0,0 +1,167 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { BinaryWriter } from 'cosmjs-types/binary';
+import { MsgSend } from 'cosmjs-types/cosmos/bank/v1beta1/tx';
+import { MsgExec } from 'cosmjs-types/cosmos/authz/v1beta1/tx';
+import { AuthInfo, Tx, TxBody } from 'cosmjs-types/cosmos/tx/v1beta1/tx';
+import { decodeMessage, decodeTransaction } from '../../nodes/Akash/helpers/transactions';
+
+const OWNER = 'akash1owner';
+const PROVIDER = 'akash1provider';
+
+// Akash IDs share field numbers: owner, dseq, gseq, oseq, provider
+function encodeId(dseq: number, gseq?: number, oseq?: number, provider?: string): Uint8Array {
+	const writer = BinaryWriter.create().uint32(10).string(OWNER).uint32(16).uint64(dseq);
+	if (gseq !== undefined) writer.uint32(24).uint32(gseq);
+	if (oseq !== undefined) writer.uint32(32).uint32(oseq);
+	if (provider) writer.uint32(42).string(provider);
+	return writer.finish();
+}
+
+function encodeCoin(denom: string, amount: string): Uint8Array {
+	return BinaryWriter.create().uint32(10).string(denom).uint32(18).string(amount).finish();
+}
+
+function encodeCreateDeployment(dseq: number, deposit: string): Uint8Array {
+	return BinaryWriter.create()
+		.uint32(10)
+		.bytes(encodeId(dseq))
+		.uint32(26)
+		.bytes(new Uint8Array([1, 2, 3]))
+		.uint32(34)
+		.bytes(encodeCoin('uakt', deposit))
+		.uint32(42)
+		.string(OWNER)
+		.finish();
+}
+
+function encodeTx(messages: { typeUrl: string; value: Uint8Array }[], fee: string, memo = ''): string {
+	const tx = Tx.fromPartial({
+		body: TxBody.fromPartial({ messages, memo }),
+		authInfo: AuthInfo.fromPartial({
+			fee: { amount: [{ denom: 'uakt', amount: fee }], gasLimit: BigInt(200000) },
+		}),
+		signatures: [new Uint8Array(64)],
+	});
+	return Buffer.from(Tx.encode(tx).finish()).toString('base64');
+}
+
+describe('Transactions', () => {
+	describe('decodeMessage', () => {
+		it('should summarize a create deployment with its deposit', () => {
+			const msg = decodeMessage(
+				'/akash.deployment.v1beta3.MsgCreateDeployment',
+				encodeCreateDeployment(123456, '5000000'),
+			);
+
+			expect(msg.summary).toBe('Create deployment 123456 with 5.000000 AKT deposit');
+			expect(msg.data).toMatchObject({
+				owner: OWNER,
+				dseq: '123456',
+				deposit: { denom: 'uakt', amount: '5000000' },
+				depositor: OWNER,
+			});
+		});
+
+		it('should decode Akash messages regardless of their version', () => {
+			const value = BinaryWriter.create()
+				.uint32(10)
+				.bytes(encodeId(77))
+				.uint32(18)
+				.bytes(encodeCoin('uakt', '2500000'))
+				.uint32(26)
+				.string(OWNER)
+				.finish();
+
+			for (const version of ['v1beta3', 'v1beta4']) {
+				const msg = decodeMessage(`/akash.deployment.${version}.MsgDepositDeployment`, value);
+				expect(msg.summary).toBe('Deposit 2.500000 AKT to deployment 77');
+			}
+		});
+
+		it('should name the provider of a new lease', () => {
+			const value = BinaryWriter.create()
+				.uint32(10)
+				.bytes(encodeId(9, 1, 1, PROVIDER))
+				.finish();
+
+			const msg = decodeMessage('/akash.market.v1beta4.MsgCreateLease', value);
+
+			expect(msg.summary).toBe(`Create lease for deployment 9 with provider ${PROVIDER}`);
+			expect(msg.data).toEqual({ owner: OWNER, dseq: '9', gseq: 1, oseq: 1, provider: PROVIDER });
+		});
+
+		it('should summarize Cosmos SDK messages', () => {
+			const value = MsgSend.encode({
+				fromAddress: OWNER,
+				toAddress: 'akash1recipient',
+				amount: [{ denom: 'uakt', amount: '1500000' }],
+			}).finish();
+
+			const msg = decodeMessage('/cosmos.bank.v1beta1.MsgSend', value);
+
+			expect(msg.summary).toBe('Send 1.500000 AKT from akash1owner to akash1recipient');
+			expect(msg.data.toAddress).toBe('akash1recipient');
+		});
+
+		it('should summarize the messages inside an AuthZ exec', () => {
+			const value = MsgExec.encode({
+				grantee: 'akash1hot',
+				msgs: [
+					{
+						typeUrl: '/akash.deployment.v1beta3.MsgCloseDeployment',
+						value: BinaryWriter.create().uint32(10).bytes(encodeId(5)).finish(),
+					},
+				],
+			}).finish();
+
+			const msg = decodeMessage('/cosmos.authz.v1beta1.MsgExec', value);
+
+			expect(msg.summary).toBe('Execute as granter: Close deployment 5');
+		});
+
+		it('should fall back to the message name for unknown types', () => {
+			const msg = decodeMessage('/akash.escrow.v1beta3.MsgSomethingNew', new Uint8Array());
+
+			expect(msg.summary).toBe('Something new');
+			expect(msg.data).toEqual({});
+		});
+	});
+
+	describe('decodeTransaction', () => {
+		it('should decode the fee, memo and every message', () => {
+			const tx = encodeTx(
+				[
+					{
+						typeUrl: '/akash.deployment.v1beta3.MsgCreateDeployment',
+						value: encodeCreateDeployment(1, '500000'),
+					},
+					{
+						typeUrl: '/akash.market.v1beta4.MsgCreateLease',
+						value: BinaryWriter.create()
+							.uint32(10)
+							.bytes(encodeId(1, 1, 1, PROVIDER))
+							.finish(),
+					},
+				],
+				'5000',
+				'deploy',
+			);
+
+			const decoded = decodeTransaction(tx);
+
+			expect(decoded.fee).toEqual([{ denom: 'uakt', amount: '5000' }]);
+			expect(decoded.feeAkt).toBe('0.005000');
+			expect(decoded.memo).toBe('deploy');
+			expect(decoded.messages).toHaveLength(2);
+			expect(decoded.summary).toBe(
+				`Create deployment 1 with 0.500000 AKT deposit; Create lease for deployment 1 with provider ${PROVIDER}`,
+			);
+		});
+	});
+});
@@ -0,0 +1,81 @@
+/*
+ * Copyright (c) Velocity BPA, LLC
+ * Licensed under the Business Source License 1.1
+ * Commercial use requires a separate commercial license.
+ * See LICENSE file for details.
+ */
+
+import { AkashWebSocketClient } from '../../nodes/Akash/transport/websocket';
+import { AkashRpcClient } from '../../nodes/Akash/transport/rpcClient';
+import { IAkashEvent } from '../../nodes/Akash/types';
+
+function makeEvent(txHash: string, height: number, eventIndex: number = 0): IAkashEvent {
+	return {
+		type: 'lease.created',
+		attributes: [],
+		height,
+		timestamp: '2024-01-01T00:00:00.000Z',
+		txHash,
+		eventIndex,
+	};
+}
+
+describe('AkashWebSocketClient reconnect', () => {
+	it('should resubscribe and emit missed events once and in order', async () => {
+		const rpcClient = {
+			getLatestHeight: async () => 110,
+			getEvents: async (queries: string[], minHeight: number) => {
+				expect(queries).toEqual(["message.module='market'"]);
+				expect(minHeight).toBe(100);
+				return [makeEvent('A', 100), makeEvent('B', 105), makeEvent('B', 105, 1)];
+			},
+			getBlockEvents: async () => [],
+		} as unknown as AkashRpcClient;
+
+		const client = new AkashWebSocketClient('wss://rpc.example.com/websocket', rpcClient);
+		const sent: string[] = [];
+		client['ws'] = { send: (message: string) => sent.push(message) } as never;
+		client['isConnected'] = true;
+		client.subscribeToLeases();
+
+		const emitted: string[] = [];
+		client.on('event', (event: IAkashEvent) => emitted.push(`${event.txHash}:${event.eventIndex}`));
+
+		// Seen before the disconnect
+		client['dispatchEvent'](makeEvent('A', 100));
+
+		await client['restoreSubscriptions']();
+
+		expect(sent).toHaveLength(2);
+		expect(JSON.parse(sent[1]).params.query).toBe("message.module='market'");
+		expect(emitted).toEqual(['A:0', 'B:0', 'B:1']);
+	});
+
+	it('should backfill from the chain height at disconnect, not the last event', async () => {
+		const heights = [200, 210];
+		const scanned: number[] = [];
+		const rpcClient = {
+			getLatestHeight: async () => heights.shift(),
+			getEvents: async (_queries: string[], minHeight: number, maxHeight: number) => {
+				scanned.push(minHeight, maxHeight);
+				return [];
+			},
+			getBlockEvents: async () => [],
+		} as unknown as AkashRpcClient;
+
+		const client = new AkashWebSocketClient('wss://rpc.example.com/websocket', rpcClient);
+		client['ws'] = { send: () => undefined } as never;
+		client['isConnected'] = true;
+		client.subscribeToLeases();
+
+		// The last matching event is long before the disconnect
+		client['dispatchEvent'](makeEvent('A', 50));
+		client['recordDisconnectHeight']();
+		// A failed reconnect must not move the height past blocks not yet scanned
+		client['recordDisconnectHeight']();
+
+		await client['restoreSubscriptions']();
+
+		expect(scanned).toEqual([200, 210]);
+	});
+});